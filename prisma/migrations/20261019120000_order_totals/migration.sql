@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."Order" ADD COLUMN     "deliveryFee" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "discountTotal" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "subtotal" INTEGER NOT NULL DEFAULT 0;
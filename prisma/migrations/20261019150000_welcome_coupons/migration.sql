@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "public"."Coupon" ADD COLUMN     "firstOrderOnly" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "userId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Coupon_userId_idx" ON "public"."Coupon"("userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Coupon" ADD CONSTRAINT "Coupon_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."Order" ADD COLUMN     "deliveryZone" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."OrderItem" ADD COLUMN     "weightGrams" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."Product" ADD COLUMN     "weightGrams" INTEGER NOT NULL DEFAULT 400;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."Order" ADD COLUMN     "shippingDistrictId" TEXT,
+ADD COLUMN     "shippingDivisionId" TEXT,
+ADD COLUMN     "shippingThanaId" TEXT;
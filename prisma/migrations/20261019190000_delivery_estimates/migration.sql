@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "public"."Order" ADD COLUMN     "earliestDelivery" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."Holiday" (
+    "id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Holiday_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Holiday_date_key" ON "public"."Holiday"("date");
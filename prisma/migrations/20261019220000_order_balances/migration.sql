@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "public"."Order" ADD COLUMN     "amountDue" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "amountPaid" INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill from the payments collected so far
+UPDATE "public"."Order" AS o SET "amountPaid" = COALESCE((
+    SELECT SUM(p."amount" - p."refundedAmount")
+    FROM "public"."Payment" AS p
+    WHERE p."orderId" = o."id" AND p."status" = 'paid'
+), 0);
+
+UPDATE "public"."Order" SET "amountDue" = GREATEST("totalAmount" - "amountPaid", 0);
@@ -0,0 +1,8 @@
+-- Order numbers come from src/lib/order-numbers.ts
+CREATE SEQUENCE "public"."OrderNumberSeq" START WITH 1000000;
+
+-- AlterTable
+ALTER TABLE "public"."Order" ADD COLUMN     "idempotencyKey" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Order_idempotencyKey_key" ON "public"."Order"("idempotencyKey");
@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "public"."OrderStatusEvent" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "fromStatus" TEXT,
+    "toStatus" TEXT NOT NULL,
+    "actorType" TEXT NOT NULL,
+    "actorId" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderStatusEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderStatusEvent_orderId_createdAt_idx" ON "public"."OrderStatusEvent"("orderId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."OrderStatusEvent" ADD CONSTRAINT "OrderStatusEvent_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "public"."Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."OrderStatusEvent" ADD CONSTRAINT "OrderStatusEvent_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Turn the completed steps of the client-written timelines into events
+INSERT INTO "public"."OrderStatusEvent" ("id", "orderId", "fromStatus", "toStatus", "actorType", "createdAt")
+SELECT
+    gen_random_uuid()::text,
+    steps."orderId",
+    LAG(steps."status") OVER (PARTITION BY steps."orderId" ORDER BY steps."position"),
+    steps."status",
+    'system',
+    steps."createdAt"
+FROM (
+    SELECT
+        o."id" AS "orderId",
+        step.value->>'id' AS "status",
+        step.ordinality AS "position",
+        COALESCE((step.value->>'date')::timestamptz AT TIME ZONE 'UTC', o."placedOn") AS "createdAt"
+    FROM "public"."Order" AS o
+    CROSS JOIN LATERAL jsonb_array_elements(
+        CASE WHEN jsonb_typeof(o."statusHistory") = 'array' THEN o."statusHistory" ELSE '[]'::jsonb END
+    ) WITH ORDINALITY AS step(value, ordinality)
+    WHERE (step.value->>'isCompleted')::boolean
+      AND step.value->>'id' IN ('placed', 'processing', 'shipped', 'out-for-delivery', 'delivered', 'cancelled')
+) AS steps;
+
+-- Orders without a usable timeline still get their opening event
+INSERT INTO "public"."OrderStatusEvent" ("id", "orderId", "toStatus", "actorType", "createdAt")
+SELECT gen_random_uuid()::text, o."id", o."status", 'system', o."placedOn"
+FROM "public"."Order" AS o
+WHERE NOT EXISTS (
+    SELECT 1 FROM "public"."OrderStatusEvent" AS e WHERE e."orderId" = o."id"
+);
+
+-- AlterTable
+ALTER TABLE "public"."Order" DROP COLUMN "statusHistory",
+ALTER COLUMN "status" SET DEFAULT 'placed';
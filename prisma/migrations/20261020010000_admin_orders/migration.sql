@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "role" TEXT NOT NULL DEFAULT 'customer';
+
+-- AlterTable
+ALTER TABLE "public"."Order" ADD COLUMN     "courier" TEXT,
+ADD COLUMN     "trackingNumber" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."OrderNote" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "authorId" TEXT,
+    "body" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderNote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderNote_orderId_createdAt_idx" ON "public"."OrderNote"("orderId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."OrderNote" ADD CONSTRAINT "OrderNote_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "public"."Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."OrderNote" ADD CONSTRAINT "OrderNote_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "Order_courier_trackingNumber_idx" ON "public"."Order"("courier", "trackingNumber");
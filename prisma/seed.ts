@@ -0,0 +1,250 @@
+import { PrismaClient } from "@prisma/client";
+
+import {
+  newArrivalsData,
+  relatedProductData,
+  topSellingData,
+} from "../src/lib/data/products";
+import { PRODUCT_COLLECTIONS } from "../src/lib/constants";
+import { buildSku } from "../src/lib/variants";
+import type { Product } from "../src/types/product.types";
+
+const prisma = new PrismaClient();
+
+const DEFAULT_VARIANT_STOCK = 20;
+
+// Typical packed weights, used for delivery fee surcharges
+const WEIGHT_GRAMS_BY_CATEGORY: Record<string, number> = {
+  "t-shirts": 250,
+  shirts: 300,
+  shorts: 350,
+  pants: 600,
+  jeans: 700,
+  hoodies: 800,
+};
+
+const toLabel = (slug: string) =>
+  slug
+    .split("-")
+    .join(" ")
+    .replace(/^\w/, (char) => char.toUpperCase());
+
+const collectionsByProduct = new Map<number, string[]>();
+
+const register = (products: Product[], collection: string) => {
+  products.forEach((product) => {
+    const existing = collectionsByProduct.get(product.id) ?? [];
+    collectionsByProduct.set(product.id, [...existing, collection]);
+  });
+};
+
+register(newArrivalsData, PRODUCT_COLLECTIONS.newArrivals);
+register(topSellingData, PRODUCT_COLLECTIONS.topSelling);
+register(relatedProductData, PRODUCT_COLLECTIONS.related);
+
+const products = Array.from(
+  new Map(
+    [...newArrivalsData, ...topSellingData, ...relatedProductData].map(
+      (product) => [product.id, product]
+    )
+  ).values()
+);
+
+async function main() {
+  const categorySlugs = Array.from(new Set(products.map((p) => p.category)));
+  const styleSlugs = Array.from(new Set(products.map((p) => p.style)));
+
+  const categories = await Promise.all(
+    categorySlugs.map((slug) =>
+      prisma.category.upsert({
+        where: { slug },
+        update: {},
+        create: { slug, name: toLabel(slug) },
+      })
+    )
+  );
+
+  const styles = await Promise.all(
+    styleSlugs.map((slug) =>
+      prisma.style.upsert({
+        where: { slug },
+        update: {},
+        create: { slug, name: toLabel(slug) },
+      })
+    )
+  );
+
+  const categoryIds = new Map(categories.map((item) => [item.slug, item.id]));
+  const styleIds = new Map(styles.map((item) => [item.slug, item.id]));
+
+  for (const product of products) {
+    const data = {
+      title: product.title,
+      srcUrl: product.srcUrl,
+      price: product.price,
+      discountAmount: product.discount.amount,
+      discountPercentage: product.discount.percentage,
+      rating: product.rating,
+      weightGrams: WEIGHT_GRAMS_BY_CATEGORY[product.category],
+      categoryId: categoryIds.get(product.category)!,
+      styleId: styleIds.get(product.style)!,
+      colors: product.colors,
+      sizes: product.sizes,
+      collections: collectionsByProduct.get(product.id) ?? [],
+    };
+
+    await prisma.product.upsert({
+      where: { id: product.id },
+      update: data,
+      create: { id: product.id, ...data },
+    });
+
+    await prisma.productImage.deleteMany({ where: { productId: product.id } });
+    await prisma.productImage.createMany({
+      data: (product.gallery ?? [product.srcUrl]).map((url, position) => ({
+        productId: product.id,
+        url,
+        position,
+      })),
+    });
+
+    // Stock is owned by merchandising once a variant exists, so re-seeding
+    // only adds missing size/colour combinations.
+    for (const size of product.sizes) {
+      for (const color of product.colors) {
+        await prisma.productVariant.upsert({
+          where: { sku: buildSku(product.id, size, color) },
+          update: {},
+          create: {
+            productId: product.id,
+            sku: buildSku(product.id, size, color),
+            size,
+            color,
+            stock: DEFAULT_VARIANT_STOCK,
+          },
+        });
+      }
+    }
+  }
+
+  // Explicit ids bypass the serial sequence, so move it past the seeded rows.
+  await prisma.$executeRaw`SELECT setval(pg_get_serial_sequence('"Product"', 'id'), (SELECT MAX("id") FROM "Product"))`;
+
+  const shirts = categories.find((category) => category.slug === "shirts");
+  const sampleCoupons = [
+    {
+      code: "TSR10",
+      description: "10% off orders of $150 or more",
+      type: "percentage",
+      value: 10,
+      minOrderValue: 150,
+    },
+    {
+      code: "SHIRT25",
+      description: "$25 off shirts",
+      type: "fixed",
+      value: 25,
+      perUserLimit: 1,
+      categories: shirts ? { connect: [{ id: shirts.id }] } : undefined,
+    },
+    {
+      code: "FREESHIP",
+      description: "Free delivery on any order",
+      type: "free-shipping",
+      usageLimit: 500,
+    },
+  ];
+
+  for (const coupon of sampleCoupons) {
+    await prisma.coupon.upsert({
+      where: { code: coupon.code },
+      update: {},
+      create: coupon,
+    });
+  }
+
+  const tShirts = categories.find((category) => category.slug === "t-shirts");
+  const hoodies = categories.find((category) => category.slug === "hoodies");
+  const samplePromotions = [
+    {
+      id: "promo-tshirts-3-for-2",
+      name: "Buy 2 T-shirts, get 1 free",
+      type: "buy-x-get-y",
+      buyQuantity: 2,
+      getQuantity: 1,
+      priority: 20,
+      categories: tShirts ? { connect: [{ id: tShirts.id }] } : undefined,
+    },
+    {
+      id: "promo-hoodies-sale",
+      name: "Hoodie sale: 15% off",
+      type: "category-sale",
+      percentage: 15,
+      priority: 10,
+      categories: hoodies ? { connect: [{ id: hoodies.id }] } : undefined,
+    },
+    {
+      id: "promo-spend-500",
+      name: "5% off orders of $500 or more",
+      type: "spend-threshold",
+      minSpend: 500,
+      percentage: 5,
+    },
+  ];
+
+  for (const promotion of samplePromotions) {
+    await prisma.promotion.upsert({
+      where: { id: promotion.id },
+      update: {},
+      create: promotion,
+    });
+  }
+
+  // Lunar dates are expected dates and move with the moon sighting
+  const holidays = [
+    { date: "2026-02-21", name: "International Mother Language Day" },
+    { date: "2026-03-19", name: "Eid-ul-Fitr" },
+    { date: "2026-03-20", name: "Eid-ul-Fitr" },
+    { date: "2026-03-21", name: "Eid-ul-Fitr" },
+    { date: "2026-03-26", name: "Independence Day" },
+    { date: "2026-04-14", name: "Pohela Boishakh" },
+    { date: "2026-05-01", name: "May Day" },
+    { date: "2026-05-26", name: "Eid-ul-Adha" },
+    { date: "2026-05-27", name: "Eid-ul-Adha" },
+    { date: "2026-05-28", name: "Eid-ul-Adha" },
+    { date: "2026-06-26", name: "Ashura" },
+    { date: "2026-08-05", name: "July Mass Uprising Day" },
+    { date: "2026-08-26", name: "Eid-e-Miladunnabi" },
+    { date: "2026-09-04", name: "Janmashtami" },
+    { date: "2026-10-20", name: "Durga Puja (Bijoya Dashami)" },
+    { date: "2026-12-16", name: "Victory Day" },
+    { date: "2026-12-25", name: "Christmas Day" },
+    { date: "2027-02-21", name: "International Mother Language Day" },
+    { date: "2027-03-09", name: "Eid-ul-Fitr" },
+    { date: "2027-03-10", name: "Eid-ul-Fitr" },
+    { date: "2027-03-11", name: "Eid-ul-Fitr" },
+    { date: "2027-03-26", name: "Independence Day" },
+  ];
+
+  for (const holiday of holidays) {
+    const date = new Date(holiday.date);
+    await prisma.holiday.upsert({
+      where: { date },
+      update: {},
+      create: { date, name: holiday.name },
+    });
+  }
+
+  console.log(
+    `Seeded ${products.length} products, ${categories.length} categories, ${styles.length} styles, ${sampleCoupons.length} coupons, ${samplePromotions.length} promotions and ${holidays.length} holidays.`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error("Seeding failed", error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
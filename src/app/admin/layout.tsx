@@ -0,0 +1,57 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+
+import { getCurrentUser, isStaff } from "@/lib/auth";
+import { cn } from "@/lib/utils";
+import { integralCF } from "@/styles/fonts";
+
+export const dynamic = "force-dynamic";
+
+export default async function AdminLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect("/login");
+  }
+
+  if (!isStaff(user)) {
+    return (
+      <main className="pb-20">
+        <div className="max-w-frame mx-auto px-4 xl:px-0">
+          <section className="mx-auto max-w-xl py-10 sm:py-14">
+            <h1
+              className={cn(
+                integralCF.className,
+                "text-3xl sm:text-[40px] font-bold uppercase text-black"
+              )}
+            >
+              Staff only
+            </h1>
+            <p className="mt-3 text-base text-black/60">
+              You&apos;re signed in as {user.email}, which doesn&apos;t have
+              access to the back-office.
+            </p>
+          </section>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="pb-20">
+      <div className="max-w-frame mx-auto px-4 xl:px-0">
+        <nav className="flex items-center justify-between border-b border-black/10 py-4 text-sm">
+          <Link href="/admin/orders" className="font-semibold text-black">
+            Back-office · Orders
+          </Link>
+          <span className="text-black/60">{user.fullName}</span>
+        </nav>
+        {children}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,198 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+import OrderNotes from "@/components/admin-page/OrderNotes";
+import OrderStatusControl from "@/components/admin-page/OrderStatusControl";
+import ShipmentForm from "@/components/admin-page/ShipmentForm";
+import OrderItemsList from "@/components/common/OrderItemsList";
+import { getStaffOrder } from "@/lib/admin-orders";
+import { requirePagePermission } from "@/lib/auth";
+import { getCourierProvider } from "@/lib/couriers";
+import { findCourier } from "@/lib/couriers/services";
+import { formatDeliveryWindow } from "@/lib/delivery-estimate";
+import { formatStatus } from "@/lib/order-status";
+import { findPaymentMethod } from "@/lib/payments/methods";
+import { type Permission, hasPermission } from "@/lib/permissions";
+import { cn, formatCurrency } from "@/lib/utils";
+import { integralCF } from "@/styles/fonts";
+
+export const dynamic = "force-dynamic";
+
+const formatDate = (value: string) =>
+  new Intl.DateTimeFormat("en-GB", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  }).format(new Date(value));
+
+const Card = ({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactNode;
+}) => (
+  <section className="rounded-[24px] border border-black/10 p-5">
+    <h2 className="mb-4 text-lg font-semibold text-black">{title}</h2>
+    {children}
+  </section>
+);
+
+export default async function AdminOrderPage({
+  params,
+}: {
+  params: { orderNumber: string };
+}) {
+  const user = await requirePagePermission("orders:read");
+  const order = await getStaffOrder(params.orderNumber);
+
+  if (!order) {
+    notFound();
+  }
+
+  // Controls the role can't use are left out rather than failing on submit
+  const can = (permission: Permission) => hasPermission(user.role, permission);
+
+  const address = order.shippingAddress;
+  const courier = order.courier ? findCourier(order.courier) : undefined;
+  const trackingUrl =
+    courier && order.trackingNumber
+      ? getCourierProvider(courier.id)?.trackingUrl(order.trackingNumber)
+      : undefined;
+
+  return (
+    <section className="py-8">
+      <Link href="/admin/orders" className="text-sm text-black/60 underline">
+        All orders
+      </Link>
+      <div className="mt-3 flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h1
+            className={cn(
+              integralCF.className,
+              "text-3xl sm:text-[40px] font-bold uppercase text-black"
+            )}
+          >
+            {order.id}
+          </h1>
+          <p className="mt-1 text-sm text-black/60">
+            Placed {formatDate(order.placedOn)}
+          </p>
+        </div>
+        <span className="rounded-full bg-black px-4 py-2 text-sm font-medium text-white">
+          {formatStatus(order.status)}
+        </span>
+      </div>
+      <div className="mt-6 grid grid-cols-1 gap-5 lg:grid-cols-[2fr_1fr]">
+        <div className="space-y-5">
+          <Card title={`Items (${order.itemsCount})`}>
+            <OrderItemsList items={order.items} />
+          </Card>
+          <Card title="Delivery">
+            <div className="space-y-1 text-sm text-black/80">
+              <p className="font-medium text-black">{address.name}</p>
+              <p>{address.phone}</p>
+              {order.customerEmail && <p>{order.customerEmail}</p>}
+              <p>
+                {[address.addressLine1, address.addressLine2]
+                  .filter(Boolean)
+                  .join(", ")}
+              </p>
+              <p>
+                {address.city} {address.postalCode}
+              </p>
+              {order.deliveryWindow && (
+                <p className="pt-2 text-black/60">
+                  Promised for {formatDeliveryWindow(order.deliveryWindow)}
+                </p>
+              )}
+              {order.notes && (
+                <p className="pt-2 text-black/60">
+                  Customer note: {order.notes}
+                </p>
+              )}
+            </div>
+          </Card>
+          <Card title="Payment">
+            <div className="space-y-1 text-sm text-black/80">
+              <p>
+                {order.paymentMethod} · {formatCurrency(order.totalAmount)}{" "}
+                total
+              </p>
+              <p>
+                Paid {formatCurrency(order.amountPaid ?? 0)} · Due{" "}
+                {formatCurrency(order.amountDue ?? 0)}
+              </p>
+              <ul className="pt-2 text-black/60">
+                {order.payments?.map((payment) => (
+                  <li key={payment.id}>
+                    {findPaymentMethod(payment.method)?.title ?? payment.method}{" "}
+                    {formatCurrency(payment.amount)} —{" "}
+                    {formatStatus(payment.status)}
+                    {payment.refundedAmount > 0 &&
+                      ` (${formatCurrency(payment.refundedAmount)} refunded)`}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </Card>
+          <Card title="Status history">
+            <ol className="space-y-3 text-sm">
+              {order.events.map((event) => (
+                <li key={event.id}>
+                  <p className="font-medium text-black">
+                    {event.fromStatus
+                      ? `${formatStatus(event.fromStatus)} → ${formatStatus(
+                          event.toStatus
+                        )}`
+                      : formatStatus(event.toStatus)}
+                  </p>
+                  <p className="text-black/60">
+                    {formatDate(event.createdAt)} ·{" "}
+                    {event.actorName ?? event.actorType}
+                  </p>
+                  {event.note && <p className="text-black/80">{event.note}</p>}
+                </li>
+              ))}
+            </ol>
+          </Card>
+        </div>
+        <div className="space-y-5">
+          {can("orders:status") && (
+            <Card title="Change status">
+              <OrderStatusControl
+                orderNumber={order.id}
+                nextStatuses={order.nextStatuses}
+              />
+            </Card>
+          )}
+          {can("orders:shipment") ? (
+            <Card title="Shipment">
+              <ShipmentForm
+                orderNumber={order.id}
+                courier={order.courier}
+                trackingNumber={order.trackingNumber}
+                trackingUrl={trackingUrl}
+              />
+            </Card>
+          ) : (
+            order.trackingNumber && (
+              <Card title="Shipment">
+                <p className="text-sm text-black/80">
+                  {courier?.name ?? order.courier ?? "Courier"} ·{" "}
+                  {order.trackingNumber}
+                </p>
+              </Card>
+            )
+          )}
+          <Card title="Internal notes">
+            <OrderNotes
+              orderNumber={order.id}
+              notes={order.staffNotes}
+              canAddNotes={can("orders:note")}
+            />
+          </Card>
+        </div>
+      </div>
+    </section>
+  );
+}
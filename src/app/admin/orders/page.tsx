@@ -0,0 +1,243 @@
+import Link from "next/link";
+
+import InputGroup from "@/components/ui/input-group";
+import { Button } from "@/components/ui/button";
+import {
+  type OrderFilters,
+  listStaffOrders,
+  orderFiltersSchema,
+} from "@/lib/admin-orders";
+import { requirePagePermission } from "@/lib/auth";
+import { ORDER_STATUSES, formatStatus } from "@/lib/order-status";
+import { PAYMENT_METHODS } from "@/lib/payments/methods";
+import { cn, formatCurrency } from "@/lib/utils";
+import { integralCF } from "@/styles/fonts";
+
+export const dynamic = "force-dynamic";
+
+type AdminOrdersPageProps = {
+  searchParams: Record<string, string | string[] | undefined>;
+};
+
+const formatDate = (value: string) =>
+  new Intl.DateTimeFormat("en-GB", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  }).format(new Date(value));
+
+const fieldClassName =
+  "w-full bg-transparent py-3 pr-4 text-sm outline-none placeholder:text-black/40";
+
+// Keeps the current filters when moving between pages
+const pageHref = (filters: OrderFilters, page: number) => {
+  const params = new URLSearchParams();
+
+  Object.entries({ ...filters, page }).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") {
+      params.set(key, String(value));
+    }
+  });
+
+  return `/admin/orders?${params.toString()}`;
+};
+
+export default async function AdminOrdersPage({
+  searchParams,
+}: AdminOrdersPageProps) {
+  await requirePagePermission("orders:read");
+
+  const parsed = orderFiltersSchema.safeParse(
+    Object.fromEntries(
+      Object.entries(searchParams).map(([key, value]) => [
+        key,
+        Array.isArray(value) ? value[0] : value,
+      ])
+    )
+  );
+  const filters = parsed.success ? parsed.data : {};
+  const { orders, page, pageCount, total } = await listStaffOrders(filters);
+
+  return (
+    <section className="py-8">
+      <h1
+        className={cn(
+          integralCF.className,
+          "text-3xl sm:text-[40px] font-bold uppercase text-black"
+        )}
+      >
+        Orders
+      </h1>
+      <form
+        method="get"
+        className="mt-6 grid grid-cols-1 gap-3 rounded-[24px] border border-black/10 p-5 sm:grid-cols-2 lg:grid-cols-3"
+      >
+        <InputGroup className="bg-[#F0F0F0]">
+          <input
+            type="search"
+            name="q"
+            defaultValue={filters.q}
+            placeholder="Order number or phone"
+            className={fieldClassName}
+          />
+        </InputGroup>
+        <InputGroup className="bg-[#F0F0F0]">
+          <select
+            name="status"
+            defaultValue={filters.status ?? ""}
+            aria-label="Status"
+            className={fieldClassName}
+          >
+            <option value="">Any status</option>
+            {ORDER_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {formatStatus(status)}
+              </option>
+            ))}
+          </select>
+        </InputGroup>
+        <InputGroup className="bg-[#F0F0F0]">
+          <select
+            name="paymentMethod"
+            defaultValue={filters.paymentMethod ?? ""}
+            aria-label="Payment method"
+            className={fieldClassName}
+          >
+            <option value="">Any payment method</option>
+            {PAYMENT_METHODS.map((method) => (
+              <option key={method.id} value={method.id}>
+                {method.title}
+              </option>
+            ))}
+          </select>
+        </InputGroup>
+        <InputGroup className="bg-[#F0F0F0]">
+          <input
+            type="text"
+            name="city"
+            defaultValue={filters.city}
+            placeholder="City or area"
+            className={fieldClassName}
+          />
+        </InputGroup>
+        <InputGroup className="bg-[#F0F0F0]">
+          <InputGroup.Text className="text-sm text-black/60">
+            From
+          </InputGroup.Text>
+          <input
+            type="date"
+            name="from"
+            defaultValue={filters.from}
+            className={fieldClassName}
+          />
+        </InputGroup>
+        <InputGroup className="bg-[#F0F0F0]">
+          <InputGroup.Text className="text-sm text-black/60">
+            To
+          </InputGroup.Text>
+          <input
+            type="date"
+            name="to"
+            defaultValue={filters.to}
+            className={fieldClassName}
+          />
+        </InputGroup>
+        <div className="flex items-center space-x-3 sm:col-span-2 lg:col-span-3">
+          <Button
+            type="submit"
+            className="h-11 rounded-full bg-black px-6 text-sm font-semibold text-white"
+          >
+            Apply filters
+          </Button>
+          <Link
+            href="/admin/orders"
+            className="text-sm font-medium text-black/60 underline"
+          >
+            Clear
+          </Link>
+        </div>
+      </form>
+      {!parsed.success && (
+        <p className="mt-4 text-sm text-red-500" role="alert">
+          {parsed.error.issues[0]?.message ?? "Some filters were invalid"}, so
+          all orders are shown.
+        </p>
+      )}
+      <p className="mt-6 text-sm text-black/60">
+        {total} {total === 1 ? "order" : "orders"}
+      </p>
+      <div className="mt-3 overflow-x-auto rounded-[24px] border border-black/10">
+        <table className="w-full min-w-[720px] text-left text-sm">
+          <thead className="bg-[#F7F7F7] text-black/60">
+            <tr>
+              <th className="px-4 py-3 font-medium">Order</th>
+              <th className="px-4 py-3 font-medium">Placed</th>
+              <th className="px-4 py-3 font-medium">Customer</th>
+              <th className="px-4 py-3 font-medium">City</th>
+              <th className="px-4 py-3 font-medium">Payment</th>
+              <th className="px-4 py-3 font-medium">Total</th>
+              <th className="px-4 py-3 font-medium">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {orders.map((order) => (
+              <tr key={order.id} className="border-t border-black/10">
+                <td className="px-4 py-3 font-medium">
+                  <Link
+                    href={`/admin/orders/${encodeURIComponent(order.id)}`}
+                    className="underline"
+                  >
+                    {order.id}
+                  </Link>
+                </td>
+                <td className="px-4 py-3">{formatDate(order.placedOn)}</td>
+                <td className="px-4 py-3">
+                  <p>{order.customerName}</p>
+                  <p className="text-black/60">{order.phone}</p>
+                </td>
+                <td className="px-4 py-3">{order.city}</td>
+                <td className="px-4 py-3">{order.paymentMethod}</td>
+                <td className="px-4 py-3">
+                  <p>{formatCurrency(order.totalAmount)}</p>
+                  {order.amountDue > 0 && (
+                    <p className="text-black/60">
+                      {formatCurrency(order.amountDue)} due
+                    </p>
+                  )}
+                </td>
+                <td className="px-4 py-3">{formatStatus(order.status)}</td>
+              </tr>
+            ))}
+            {orders.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-4 py-8 text-center text-black/60">
+                  No orders match these filters.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      {pageCount > 1 && (
+        <div className="mt-6 flex items-center justify-between text-sm">
+          {page > 1 ? (
+            <Link href={pageHref(filters, page - 1)} className="underline">
+              Previous
+            </Link>
+          ) : (
+            <span />
+          )}
+          <span className="text-black/60">
+            Page {page} of {pageCount}
+          </span>
+          {page < pageCount ? (
+            <Link href={pageHref(filters, page + 1)} className="underline">
+              Next
+            </Link>
+          ) : (
+            <span />
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
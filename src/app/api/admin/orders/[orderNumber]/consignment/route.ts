@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getStaffOrder } from "@/lib/admin-orders";
+import { requirePermission } from "@/lib/auth";
+import { bookConsignment } from "@/lib/couriers";
+import { ConsignmentBookingError } from "@/lib/couriers/errors";
+import { COURIER_IDS } from "@/lib/couriers/services";
+
+type RouteContext = { params: { orderNumber: string } };
+
+const bookingSchema = z.object({
+  courier: z.enum(COURIER_IDS, {
+    errorMap: () => ({ message: "Choose a courier from the list" }),
+  }),
+});
+
+// Books the parcel with the courier and saves its tracking number
+export async function POST(request: Request, { params }: RouteContext) {
+  const maybeUser = await requirePermission("orders:shipment");
+
+  if (maybeUser instanceof NextResponse) {
+    return maybeUser;
+  }
+
+  const body = await request.json().catch(() => null);
+
+  const parsed = bookingSchema.safeParse(body);
+
+  if (!parsed.success) {
+    const message = parsed.error.issues[0]?.message ?? "Invalid request";
+    return NextResponse.json({ message }, { status: 400 });
+  }
+
+  try {
+    const consignment = await bookConsignment(
+      params.orderNumber,
+      parsed.data.courier
+    );
+
+    if (!consignment) {
+      return NextResponse.json({ message: "Order not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { order: await getStaffOrder(params.orderNumber) },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ConsignmentBookingError) {
+      return NextResponse.json({ message: error.message }, { status: 409 });
+    }
+
+    console.error("Failed to book consignment", error);
+    return NextResponse.json(
+      { message: "The courier couldn't be reached. Please try again." },
+      { status: 502 }
+    );
+  }
+}
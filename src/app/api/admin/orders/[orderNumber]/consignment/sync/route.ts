@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+
+import { getStaffOrder } from "@/lib/admin-orders";
+import { requirePermission } from "@/lib/auth";
+import { syncConsignment } from "@/lib/couriers";
+import { ConsignmentBookingError } from "@/lib/couriers/errors";
+import { InvalidStatusTransitionError } from "@/lib/order-status";
+
+type RouteContext = { params: { orderNumber: string } };
+
+// Asks the courier where the parcel is, for when its webhooks went missing
+export async function POST(request: Request, { params }: RouteContext) {
+  const maybeUser = await requirePermission("orders:shipment");
+
+  if (maybeUser instanceof NextResponse) {
+    return maybeUser;
+  }
+
+  try {
+    const result = await syncConsignment(params.orderNumber);
+
+    if (!result) {
+      return NextResponse.json({ message: "Order not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      order: await getStaffOrder(params.orderNumber),
+    });
+  } catch (error) {
+    if (
+      error instanceof ConsignmentBookingError ||
+      error instanceof InvalidStatusTransitionError
+    ) {
+      return NextResponse.json({ message: error.message }, { status: 409 });
+    }
+
+    console.error("Failed to sync consignment", error);
+    return NextResponse.json(
+      { message: "The courier couldn't be reached. Please try again." },
+      { status: 502 }
+    );
+  }
+}
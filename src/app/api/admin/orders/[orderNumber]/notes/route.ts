@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+
+import { requirePermission } from "@/lib/auth";
+import {
+  OrderNotFoundError,
+  addOrderNote,
+  orderNoteSchema,
+} from "@/lib/admin-orders";
+
+type RouteContext = { params: { orderNumber: string } };
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const maybeUser = await requirePermission("orders:note");
+
+  if (maybeUser instanceof NextResponse) {
+    return maybeUser;
+  }
+
+  const body = await request.json().catch(() => null);
+
+  const parsed = orderNoteSchema.safeParse(body);
+
+  if (!parsed.success) {
+    const message = parsed.error.issues[0]?.message ?? "Invalid request";
+    return NextResponse.json({ message }, { status: 400 });
+  }
+
+  try {
+    const order = await addOrderNote(
+      params.orderNumber,
+      maybeUser.id,
+      parsed.data.body
+    );
+    return NextResponse.json({ order }, { status: 201 });
+  } catch (error) {
+    if (error instanceof OrderNotFoundError) {
+      return NextResponse.json({ message: "Order not found" }, { status: 404 });
+    }
+
+    console.error("Failed to add order note", error);
+    return NextResponse.json(
+      { message: "We couldn't save the note. Please try again." },
+      { status: 500 }
+    );
+  }
+}
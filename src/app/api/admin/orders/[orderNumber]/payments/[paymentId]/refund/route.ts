@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getStaffOrder } from "@/lib/admin-orders";
+import { requirePermission } from "@/lib/auth";
+import { refundPayment } from "@/lib/payments";
+import { RefundNotAllowedError } from "@/lib/payments/errors";
+
+type RouteContext = { params: { orderNumber: string; paymentId: string } };
+
+const refundSchema = z.object({
+  // Leave out to refund whatever is left of the payment
+  amount: z
+    .number()
+    .int("Refunds are in whole taka")
+    .positive("Refund amount must be more than zero")
+    .optional(),
+  reason: z.string().trim().max(500, "Keep the reason short").optional(),
+});
+
+// Gives a collected payment back through its gateway
+export async function POST(request: Request, { params }: RouteContext) {
+  const maybeUser = await requirePermission("payments:refund");
+
+  if (maybeUser instanceof NextResponse) {
+    return maybeUser;
+  }
+
+  const body = await request.json().catch(() => null);
+
+  const parsed = refundSchema.safeParse(body);
+
+  if (!parsed.success) {
+    const message = parsed.error.issues[0]?.message ?? "Invalid request";
+    return NextResponse.json({ message }, { status: 400 });
+  }
+
+  try {
+    const payment = await refundPayment(
+      params.orderNumber,
+      params.paymentId,
+      parsed.data.amount,
+      parsed.data.reason
+    );
+
+    if (!payment) {
+      return NextResponse.json(
+        { message: "Payment not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      order: await getStaffOrder(params.orderNumber),
+    });
+  } catch (error) {
+    if (error instanceof RefundNotAllowedError) {
+      return NextResponse.json({ message: error.message }, { status: 409 });
+    }
+
+    console.error("Failed to refund payment", error);
+    return NextResponse.json(
+      { message: "The payment gateway couldn't be reached. Please try again." },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+
+import { requirePermission } from "@/lib/auth";
+import {
+  OrderNotFoundError,
+  getStaffOrder,
+  shipmentSchema,
+  updateOrderShipment,
+} from "@/lib/admin-orders";
+
+type RouteContext = { params: { orderNumber: string } };
+
+const notFound = () =>
+  NextResponse.json({ message: "Order not found" }, { status: 404 });
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const maybeUser = await requirePermission("orders:read");
+
+  if (maybeUser instanceof NextResponse) {
+    return maybeUser;
+  }
+
+  const order = await getStaffOrder(params.orderNumber);
+
+  return order ? NextResponse.json({ order }) : notFound();
+}
+
+// Records the courier booking for the parcel
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const maybeUser = await requirePermission("orders:shipment");
+
+  if (maybeUser instanceof NextResponse) {
+    return maybeUser;
+  }
+
+  const body = await request.json().catch(() => null);
+
+  const parsed = shipmentSchema.safeParse(body);
+
+  if (!parsed.success) {
+    const message = parsed.error.issues[0]?.message ?? "Invalid request";
+    return NextResponse.json({ message }, { status: 400 });
+  }
+
+  try {
+    const order = await updateOrderShipment(params.orderNumber, parsed.data);
+    return NextResponse.json({ order });
+  } catch (error) {
+    if (error instanceof OrderNotFoundError) {
+      return notFound();
+    }
+
+    console.error("Failed to update shipment", error);
+    return NextResponse.json(
+      { message: "We couldn't save the shipment details. Please try again." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+
+import { requirePermission } from "@/lib/auth";
+import {
+  OrderNotFoundError,
+  changeStaffOrderStatus,
+  statusChangeSchema,
+} from "@/lib/admin-orders";
+import { InvalidStatusTransitionError } from "@/lib/order-status";
+
+type RouteContext = { params: { orderNumber: string } };
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const maybeUser = await requirePermission("orders:status");
+
+  if (maybeUser instanceof NextResponse) {
+    return maybeUser;
+  }
+
+  const body = await request.json().catch(() => null);
+
+  const parsed = statusChangeSchema.safeParse(body);
+
+  if (!parsed.success) {
+    const message = parsed.error.issues[0]?.message ?? "Invalid request";
+    return NextResponse.json({ message }, { status: 400 });
+  }
+
+  try {
+    const order = await changeStaffOrderStatus(
+      params.orderNumber,
+      maybeUser.id,
+      parsed.data
+    );
+    return NextResponse.json({ order });
+  } catch (error) {
+    if (error instanceof OrderNotFoundError) {
+      return NextResponse.json({ message: "Order not found" }, { status: 404 });
+    }
+
+    // Someone else moved the order first, or the step isn't allowed
+    if (error instanceof InvalidStatusTransitionError) {
+      return NextResponse.json({ message: error.message }, { status: 409 });
+    }
+
+    console.error("Failed to change order status", error);
+    return NextResponse.json(
+      { message: "We couldn't update the order status. Please try again." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+
+import { requirePermission } from "@/lib/auth";
+import { listStaffOrders, orderFiltersSchema } from "@/lib/admin-orders";
+
+export async function GET(request: Request) {
+  const maybeUser = await requirePermission("orders:read");
+
+  if (maybeUser instanceof NextResponse) {
+    return maybeUser;
+  }
+
+  const { searchParams } = new URL(request.url);
+
+  const parsed = orderFiltersSchema.safeParse(Object.fromEntries(searchParams));
+
+  if (!parsed.success) {
+    const message = parsed.error.issues[0]?.message ?? "Invalid request";
+    return NextResponse.json({ message }, { status: 400 });
+  }
+
+  return NextResponse.json(await listStaffOrders(parsed.data));
+}
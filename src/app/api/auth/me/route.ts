@@ -15,6 +15,7 @@ export async function GET() {
       email: user.email,
       fullName: user.fullName,
       phone: user.phone,
+      role: user.role,
       createdAt: user.createdAt,
       updatedAt: user.updatedAt,
     },
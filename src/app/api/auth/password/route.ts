@@ -4,7 +4,8 @@ import { z } from "zod";
 import bcrypt from "bcryptjs";
 
 import { prisma } from "@/lib/prisma";
-import { SESSION_COOKIE_NAME, requireCurrentUser } from "@/lib/auth";
+import { requireCurrentUser } from "@/lib/auth";
+import { SESSION_COOKIE_NAME } from "@/lib/constants";
 
 const passwordSchema = z
   .object({
@@ -0,0 +1,115 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { requireCurrentUser } from "@/lib/auth";
+import {
+  AddressNotFoundError,
+  addressSchema,
+  deleteAddress,
+  listAddresses,
+  setDefaultAddress,
+  updateAddress,
+} from "@/lib/addresses";
+import { serializeAddress } from "@/lib/serializers/address";
+
+type RouteContext = { params: { id: string } };
+
+// PATCH only moves the default flag; edits send the whole address with PUT
+const patchSchema = z.object({
+  isDefault: z.literal(true, {
+    errorMap: () => ({ message: "Only the default address can be changed" }),
+  }),
+});
+
+const notFound = () =>
+  NextResponse.json({ message: "Address not found" }, { status: 404 });
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const maybeUser = await requireCurrentUser();
+
+  if (maybeUser instanceof NextResponse) {
+    return maybeUser;
+  }
+
+  const body = await request.json().catch(() => null);
+
+  const parsed = addressSchema.safeParse(body);
+
+  if (!parsed.success) {
+    const message = parsed.error.issues[0]?.message ?? "Invalid request";
+    return NextResponse.json({ message }, { status: 400 });
+  }
+
+  try {
+    const address = await updateAddress(maybeUser.id, params.id, parsed.data);
+    return NextResponse.json({ address: serializeAddress(address) });
+  } catch (error) {
+    if (error instanceof AddressNotFoundError) {
+      return notFound();
+    }
+
+    console.error("Failed to update address", error);
+    return NextResponse.json(
+      { message: "We couldn't update your address. Please try again." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const maybeUser = await requireCurrentUser();
+
+  if (maybeUser instanceof NextResponse) {
+    return maybeUser;
+  }
+
+  const body = await request.json().catch(() => null);
+
+  const parsed = patchSchema.safeParse(body);
+
+  if (!parsed.success) {
+    const message = parsed.error.issues[0]?.message ?? "Invalid request";
+    return NextResponse.json({ message }, { status: 400 });
+  }
+
+  try {
+    const address = await setDefaultAddress(maybeUser.id, params.id);
+    return NextResponse.json({ address: serializeAddress(address) });
+  } catch (error) {
+    if (error instanceof AddressNotFoundError) {
+      return notFound();
+    }
+
+    console.error("Failed to change default address", error);
+    return NextResponse.json(
+      { message: "We couldn't update your address. Please try again." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const maybeUser = await requireCurrentUser();
+
+  if (maybeUser instanceof NextResponse) {
+    return maybeUser;
+  }
+
+  try {
+    await deleteAddress(maybeUser.id, params.id);
+
+    // Deleting the default promotes another address, so send the new list
+    const addresses = await listAddresses(maybeUser.id);
+    return NextResponse.json({ addresses: addresses.map(serializeAddress) });
+  } catch (error) {
+    if (error instanceof AddressNotFoundError) {
+      return notFound();
+    }
+
+    console.error("Failed to delete address", error);
+    return NextResponse.json(
+      { message: "We couldn't remove your address. Please try again." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+
+import { requireCurrentUser } from "@/lib/auth";
+import { importStoredProfile, storedProfileSchema } from "@/lib/addresses";
+import { serializeAddress } from "@/lib/serializers/address";
+
+export async function POST(request: Request) {
+  const maybeUser = await requireCurrentUser();
+
+  if (maybeUser instanceof NextResponse) {
+    return maybeUser;
+  }
+
+  const body = await request.json().catch(() => null);
+
+  const parsed = storedProfileSchema.safeParse(body);
+
+  if (!parsed.success) {
+    const message = parsed.error.issues[0]?.message ?? "Invalid request";
+    return NextResponse.json({ message }, { status: 400 });
+  }
+
+  const address = await importStoredProfile(maybeUser.id, parsed.data);
+
+  return NextResponse.json({
+    address: address ? serializeAddress(address) : null,
+  });
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+
+import { requireCurrentUser } from "@/lib/auth";
+import { addressSchema, createAddress, listAddresses } from "@/lib/addresses";
+import { serializeAddress } from "@/lib/serializers/address";
+
+export async function GET() {
+  const maybeUser = await requireCurrentUser();
+
+  if (maybeUser instanceof NextResponse) {
+    return maybeUser;
+  }
+
+  const addresses = await listAddresses(maybeUser.id);
+
+  return NextResponse.json({ addresses: addresses.map(serializeAddress) });
+}
+
+export async function POST(request: Request) {
+  const maybeUser = await requireCurrentUser();
+
+  if (maybeUser instanceof NextResponse) {
+    return maybeUser;
+  }
+
+  const body = await request.json().catch(() => null);
+
+  const parsed = addressSchema.safeParse(body);
+
+  if (!parsed.success) {
+    const message = parsed.error.issues[0]?.message ?? "Invalid request";
+    return NextResponse.json({ message }, { status: 400 });
+  }
+
+  try {
+    const address = await createAddress(maybeUser.id, parsed.data);
+    return NextResponse.json(
+      { address: serializeAddress(address) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Failed to save address", error);
+    return NextResponse.json(
+      { message: "We couldn't save your address. Please try again." },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,7 @@ import bcrypt from "bcryptjs";
 
 import { prisma } from "@/lib/prisma";
 import { createSession, setSessionCookie } from "@/lib/auth";
+import { buildWelcomeCoupon } from "@/lib/coupons";
 
 const signupSchema = z.object({
   fullName: z.string().min(1, "Full name is required"),
@@ -43,6 +44,7 @@ export async function POST(request: Request) {
         fullName,
         phone,
         passwordHash,
+        coupons: { create: buildWelcomeCoupon() },
       },
       select: {
         id: true,
@@ -50,13 +52,19 @@ export async function POST(request: Request) {
         fullName: true,
         phone: true,
         createdAt: true,
+        coupons: { select: { code: true, description: true } },
       },
     });
 
     const session = await createSession(user.id);
     setSessionCookie(session);
 
-    return NextResponse.json({ user }, { status: 201 });
+    const { coupons, ...createdUser } = user;
+
+    return NextResponse.json(
+      { user: createdUser, welcomeCoupon: coupons[0] ?? null },
+      { status: 201 }
+    );
   } catch (error) {
     console.error("Signup error", error);
     return NextResponse.json(
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { requireCurrentUser } from "@/lib/auth";
+import { clearCart, getCart, replaceCart } from "@/lib/cart";
+import { serializeCart } from "@/lib/serializers/cart";
+
+const cartLineSchema = z.object({
+  productId: z.number().int().positive("Product is required"),
+  variantId: z.number().int().positive("Item size and colour are required"),
+  quantity: z.number().int().min(1, "Quantity must be at least 1"),
+});
+
+const replaceCartSchema = z.object({
+  items: z.array(cartLineSchema).max(100, "Your bag has too many items"),
+});
+
+export async function GET() {
+  const maybeUser = await requireCurrentUser();
+
+  if (maybeUser instanceof NextResponse) {
+    return maybeUser;
+  }
+
+  const cart = await getCart(maybeUser.id);
+
+  return NextResponse.json({ cart: serializeCart(cart) });
+}
+
+export async function PUT(request: Request) {
+  const maybeUser = await requireCurrentUser();
+
+  if (maybeUser instanceof NextResponse) {
+    return maybeUser;
+  }
+
+  const body = await request.json().catch(() => null);
+
+  const parsed = replaceCartSchema.safeParse(body);
+
+  if (!parsed.success) {
+    const message = parsed.error.issues[0]?.message ?? "Invalid request";
+    return NextResponse.json({ message }, { status: 400 });
+  }
+
+  try {
+    const cart = await replaceCart(maybeUser.id, parsed.data.items);
+    return NextResponse.json({ cart: serializeCart(cart) });
+  } catch (error) {
+    console.error("Failed to save cart", error);
+    return NextResponse.json(
+      { message: "We couldn't save your bag. Please try again." },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE() {
+  const maybeUser = await requireCurrentUser();
+
+  if (maybeUser instanceof NextResponse) {
+    return maybeUser;
+  }
+
+  await clearCart(maybeUser.id);
+
+  return NextResponse.json({ cart: serializeCart(null) });
+}
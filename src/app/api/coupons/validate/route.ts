@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getCurrentUser } from "@/lib/auth";
+import { CouponError, previewCoupon } from "@/lib/coupons";
+import { UnavailableItemsError } from "@/lib/orders";
+import { prisma } from "@/lib/prisma";
+
+const couponLineSchema = z.object({
+  productId: z.number().int().positive("Product is required"),
+  variantId: z.number().int().positive("Item size and colour are required"),
+  quantity: z.number().int().min(1, "Quantity must be at least 1"),
+});
+
+const validateCouponSchema = z.object({
+  code: z
+    .string({ required_error: "Enter a promo code" })
+    .trim()
+    .min(1, "Enter a promo code")
+    .max(40, "Enter a valid promo code"),
+  items: z.array(couponLineSchema).min(1, "Your bag is empty"),
+});
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+
+  const parsed = validateCouponSchema.safeParse(body);
+
+  if (!parsed.success) {
+    const message = parsed.error.issues[0]?.message ?? "Invalid request";
+    return NextResponse.json({ message }, { status: 400 });
+  }
+
+  const user = await getCurrentUser();
+
+  try {
+    const coupon = await previewCoupon(
+      prisma,
+      parsed.data.code,
+      parsed.data.items,
+      user?.id
+    );
+
+    return NextResponse.json({ coupon });
+  } catch (error) {
+    if (error instanceof CouponError) {
+      return NextResponse.json({ message: error.message }, { status: 422 });
+    }
+
+    if (error instanceof UnavailableItemsError) {
+      return NextResponse.json(
+        {
+          message:
+            "Some items in your bag are no longer sold. Remove them to apply a code.",
+          lines: error.lines,
+        },
+        { status: 409 }
+      );
+    }
+
+    console.error("Failed to validate coupon", error);
+    return NextResponse.json(
+      { message: "We couldn't check that code right now. Please try again." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+
+import { requireCurrentUser } from "@/lib/auth";
+import { findWelcomeCoupon } from "@/lib/coupons";
+
+export async function GET() {
+  const maybeUser = await requireCurrentUser();
+
+  if (maybeUser instanceof NextResponse) {
+    return maybeUser;
+  }
+
+  const coupon = await findWelcomeCoupon(maybeUser.id);
+
+  return NextResponse.json({ coupon });
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { getCourierProvider, handleCourierWebhook } from "@/lib/couriers";
+import {
+  ConsignmentNotFoundError,
+  CourierWebhookError,
+} from "@/lib/couriers/errors";
+import { COURIER_IDS } from "@/lib/couriers/services";
+import { InvalidStatusTransitionError } from "@/lib/order-status";
+
+type RouteContext = { params: { courier: string } };
+
+const courierSchema = z.enum(COURIER_IDS);
+
+// Couriers post parcel status changes here; the body is read as text so the
+// adapter can check its signature against exactly what was sent.
+export async function POST(request: Request, { params }: RouteContext) {
+  const parsed = courierSchema.safeParse(params.courier);
+
+  if (!parsed.success || !getCourierProvider(parsed.data)) {
+    return NextResponse.json({ message: "Unknown courier" }, { status: 404 });
+  }
+
+  try {
+    const result = await handleCourierWebhook(
+      parsed.data,
+      await request.text(),
+      request.headers
+    );
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof CourierWebhookError) {
+      return NextResponse.json({ message: error.message }, { status: 400 });
+    }
+
+    if (error instanceof ConsignmentNotFoundError) {
+      return NextResponse.json({ message: error.message }, { status: 404 });
+    }
+
+    // The order was cancelled or moved by staff in the meantime
+    if (error instanceof InvalidStatusTransitionError) {
+      return NextResponse.json({ message: error.message }, { status: 409 });
+    }
+
+    console.error("Failed to handle courier webhook", error);
+    return NextResponse.json(
+      { message: "The update couldn't be processed" },
+      { status: 500 }
+    );
+  }
+}
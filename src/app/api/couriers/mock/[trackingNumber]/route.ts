@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { requirePermission } from "@/lib/auth";
+import {
+  MOCK_SIGNATURE_HEADER,
+  advanceMockConsignment,
+  isMockCourierEnabled,
+} from "@/lib/couriers/mock-courier";
+import { COURIER_STATUSES } from "@/lib/couriers/services";
+
+type RouteContext = { params: { trackingNumber: string } };
+
+const statusSchema = z.enum(COURIER_STATUSES);
+
+// Plays the courier's part: the mock courier page posts the status picked by
+// staff, which is sent to the store's webhook like a real update.
+export async function POST(request: Request, { params }: RouteContext) {
+  if (!isMockCourierEnabled()) {
+    return NextResponse.json({ message: "Not found" }, { status: 404 });
+  }
+
+  const maybeUser = await requirePermission("orders:shipment");
+
+  if (maybeUser instanceof NextResponse) {
+    return maybeUser;
+  }
+
+  const form = await request.formData().catch(() => null);
+
+  const parsed = statusSchema.safeParse(form?.get("status"));
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { message: "Choose the parcel's new status" },
+      { status: 400 }
+    );
+  }
+
+  const webhook = advanceMockConsignment(params.trackingNumber, parsed.data);
+
+  if (!webhook) {
+    return NextResponse.json(
+      { message: "Consignment not found" },
+      { status: 404 }
+    );
+  }
+
+  const response = await fetch(
+    new URL(`/api/couriers/${webhook.courier}/webhook`, request.url),
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        [MOCK_SIGNATURE_HEADER]: webhook.signature,
+      },
+      body: webhook.body,
+    }
+  ).catch(() => null);
+
+  const page = new URL(
+    `/couriers/mock/${encodeURIComponent(params.trackingNumber)}`,
+    request.url
+  );
+  page.searchParams.set("webhook", String(response?.status ?? "failed"));
+
+  return NextResponse.redirect(page, 303);
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+
+import { getDeliveryEstimates } from "@/lib/holidays";
+import { prisma } from "@/lib/prisma";
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const districtId = searchParams.get("districtId");
+  const thanaId = searchParams.get("thanaId") ?? undefined;
+
+  try {
+    const estimates = await getDeliveryEstimates(
+      prisma,
+      districtId ? { districtId, thanaId } : null
+    );
+
+    return NextResponse.json({ estimates });
+  } catch (error) {
+    console.error("Failed to estimate delivery", error);
+    return NextResponse.json(
+      { message: "We couldn't estimate delivery dates right now." },
+      { status: 500 }
+    );
+  }
+}
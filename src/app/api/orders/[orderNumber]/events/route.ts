@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+
+import type { OrderStatusUpdate } from "@/lib/data/orders";
+import {
+  getOrderStatusUpdate,
+  subscribeToOrderStatus,
+} from "@/lib/order-events";
+import { verifyOrderStreamToken } from "@/lib/order-lookup";
+
+type RouteContext = { params: { orderNumber: string } };
+
+export const dynamic = "force-dynamic";
+
+// Proxies drop connections that stay quiet for too long
+const KEEP_ALIVE_MS = 25_000;
+
+const encoder = new TextEncoder();
+
+const formatEvent = (update: OrderStatusUpdate) =>
+  encoder.encode(`event: status\ndata: ${JSON.stringify(update)}\n\n`);
+
+// A Server-Sent Events stream of the order's status, timeline and balance for
+// the tracking page, opened with the `token` the order lookup returned. It
+// starts with the current state, so a reconnecting page catches up on
+// anything it missed.
+export async function GET(request: Request, { params }: RouteContext) {
+  const token = new URL(request.url).searchParams.get("token") ?? "";
+
+  if (!verifyOrderStreamToken(params.orderNumber, token)) {
+    return NextResponse.json(
+      { message: "Look the order up again to follow its status." },
+      { status: 403 }
+    );
+  }
+
+  const orderNumber = params.orderNumber;
+  const current = await getOrderStatusUpdate(orderNumber);
+
+  if (!current) {
+    return NextResponse.json({ message: "Order not found" }, { status: 404 });
+  }
+
+  let stopped = false;
+  let stop = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(formatEvent(current));
+
+      const unsubscribe = subscribeToOrderStatus(orderNumber, (update) =>
+        controller.enqueue(formatEvent(update))
+      );
+      const keepAlive = setInterval(
+        () => controller.enqueue(encoder.encode(": keep-alive\n\n")),
+        KEEP_ALIVE_MS
+      );
+
+      stop = () => {
+        stopped = true;
+        clearInterval(keepAlive);
+        unsubscribe();
+      };
+
+      request.signal.addEventListener("abort", () => {
+        if (!stopped) {
+          stop();
+          controller.close();
+        }
+      });
+    },
+    // The page went away before the request signal noticed
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -1,22 +1,20 @@
 import { NextResponse } from "next/server";
 
-import { prisma } from "@/lib/prisma";
+import { createOrderStreamToken, lookupOrder } from "@/lib/order-lookup";
 import { serializeOrder } from "@/lib/serializers/order";
 
-export async function GET(
-  request: Request,
-  { params }: { params: { orderNumber: string } }
-) {
-  const order = await prisma.order.findUnique({
-    where: { orderNumber: params.orderNumber },
-  });
+type RouteContext = { params: { orderNumber: string } };
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const maybeOrder = await lookupOrder(request, params.orderNumber);
 
-  if (!order) {
-    return NextResponse.json(
-      { message: "Order not found" },
-      { status: 404 }
-    );
+  if (maybeOrder instanceof NextResponse) {
+    return maybeOrder;
   }
 
-  return NextResponse.json({ order: serializeOrder(order) });
+  return NextResponse.json({
+    order: serializeOrder(maybeOrder),
+    // For the live updates on the tracking page
+    streamToken: createOrderStreamToken(maybeOrder.orderNumber),
+  });
 }
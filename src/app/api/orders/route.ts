@@ -1,41 +1,137 @@
 import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
 import { z } from "zod";
 
-import { getCurrentUser } from "@/lib/auth";
+import { getCurrentUser, requireCurrentUser } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
-import type { OrderTimelineStep } from "@/lib/data/orders";
+import { InsufficientStockError, reserveStock } from "@/lib/inventory";
+import { CouponError, claimCoupon, resolveCoupon } from "@/lib/coupons";
+import {
+  CodAdvanceRequiredError,
+  OrderTotalMismatchError,
+  UnavailableItemsError,
+  calculateOrderTotals,
+  cancelUnpaidOrder,
+  evaluateOrderPromotions,
+  listCustomerOrders,
+  orderDetailsInclude,
+  planOrderPayments,
+  snapshotOrderItems,
+} from "@/lib/orders";
+import { formatLocation, refineLocation } from "@/lib/bd-locations";
+import { COD_ADVANCE_RULE } from "@/lib/cod-advance";
+import { findShippingZone, quoteDelivery } from "@/lib/shipping";
+import { estimateDelivery, startOfDeliveryDay } from "@/lib/delivery-estimate";
+import { getUpcomingHolidays } from "@/lib/holidays";
+import { nextOrderNumber } from "@/lib/order-numbers";
+import { ORDER_STATUSES } from "@/lib/order-status";
+import { getPaymentProvider, startPayment } from "@/lib/payments";
+import {
+  PAYMENT_METHOD_IDS,
+  type PaymentMethodId,
+  findPaymentMethod,
+} from "@/lib/payments/methods";
 import { serializeOrder } from "@/lib/serializers/order";
+import type { OrderStatus } from "@/lib/data/orders";
 
-const timelineStepSchema: z.ZodType<OrderTimelineStep> = z.object({
-  id: z.string().min(1, "Timeline step ID is required"),
-  title: z.string().min(1, "Step title is required"),
-  description: z.string().min(1, "Step description is required"),
-  date: z.string().datetime().optional(),
-  isCompleted: z.boolean(),
+const shippingSchema = z
+  .object({
+    name: z.string().min(1, "Recipient name is required"),
+    phone: z.string().min(1, "Recipient phone number is required"),
+    addressLine1: z.string().min(1, "Primary address line is required"),
+    addressLine2: z.string().optional(),
+    divisionId: z.string().min(1, "Division is required"),
+    districtId: z.string().min(1, "District is required"),
+    thanaId: z.string().min(1, "Thana is required"),
+    postalCode: z.string().min(1, "Postal code is required"),
+  })
+  .superRefine(refineLocation);
+
+const orderLineSchema = z.object({
+  productId: z.number().int().positive("Product is required"),
+  variantId: z.number().int().positive("Item size and colour are required"),
+  quantity: z.number().int().min(1, "Quantity must be at least 1"),
 });
 
-const shippingSchema = z.object({
-  name: z.string().min(1, "Recipient name is required"),
-  phone: z.string().min(1, "Recipient phone number is required"),
-  addressLine1: z.string().min(1, "Primary address line is required"),
-  addressLine2: z.string().optional(),
-  city: z.string().min(1, "City is required"),
-  postalCode: z.string().min(1, "Postal code is required"),
+// Methods without a configured gateway can't take the order's money
+const isAvailableMethod = (method: PaymentMethodId) =>
+  getPaymentProvider(method) !== undefined;
+
+const unavailableMethod = (method: PaymentMethodId) => ({
+  message: `${findPaymentMethod(method)?.title ?? method} isn't available right now. Choose another way to pay.`,
 });
 
 const createOrderSchema = z.object({
-  orderNumber: z.string().min(1, "Order number is required"),
-  placedOn: z.string().datetime().optional(),
-  totalAmount: z.number().int().nonnegative(),
-  itemsCount: z.number().int().nonnegative(),
-  status: z.string().min(1, "Order status is required"),
-  paymentMethod: z.string().min(1, "Payment method is required"),
-  estimatedDelivery: z.string().datetime().optional(),
+  expectedTotal: z.number().int().nonnegative(),
+  paymentMethod: z
+    .enum(PAYMENT_METHOD_IDS, {
+      errorMap: () => ({ message: "Choose a payment method" }),
+    })
+    .refine(isAvailableMethod, unavailableMethod),
+  // How a cash on delivery order pays its advance, when it needs one
+  advanceMethod: z
+    .enum(PAYMENT_METHOD_IDS)
+    .refine(isAvailableMethod, unavailableMethod)
+    .optional(),
   notes: z.string().max(1000).optional(),
   shippingAddress: shippingSchema,
-  statusHistory: z.array(timelineStepSchema).min(1),
+  items: z.array(orderLineSchema).min(1, "Your order has no items"),
+  couponCode: z.string().trim().min(1).max(40).optional(),
+});
+
+const listOrdersSchema = z.object({
+  status: z
+    .enum(ORDER_STATUSES as [OrderStatus, ...OrderStatus[]], {
+      errorMap: () => ({ message: "Unknown order status" }),
+    })
+    .optional(),
+  page: z.coerce.number().int().min(1, "Page must be 1 or more").default(1),
 });
 
+const idempotencyKeySchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(255, "Idempotency key is too long")
+  .nullable();
+
+const findIdempotentOrder = (idempotencyKey: string) =>
+  prisma.order.findUnique({
+    where: { idempotencyKey },
+    include: orderDetailsInclude,
+  });
+
+// Hands a retried submission the order its first attempt created
+const replayOrder = (
+  order: Prisma.OrderGetPayload<{ include: typeof orderDetailsInclude }>,
+  userId?: string
+) =>
+  order.userId === (userId ?? null)
+    ? NextResponse.json({ order: serializeOrder(order) })
+    : NextResponse.json(
+        { message: "This idempotency key was already used for another order" },
+        { status: 422 }
+      );
+
+export async function GET(request: Request) {
+  const maybeUser = await requireCurrentUser();
+
+  if (maybeUser instanceof NextResponse) {
+    return maybeUser;
+  }
+
+  const { searchParams } = new URL(request.url);
+
+  const parsed = listOrdersSchema.safeParse(Object.fromEntries(searchParams));
+
+  if (!parsed.success) {
+    const message = parsed.error.issues[0]?.message ?? "Invalid request";
+    return NextResponse.json({ message }, { status: 400 });
+  }
+
+  return NextResponse.json(await listCustomerOrders(maybeUser.id, parsed.data));
+}
+
 export async function POST(request: Request) {
   const body = await request.json().catch(() => null);
 
@@ -46,35 +142,238 @@ export async function POST(request: Request) {
     return NextResponse.json({ message }, { status: 400 });
   }
 
+  const key = idempotencyKeySchema.safeParse(
+    request.headers.get("Idempotency-Key")
+  );
+
+  if (!key.success) {
+    const message = key.error.issues[0]?.message ?? "Invalid idempotency key";
+    return NextResponse.json({ message }, { status: 400 });
+  }
+
+  const idempotencyKey = key.data;
   const user = await getCurrentUser();
   const payload = parsed.data;
 
+  if (idempotencyKey) {
+    const existing = await findIdempotentOrder(idempotencyKey);
+
+    if (existing) {
+      return replayOrder(existing, user?.id);
+    }
+  }
+
   try {
-    const created = await prisma.order.create({
-      data: {
-        orderNumber: payload.orderNumber,
-        userId: user?.id,
-        placedOn: payload.placedOn ? new Date(payload.placedOn) : new Date(),
-        totalAmount: payload.totalAmount,
-        itemsCount: payload.itemsCount,
-        status: payload.status,
-        paymentMethod: payload.paymentMethod,
-        estimatedDelivery: payload.estimatedDelivery
-          ? new Date(payload.estimatedDelivery)
-          : null,
-        notes: payload.notes ?? null,
-        shippingName: payload.shippingAddress.name,
-        shippingPhone: payload.shippingAddress.phone,
-        shippingAddress1: payload.shippingAddress.addressLine1,
-        shippingAddress2: payload.shippingAddress.addressLine2 ?? null,
-        shippingCity: payload.shippingAddress.city,
-        shippingPostal: payload.shippingAddress.postalCode,
-        statusHistory: payload.statusHistory,
-      },
+    const created = await prisma.$transaction(async (tx) => {
+      // Prices always come from the catalog; the client's total is only
+      // used to make sure the customer saw what they are about to pay.
+      const items = await snapshotOrderItems(tx, payload.items);
+      const promotions = await evaluateOrderPromotions(tx, items);
+      const coupon = payload.couponCode
+        ? await resolveCoupon(tx, payload.couponCode, items, user?.id)
+        : null;
+      const delivery = quoteDelivery(payload.shippingAddress, items);
+      const placedOn = new Date();
+      const estimate = estimateDelivery(
+        findShippingZone(payload.shippingAddress),
+        await getUpcomingHolidays(tx, placedOn),
+        placedOn
+      );
+      const totals = calculateOrderTotals(items, {
+        deliveryFee: coupon?.applied.freeShipping ? 0 : delivery.fee,
+        promotionDiscount: promotions.discount,
+        couponDiscount: coupon?.applied.discount,
+      });
+
+      if (totals.totalAmount !== payload.expectedTotal) {
+        throw new OrderTotalMismatchError(payload.expectedTotal, totals);
+      }
+
+      const payments = planOrderPayments(
+        payload.paymentMethod,
+        totals.totalAmount,
+        delivery,
+        payload.advanceMethod
+      );
+
+      await reserveStock(tx, payload.items);
+
+      if (coupon) {
+        await claimCoupon(tx, coupon.claim);
+      }
+
+      if (user) {
+        await tx.cartLine.deleteMany({ where: { cart: { userId: user.id } } });
+      }
+
+      return tx.order.create({
+        data: {
+          orderNumber: await nextOrderNumber(tx),
+          idempotencyKey,
+          userId: user?.id,
+          placedOn,
+          subtotal: totals.subtotal,
+          discountTotal: totals.discountTotal,
+          promotionDiscount: totals.promotionDiscount,
+          appliedPromotions: promotions.applied,
+          couponCode: coupon?.applied.code ?? null,
+          couponDiscount: totals.couponDiscount,
+          deliveryFee: totals.deliveryFee,
+          deliveryZone: delivery.zone,
+          totalAmount: totals.totalAmount,
+          amountDue: totals.totalAmount,
+          itemsCount: totals.itemsCount,
+          paymentMethod:
+            findPaymentMethod(payload.paymentMethod)?.title ??
+            payload.paymentMethod,
+          earliestDelivery: startOfDeliveryDay(estimate.earliest),
+          estimatedDelivery: startOfDeliveryDay(estimate.latest),
+          notes: payload.notes ?? null,
+          shippingName: payload.shippingAddress.name,
+          shippingPhone: payload.shippingAddress.phone,
+          shippingAddress1: payload.shippingAddress.addressLine1,
+          shippingAddress2: payload.shippingAddress.addressLine2 ?? null,
+          shippingCity: formatLocation(payload.shippingAddress),
+          shippingPostal: payload.shippingAddress.postalCode.trim(),
+          shippingDivisionId: payload.shippingAddress.divisionId,
+          shippingDistrictId: payload.shippingAddress.districtId,
+          shippingThanaId: payload.shippingAddress.thanaId,
+          // New orders always start as placed; see src/lib/order-status.ts
+          statusEvents: {
+            create: {
+              toStatus: "placed",
+              actorType: "customer",
+              actorId: user?.id,
+            },
+          },
+          items: { create: items },
+          couponRedemption: coupon
+            ? {
+                create: {
+                  couponId: coupon.claim.couponId,
+                  userId: user?.id,
+                  amount: coupon.applied.freeShipping
+                    ? delivery.fee
+                    : totals.couponDiscount,
+                },
+              }
+            : undefined,
+          payments: { create: payments },
+        },
+        include: orderDetailsInclude,
+      });
     });
 
-    return NextResponse.json({ order: serializeOrder(created) });
+    // Gateways are only contacted once the order and its stock are saved
+    const started = [];
+
+    for (const payment of created.payments) {
+      started.push(
+        await startPayment(
+          payment.id,
+          created.orderNumber,
+          new URL(
+            `/api/payments/${payment.method}/callback`,
+            request.url
+          ).toString()
+        )
+      );
+    }
+
+    // An order whose payment couldn't even be started won't be paid for
+    const failed = started.find((payment) => payment.status === "failed");
+
+    if (
+      failed &&
+      (await cancelUnpaidOrder(
+        created.orderNumber,
+        failed.failureReason ?? "The payment couldn't be started"
+      ))
+    ) {
+      const cancelled = await prisma.order.findUniqueOrThrow({
+        where: { id: created.id },
+        include: orderDetailsInclude,
+      });
+
+      return NextResponse.json({ order: serializeOrder(cancelled) });
+    }
+
+    return NextResponse.json({
+      order: serializeOrder({ ...created, payments: started }),
+    });
   } catch (error) {
+    // A concurrent retry with the same key created the order first
+    if (
+      idempotencyKey &&
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      const existing = await findIdempotentOrder(idempotencyKey);
+
+      if (existing) {
+        return replayOrder(existing, user?.id);
+      }
+    }
+
+    if (error instanceof InsufficientStockError) {
+      return NextResponse.json(
+        {
+          message:
+            "Some items in your bag are no longer available in the quantity you selected.",
+          lines: error.shortages,
+        },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof UnavailableItemsError) {
+      return NextResponse.json(
+        {
+          message:
+            "Some items in your bag are no longer sold. Remove them to continue.",
+          lines: error.lines,
+        },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof CouponError) {
+      return NextResponse.json(
+        { message: error.message, coupon: payload.couponCode },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof CodAdvanceRequiredError) {
+      const advanceMethods = COD_ADVANCE_RULE.methods.filter(isAvailableMethod);
+      const names = advanceMethods.map(
+        (method) => findPaymentMethod(method)?.title ?? method
+      );
+
+      return NextResponse.json(
+        {
+          message:
+            names.length > 0
+              ? `Cash on delivery orders like this one need a $${error.advance} advance paid through ${names.join(" or ")}.`
+              : "Online payments aren't available right now, so this order can't be paid on delivery.",
+          advance: error.advance,
+          advanceMethods,
+        },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof OrderTotalMismatchError) {
+      return NextResponse.json(
+        {
+          message:
+            "Prices in your bag have changed. Please review your order total before confirming.",
+          totals: error.totals,
+        },
+        { status: 409 }
+      );
+    }
+
     console.error("Failed to create order", error);
     return NextResponse.json(
       { message: "We couldn't save your order. Please try again." },
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { cancelUnpaidOrder } from "@/lib/orders";
+import { getPaymentProvider, handlePaymentCallback } from "@/lib/payments";
+import {
+  PaymentNotFoundError,
+  PaymentVerificationError,
+} from "@/lib/payments/errors";
+import { PAYMENT_METHOD_IDS, findPaymentMethod } from "@/lib/payments/methods";
+
+type RouteContext = { params: { method: string } };
+
+const methodSchema = z.enum(PAYMENT_METHOD_IDS);
+
+// Gateways send the shopper's browser here, so the outcome ends on the
+// tracking page rather than as JSON.
+const handleCallback = async (
+  request: Request,
+  method: string,
+  params: URLSearchParams
+) => {
+  const parsed = methodSchema.safeParse(method);
+
+  if (!parsed.success || !getPaymentProvider(parsed.data)) {
+    return NextResponse.json(
+      { message: "Unknown payment method" },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const result = await handlePaymentCallback(parsed.data, params);
+
+    if (result.status === "failed" || result.status === "expired") {
+      await cancelUnpaidOrder(
+        result.orderNumber,
+        `${findPaymentMethod(parsed.data)?.title ?? parsed.data} payment ${
+          result.status === "failed" ? "didn't go through" : "timed out"
+        }`
+      );
+    }
+
+    const destination = new URL("/order-tracking", request.url);
+    destination.searchParams.set("orderId", result.orderNumber);
+    destination.searchParams.set("payment", result.status);
+
+    return NextResponse.redirect(destination, 303);
+  } catch (error) {
+    if (error instanceof PaymentVerificationError) {
+      return NextResponse.json({ message: error.message }, { status: 400 });
+    }
+
+    if (error instanceof PaymentNotFoundError) {
+      return NextResponse.json(
+        { message: "Payment not found" },
+        { status: 404 }
+      );
+    }
+
+    console.error("Failed to handle payment callback", error);
+    return NextResponse.json(
+      { message: "We couldn't confirm your payment. Please contact support." },
+      { status: 500 }
+    );
+  }
+};
+
+export async function GET(request: Request, { params }: RouteContext) {
+  return handleCallback(
+    request,
+    params.method,
+    new URL(request.url).searchParams
+  );
+}
+
+// Card gateways post the outcome as a form instead of a redirect
+export async function POST(request: Request, { params }: RouteContext) {
+  const form = await request.formData().catch(() => null);
+  const fields = new URLSearchParams();
+
+  form?.forEach((value, key) => {
+    if (typeof value === "string") {
+      fields.set(key, value);
+    }
+  });
+
+  return handleCallback(request, params.method, fields);
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+
+import { getAvailablePaymentMethods } from "@/lib/payments";
+
+export const dynamic = "force-dynamic";
+
+// The methods checkout can offer, which depends on the gateways configured
+export async function GET() {
+  return NextResponse.json({ methods: getAvailablePaymentMethods() });
+}
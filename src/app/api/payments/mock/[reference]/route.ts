@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import {
+  MOCK_OUTCOMES,
+  completeMockSession,
+  isMockGatewayEnabled,
+} from "@/lib/payments/mock-gateway";
+
+type RouteContext = { params: { reference: string } };
+
+const outcomeSchema = z.enum(MOCK_OUTCOMES);
+
+// Plays the gateway's part: the mock checkout page posts the outcome picked
+// by the tester and the shopper is sent back to the store's callback.
+export async function POST(request: Request, { params }: RouteContext) {
+  if (!isMockGatewayEnabled()) {
+    return NextResponse.json({ message: "Not found" }, { status: 404 });
+  }
+
+  const form = await request.formData().catch(() => null);
+
+  const parsed = outcomeSchema.safeParse(form?.get("outcome"));
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { message: "Choose how the payment should end" },
+      { status: 400 }
+    );
+  }
+
+  const callbackUrl = completeMockSession(params.reference, parsed.data);
+
+  if (!callbackUrl) {
+    return NextResponse.json(
+      { message: "Payment session not found" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.redirect(callbackUrl, 303);
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+
+import { getActivePromotions } from "@/lib/orders";
+import { prisma } from "@/lib/prisma";
+
+export async function GET() {
+  try {
+    const promotions = await getActivePromotions(prisma);
+
+    return NextResponse.json({ promotions });
+  } catch (error) {
+    console.error("Failed to load promotions", error);
+    return NextResponse.json(
+      { message: "We couldn't load promotions right now." },
+      { status: 500 }
+    );
+  }
+}
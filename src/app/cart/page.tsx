@@ -3,21 +3,37 @@
 import BreadcrumbCart from "@/components/cart-page/BreadcrumbCart";
 import ProductCard from "@/components/cart-page/ProductCard";
 import { Button } from "@/components/ui/button";
-import InputGroup from "@/components/ui/input-group";
+import CouponField from "@/components/common/CouponField";
 import { cn } from "@/lib/utils";
 import { integralCF } from "@/styles/fonts";
 import { FaArrowRight } from "react-icons/fa6";
-import { MdOutlineLocalOffer } from "react-icons/md";
 import { TbBasketExclamation } from "react-icons/tb";
 import React from "react";
 import { RootState } from "@/lib/store";
 import { useAppSelector } from "@/lib/hooks/redux";
+import {
+  selectAppliedCoupon,
+  selectCartPromotions,
+  selectCartTotals,
+  selectDeliveryQuote,
+} from "@/lib/features/carts/cartsSlice";
+import { getDiscountRate } from "@/lib/pricing";
 import Link from "next/link";
 
 export default function CartPage() {
-  const { cart, totalPrice, adjustedTotalPrice } = useAppSelector(
-    (state: RootState) => state.carts
-  );
+  const { cart } = useAppSelector((state: RootState) => state.carts);
+  const totals = useAppSelector(selectCartTotals);
+  const promotions = useAppSelector(selectCartPromotions);
+  const delivery = useAppSelector(selectDeliveryQuote);
+  const coupon = useAppSelector(selectAppliedCoupon);
+
+  let deliveryLabel = "Calculated at checkout";
+
+  if (totals.deliveryFee > 0) {
+    deliveryLabel = `$${totals.deliveryFee}`;
+  } else if (delivery || coupon?.freeShipping) {
+    deliveryLabel = "Free";
+  }
 
   return (
     <main className="pb-20">
@@ -51,53 +67,61 @@ export default function CartPage() {
                 <div className="flex flex-col space-y-5">
                   <div className="flex items-center justify-between">
                     <span className="md:text-xl text-black/60">Subtotal</span>
-                    <span className="md:text-xl font-bold">${totalPrice}</span>
+                    <span className="md:text-xl font-bold">
+                      ${totals.subtotal}
+                    </span>
                   </div>
                   <div className="flex items-center justify-between">
                     <span className="md:text-xl text-black/60">
-                      Discount (-
-                      {Math.round(
-                        ((totalPrice - adjustedTotalPrice) / totalPrice) * 100
-                      )}
-                      %)
+                      Discount (-{getDiscountRate(totals)}%)
                     </span>
                     <span className="md:text-xl font-bold text-red-600">
-                      -${Math.round(totalPrice - adjustedTotalPrice)}
+                      -${totals.discountTotal}
                     </span>
                   </div>
+                  {promotions.applied.map((promotion) => (
+                    <div
+                      key={promotion.id}
+                      className="flex items-center justify-between"
+                    >
+                      <span className="md:text-xl text-black/60">
+                        {promotion.name}
+                      </span>
+                      <span className="md:text-xl font-bold text-red-600">
+                        -${promotion.discount}
+                      </span>
+                    </div>
+                  ))}
+                  {totals.couponDiscount > 0 && (
+                    <div className="flex items-center justify-between">
+                      <span className="md:text-xl text-black/60">Promo code</span>
+                      <span className="md:text-xl font-bold text-red-600">
+                        -${totals.couponDiscount}
+                      </span>
+                    </div>
+                  )}
                   <div className="flex items-center justify-between">
                     <span className="md:text-xl text-black/60">
                       Delivery Fee
+                      {delivery && (
+                        <span className="block text-sm">
+                          {delivery.zoneName}
+                        </span>
+                      )}
+                    </span>
+                    <span className="md:text-xl font-bold">
+                      {deliveryLabel}
                     </span>
-                    <span className="md:text-xl font-bold">Free</span>
                   </div>
                   <hr className="border-t-black/10" />
                   <div className="flex items-center justify-between">
                     <span className="md:text-xl text-black">Total</span>
                     <span className="text-xl md:text-2xl font-bold">
-                      ${Math.round(adjustedTotalPrice)}
+                      ${totals.totalAmount}
                     </span>
                   </div>
                 </div>
-                <div className="flex space-x-3">
-                  <InputGroup className="bg-[#F0F0F0]">
-                    <InputGroup.Text>
-                      <MdOutlineLocalOffer className="text-black/40 text-2xl" />
-                    </InputGroup.Text>
-                    <InputGroup.Input
-                      type="text"
-                      name="code"
-                      placeholder="Add promo code"
-                      className="bg-transparent placeholder:text-black/40"
-                    />
-                  </InputGroup>
-                  <Button
-                    type="button"
-                    className="bg-black rounded-full w-full max-w-[119px] h-[48px]"
-                  >
-                    Apply
-                  </Button>
-                </div>
+                <CouponField />
                 <Button
                   type="button"
                   asChild
@@ -12,22 +12,53 @@ import InputGroup from "@/components/ui/input-group";
 import { FaCheckCircle } from "react-icons/fa";
 import { HiOutlineHomeModern } from "react-icons/hi2";
 import { MdOutlinePayments } from "react-icons/md";
-import { useAppDispatch, useAppSelector } from "@/lib/hooks/redux";
 import {
-  CartItem,
+  useAppDispatch,
+  useAppSelector,
+  useAppStore,
+} from "@/lib/hooks/redux";
+import {
   clearCart,
+  couponRemoved,
+  deliveryAreaChanged,
+  selectAppliedCoupon,
+  selectCartPromotions,
+  selectCartTotals,
+  selectDeliveryQuote,
 } from "@/lib/features/carts/cartsSlice";
+import CouponField from "@/components/common/CouponField";
+import { mergeGuestCart } from "@/lib/features/carts/cartSync";
 import {
-  ORDER_STORAGE_KEY,
-  OrderTracking,
-} from "@/lib/data/orders";
+  applyCoupon,
+  applyWelcomeCoupon,
+} from "@/lib/features/carts/coupon";
+import { loadPromotions } from "@/lib/features/carts/promotions";
+import { OrderTracking } from "@/lib/data/orders";
 import { toast } from "react-toastify";
+import Image from "next/image";
 import { AUTH_SESSION_KEY } from "@/lib/constants";
+import type { StockShortage } from "@/lib/inventory";
+import { type OrderTotals, getLineTotal } from "@/lib/pricing";
+import LocationPicker from "@/components/common/LocationPicker";
+import {
+  LocationSelection,
+  findThana,
+  formatLocation,
+  refineLocation,
+} from "@/lib/bd-locations";
 import {
-  StoredProfile,
-  getStoredProfile,
-  setStoredProfile,
-} from "@/lib/profile-storage";
+  type DeliveryEstimate,
+  formatDeliveryWindow,
+} from "@/lib/delivery-estimate";
+import { migrateStoredProfile } from "@/lib/profile-storage";
+import type { SavedAddress } from "@/lib/serializers/address";
+import AddressChooser from "@/components/common/AddressChooser";
+import {
+  PAYMENT_METHODS,
+  type PaymentMethodId,
+  findPaymentMethod,
+} from "@/lib/payments/methods";
+import { COD_ADVANCE_RULE, getCodAdvance } from "@/lib/cod-advance";
 
 const baseCheckoutSchema = z.object({
   fullName: z
@@ -45,14 +76,12 @@ const baseCheckoutSchema = z.object({
       /^(?:\+?88)?01[3-9]\d{8}$/,
       "Enter a valid Bangladeshi phone number"
     ),
-  city: z
-    .string({ required_error: "City is required" })
-    .min(1, "City is required"),
+  divisionId: z.string().min(1, "Choose a division"),
+  districtId: z.string().min(1, "Choose a district"),
+  thanaId: z.string().min(1, "Choose a thana / upazila"),
   postalCode: z
     .string({ required_error: "Postal code is required" })
-    .min(4, "Postal code must be at least 4 digits")
-    .max(6, "Postal code must be at most 6 digits")
-    .regex(/^[0-9]+$/, "Postal code must only contain numbers"),
+    .regex(/^[0-9]{4}$/, "Postal code must be 4 digits"),
   addressLine1: z
     .string({ required_error: "Street address is required" })
     .min(1, "Street address is required"),
@@ -73,35 +102,15 @@ const guestCheckoutSchema = baseCheckoutSchema
   .refine((data) => data.password === data.confirmPassword, {
     message: "Passwords do not match",
     path: ["confirmPassword"],
-  });
-
-const authenticatedCheckoutSchema = baseCheckoutSchema.extend({
-  password: z.string().optional(),
-  confirmPassword: z.string().optional(),
-});
+  })
+  .superRefine(refineLocation);
 
-const paymentMethods = [
-  {
-    id: "cod",
-    title: "Cash on Delivery",
-    description: "Pay when your package arrives at your doorstep.",
-  },
-  {
-    id: "bkash",
-    title: "bKash",
-    description: "Secure digital payment through your bKash wallet.",
-  },
-  {
-    id: "nagad",
-    title: "Nagad",
-    description: "Instant payment using your Nagad mobile wallet.",
-  },
-  {
-    id: "card",
-    title: "Credit / Debit Card",
-    description: "Use any Bangladeshi issued Visa, Mastercard or AMEX.",
-  },
-] as const;
+const authenticatedCheckoutSchema = baseCheckoutSchema
+  .extend({
+    password: z.string().optional(),
+    confirmPassword: z.string().optional(),
+  })
+  .superRefine(refineLocation);
 
 type CheckoutFormValues = z.infer<typeof guestCheckoutSchema>;
 
@@ -116,27 +125,22 @@ type CurrentUser = {
   phone?: string | null;
 };
 
-const getCartItemFinalPrice = (item: CartItem) => {
-  if (item.discount.percentage > 0) {
-    return Math.round(
-      item.price - (item.price * item.discount.percentage) / 100
-    );
-  }
-
-  if (item.discount.amount > 0) {
-    return Math.max(item.price - item.discount.amount, 0);
-  }
-
-  return item.price;
-};
-
-const ORDER_ESTIMATED_DELIVERY_DAYS = 4;
-
-const generateOrderId = () =>
-  `TSR-${Math.floor(100000 + Math.random() * 900000)}`;
+const toAddressFields = (address: SavedAddress) => ({
+  fullName: address.fullName,
+  phone: address.phone,
+  divisionId: address.divisionId ?? "",
+  districtId: address.districtId ?? "",
+  thanaId: address.thanaId ?? "",
+  postalCode: address.postalCode,
+  addressLine1: address.addressLine1,
+  apartment: address.apartment ?? "",
+  roadNo: address.roadNo ?? "",
+  additionalInfo: address.additionalInfo ?? "",
+});
 
 export default function CheckoutPage() {
   const dispatch = useAppDispatch();
+  const store = useAppStore();
   const { cart } = useAppSelector((state) => state.carts);
   const router = useRouter();
   const [authStatus, setAuthStatus] = useState<AuthStatus>("loading");
@@ -145,14 +149,45 @@ export default function CheckoutPage() {
   const [step, setStep] = useState<CheckoutStep>("address");
   const [shippingDetails, setShippingDetails] =
     useState<CheckoutFormValues | null>(null);
-  const [selectedPayment, setSelectedPayment] = useState<string>("");
+  const [selectedPayment, setSelectedPayment] = useState<
+    PaymentMethodId | ""
+  >("");
+  // Kept across retries so the server can spot a resubmitted order
+  const [idempotencyKey] = useState(() => crypto.randomUUID());
+  const [advanceMethod, setAdvanceMethod] = useState<PaymentMethodId | "">("");
+  // Every method is shown until the server says which gateways are set up
+  const [availableMethods, setAvailableMethods] = useState<
+    PaymentMethodId[] | null
+  >(null);
+  const [lineErrors, setLineErrors] = useState<Record<number, string>>({});
+  const [deliveryEstimate, setDeliveryEstimate] =
+    useState<DeliveryEstimate | null>(null);
+  const [addresses, setAddresses] = useState<SavedAddress[]>([]);
+  const [selectedAddressId, setSelectedAddressId] = useState<string | null>(
+    null
+  );
+  const [saveAddress, setSaveAddress] = useState(true);
+  const [addressLabel, setAddressLabel] = useState("Home");
+
+  const orderTotals = useAppSelector(selectCartTotals);
+  const coupon = useAppSelector(selectAppliedCoupon);
+  const promotions = useAppSelector(selectCartPromotions);
+  const delivery = useAppSelector(selectDeliveryQuote);
+  // The server applies the same rule and rejects orders that skip the advance
+  const codAdvance =
+    selectedPayment === "cod" && delivery
+      ? getCodAdvance(delivery, orderTotals.totalAmount)
+      : 0;
+  const isAvailableMethod = (method: PaymentMethodId) =>
+    !availableMethods || availableMethods.includes(method);
+  const advanceMethods = COD_ADVANCE_RULE.methods.filter(isAvailableMethod);
   const formBaseId = useId();
   const fieldIds = useMemo(
     () => ({
       fullName: `${formBaseId}-full-name`,
       email: `${formBaseId}-email`,
       phone: `${formBaseId}-phone`,
-      city: `${formBaseId}-city`,
+      location: `${formBaseId}-location`,
       postalCode: `${formBaseId}-postal-code`,
       addressLine1: `${formBaseId}-address-line-1`,
       apartment: `${formBaseId}-apartment`,
@@ -175,14 +210,19 @@ export default function CheckoutPage() {
     register,
     handleSubmit,
     reset,
-    formState: { errors },
+    watch,
+    setValue,
+    getValues,
+    formState: { errors, isSubmitted },
   } = useForm<CheckoutFormValues>({
     resolver: zodResolver(activeSchema),
     defaultValues: {
       fullName: "",
       email: "",
       phone: "",
-      city: "",
+      divisionId: "",
+      districtId: "",
+      thanaId: "",
       postalCode: "",
       addressLine1: "",
       apartment: "",
@@ -198,6 +238,107 @@ export default function CheckoutPage() {
     setIsMounted(true);
   }, []);
 
+  useEffect(() => {
+    setLineErrors({});
+  }, [cart]);
+
+  const [divisionId, districtId, thanaId] = watch([
+    "divisionId",
+    "districtId",
+    "thanaId",
+  ]);
+
+  // The delivery fee and dates depend on the area, so quote them as soon as
+  // a thana is picked
+  useEffect(() => {
+    const area = findThana({ divisionId, districtId, thanaId })
+      ? { districtId, thanaId }
+      : null;
+
+    dispatch(deliveryAreaChanged(area));
+    setDeliveryEstimate(null);
+
+    if (!area) {
+      return;
+    }
+
+    const controller = new AbortController();
+
+    const fetchDeliveryEstimate = async () => {
+      try {
+        const response = await fetch(
+          `/api/delivery-estimates?${new URLSearchParams(area)}`,
+          { signal: controller.signal }
+        );
+
+        if (!response.ok) {
+          return;
+        }
+
+        const data = (await response.json()) as {
+          estimates: DeliveryEstimate[];
+        };
+        setDeliveryEstimate(data.estimates[0] ?? null);
+      } catch (error) {
+        if ((error as Error).name === "AbortError") {
+          return;
+        }
+        console.error("Failed to estimate delivery", error);
+      }
+    };
+
+    fetchDeliveryEstimate();
+
+    return () => {
+      controller.abort();
+    };
+  }, [districtId, dispatch, divisionId, thanaId]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const fetchPaymentMethods = async () => {
+      try {
+        const response = await fetch("/api/payments/methods", {
+          signal: controller.signal,
+        });
+
+        if (!response.ok) {
+          return;
+        }
+
+        const data = (await response.json()) as {
+          methods: PaymentMethodId[];
+        };
+        setAvailableMethods(data.methods);
+      } catch (error) {
+        if ((error as Error).name === "AbortError") {
+          return;
+        }
+        console.error("Failed to load payment methods", error);
+      }
+    };
+
+    fetchPaymentMethods();
+
+    return () => {
+      controller.abort();
+    };
+  }, []);
+
+  const handleLocationChange = (next: LocationSelection) => {
+    const options = { shouldValidate: isSubmitted };
+    setValue("divisionId", next.divisionId, options);
+    setValue("districtId", next.districtId, options);
+    setValue("thanaId", next.thanaId, options);
+
+    // Most thanas have a single post office, so fill it in for the shopper
+    const postalCodes = findThana(next)?.postalCodes ?? [];
+    if (postalCodes.length === 1) {
+      setValue("postalCode", postalCodes[0], options);
+    }
+  };
+
   useEffect(() => {
     if (!isMounted) {
       return;
@@ -220,7 +361,9 @@ export default function CheckoutPage() {
             fullName: "",
             email: "",
             phone: "",
-            city: "",
+            divisionId: "",
+            districtId: "",
+            thanaId: "",
             postalCode: "",
             addressLine1: "",
             apartment: "",
@@ -235,6 +378,7 @@ export default function CheckoutPage() {
         const data = (await response.json()) as { user: CurrentUser };
         setAuthStatus("authenticated");
         setCurrentUser(data.user);
+        dispatch(applyWelcomeCoupon());
 
         if (typeof window !== "undefined") {
           window.localStorage.setItem(
@@ -248,18 +392,37 @@ export default function CheckoutPage() {
           );
         }
 
-        const stored = getStoredProfile(data.user.id);
+        await migrateStoredProfile(data.user.id);
+
+        const addressesResponse = await fetch("/api/auth/profile/addresses", {
+          method: "GET",
+          credentials: "include",
+          signal: controller.signal,
+        });
+        const saved = addressesResponse.ok
+          ? ((await addressesResponse.json()) as { addresses: SavedAddress[] })
+              .addresses
+          : [];
+        const preferred =
+          saved.find((address) => address.isDefault) ?? saved[0];
+
+        setAddresses(saved);
+        setSelectedAddressId(preferred?.id ?? null);
+        setAddressLabel(saved.length === 0 ? "Home" : "");
 
         reset({
-          fullName: stored?.data.fullName ?? data.user.fullName,
+          fullName: data.user.fullName,
           email: data.user.email,
-          phone: stored?.data.phone ?? data.user.phone ?? "",
-          city: stored?.data.city ?? "",
-          postalCode: stored?.data.postalCode ?? "",
-          addressLine1: stored?.data.addressLine1 ?? "",
-          apartment: stored?.data.apartment ?? "",
-          roadNo: stored?.data.roadNo ?? "",
-          additionalInfo: stored?.data.additionalInfo ?? "",
+          phone: data.user.phone ?? "",
+          divisionId: "",
+          districtId: "",
+          thanaId: "",
+          postalCode: "",
+          addressLine1: "",
+          apartment: "",
+          roadNo: "",
+          additionalInfo: "",
+          ...(preferred ? toAddressFields(preferred) : {}),
           password: "",
           confirmPassword: "",
         });
@@ -278,31 +441,68 @@ export default function CheckoutPage() {
     return () => {
       controller.abort();
     };
-  }, [isMounted, reset]);
-
-  const onSubmit = (values: CheckoutFormValues) => {
-    setShippingDetails(values);
+  }, [dispatch, isMounted, reset]);
+
+  const handleAddressSelect = (id: string | null) => {
+    const address = addresses.find((item) => item.id === id);
+
+    setSelectedAddressId(address?.id ?? null);
+    reset({
+      ...getValues(),
+      ...(address
+        ? toAddressFields(address)
+        : {
+            divisionId: "",
+            districtId: "",
+            thanaId: "",
+            postalCode: "",
+            addressLine1: "",
+            apartment: "",
+            roadNo: "",
+            additionalInfo: "",
+          }),
+    });
+  };
 
-    if (isAuthenticated && currentUser) {
-      const timestamp = new Date().toISOString();
-      const stored: StoredProfile = {
-        data: {
+  // Failing to save the address shouldn't stop the order going through
+  const saveToAddressBook = async (values: CheckoutFormValues) => {
+    try {
+      const response = await fetch("/api/auth/profile/addresses", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({
+          label: addressLabel.trim() || "Home",
           fullName: values.fullName,
-          email: values.email,
           phone: values.phone,
-          city: values.city,
+          divisionId: values.divisionId,
+          districtId: values.districtId,
+          thanaId: values.thanaId,
           postalCode: values.postalCode,
           addressLine1: values.addressLine1,
           apartment: values.apartment,
           roadNo: values.roadNo,
           additionalInfo: values.additionalInfo,
-        },
-        updatedAt: timestamp,
-      };
+        }),
+      });
 
-      setStoredProfile(currentUser.id, stored);
+      if (!response.ok) {
+        toast.warning("We couldn't save this address to your address book.");
+        return;
+      }
+
+      const data = (await response.json()) as { address: SavedAddress };
+      setAddresses((current) => [...current, data.address]);
+      setSelectedAddressId(data.address.id);
+    } catch (error) {
+      console.error("Failed to save address", error);
     }
+  };
 
+  const onSubmit = (values: CheckoutFormValues) => {
+    setShippingDetails(values);
     setStep("payment");
     window.scrollTo({ top: 0, behavior: "smooth" });
   };
@@ -319,6 +519,11 @@ export default function CheckoutPage() {
       return;
     }
 
+    if (codAdvance > 0 && !advanceMethod) {
+      toast.error("Choose how you'd like to pay the advance.");
+      return;
+    }
+
     if (!cart || cart.items.length === 0) {
       toast.error("Your cart is empty.");
       router.push("/cart");
@@ -350,6 +555,7 @@ export default function CheckoutPage() {
           | {
               message?: string;
               user?: CurrentUser;
+              welcomeCoupon?: { code: string } | null;
             }
           | null;
 
@@ -365,6 +571,19 @@ export default function CheckoutPage() {
         if (data?.user) {
           setAuthStatus("authenticated");
           setCurrentUser(data.user);
+          dispatch(mergeGuestCart(data.user.id));
+
+          if (data.welcomeCoupon && !selectAppliedCoupon(store.getState())) {
+            const applied = await dispatch(
+              applyCoupon(data.welcomeCoupon.code)
+            );
+
+            if (applyCoupon.fulfilled.match(applied)) {
+              toast.success(
+                "Welcome! Your first-order discount has been applied."
+              );
+            }
+          }
 
           if (typeof window !== "undefined") {
             window.localStorage.setItem(
@@ -377,24 +596,6 @@ export default function CheckoutPage() {
               })
             );
           }
-
-          const timestamp = new Date().toISOString();
-          const stored: StoredProfile = {
-            data: {
-              fullName: shippingDetails.fullName,
-              email: shippingDetails.email,
-              phone: shippingDetails.phone,
-              city: shippingDetails.city,
-              postalCode: shippingDetails.postalCode,
-              addressLine1: shippingDetails.addressLine1,
-              apartment: shippingDetails.apartment,
-              roadNo: shippingDetails.roadNo,
-              additionalInfo: shippingDetails.additionalInfo,
-            },
-            updatedAt: timestamp,
-          };
-
-          setStoredProfile(data.user.id, stored);
         }
 
         setShippingDetails({
@@ -408,38 +609,12 @@ export default function CheckoutPage() {
         setStep("address");
         return;
       }
-    } else if (isAuthenticated && currentUser) {
-      const timestamp = new Date().toISOString();
-      const stored: StoredProfile = {
-        data: {
-          fullName: shippingDetails.fullName,
-          email: shippingDetails.email,
-          phone: shippingDetails.phone,
-          city: shippingDetails.city,
-          postalCode: shippingDetails.postalCode,
-          addressLine1: shippingDetails.addressLine1,
-          apartment: shippingDetails.apartment,
-          roadNo: shippingDetails.roadNo,
-          additionalInfo: shippingDetails.additionalInfo,
-        },
-        updatedAt: timestamp,
-      };
-
-      setStoredProfile(currentUser.id, stored);
     }
 
-    const now = new Date();
-    const placedOn = now.toISOString();
-    const estimatedDelivery = new Date(
-      now.getTime() + ORDER_ESTIMATED_DELIVERY_DAYS * 24 * 60 * 60 * 1000
-    ).toISOString();
-    const orderId = generateOrderId();
-
-    const totalAmount = Math.round(
-      cart.items.reduce((total, item) => {
-        return total + getCartItemFinalPrice(item) * item.quantity;
-      }, 0)
-    );
+    // Either signed in already or just signed up above
+    if (saveAddress && !selectedAddressId) {
+      await saveToAddressBook(shippingDetails);
+    }
 
     const addressLine2 = [
       shippingDetails.apartment,
@@ -448,122 +623,132 @@ export default function CheckoutPage() {
       .filter((value) => value && value.trim().length > 0)
       .join(", ");
 
-    const order: OrderTracking = {
-      id: orderId,
-      placedOn,
-      totalAmount,
-      itemsCount: cart.totalQuantities,
-      status: "processing",
-      paymentMethod:
-        paymentMethods.find((method) => method.id === selectedPayment)?.title ??
-        "Cash on Delivery",
-      estimatedDelivery,
-      notes: shippingDetails.additionalInfo,
-      shippingAddress: {
-        name: shippingDetails.fullName,
-        phone: shippingDetails.phone,
-        addressLine1: shippingDetails.addressLine1,
-        addressLine2: addressLine2.length > 0 ? addressLine2 : undefined,
-        city: shippingDetails.city,
-        postalCode: shippingDetails.postalCode,
-      },
-      statusHistory: [
-        {
-          id: "placed",
-          title: "Order Placed",
-          description: "We have received your order details.",
-          date: placedOn,
-          isCompleted: true,
-        },
-        {
-          id: "processing",
-          title: "Processing",
-          description: "We're preparing your items for dispatch.",
-          date: placedOn,
-          isCompleted: true,
-        },
-        {
-          id: "shipped",
-          title: "Shipped",
-          description: "Your package will be handed over to the courier soon.",
-          isCompleted: false,
-        },
-        {
-          id: "out-for-delivery",
-          title: "Out for Delivery",
-          description: "The courier will contact you before arriving.",
-          isCompleted: false,
-        },
-        {
-          id: "delivered",
-          title: "Delivered",
-          description: "Enjoy your new styles from TSR Fashion!",
-          isCompleted: false,
-        },
-      ],
-    };
+    // Read the store directly: signing up above may have just applied the
+    // welcome discount, which this render's totals don't include yet.
+    const totals = selectCartTotals(store.getState());
+    const appliedCoupon = selectAppliedCoupon(store.getState());
 
-    if (typeof window !== "undefined") {
-      try {
-        const existing = window.localStorage.getItem(ORDER_STORAGE_KEY);
-        const parsed: OrderTracking[] = existing ? JSON.parse(existing) : [];
-        window.localStorage.setItem(
-          ORDER_STORAGE_KEY,
-          JSON.stringify([...parsed, order])
-        );
-      } catch (error) {
-        console.error("Failed to persist order", error);
-      }
-    }
+    let savedOrder: OrderTracking;
 
     try {
       const response = await fetch("/api/orders", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          "Idempotency-Key": idempotencyKey,
         },
         body: JSON.stringify({
-          orderNumber: order.id,
-          placedOn: order.placedOn,
-          totalAmount: Math.round(order.totalAmount),
-          itemsCount: order.itemsCount,
-          status: order.status,
-          paymentMethod: order.paymentMethod,
-          estimatedDelivery: order.estimatedDelivery,
-          notes: order.notes,
+          expectedTotal: totals.totalAmount,
+          paymentMethod: selectedPayment,
+          advanceMethod: advanceMethod || undefined,
+          notes: shippingDetails.additionalInfo,
           shippingAddress: {
-            name: order.shippingAddress.name,
-            phone: order.shippingAddress.phone,
-            addressLine1: order.shippingAddress.addressLine1,
-            addressLine2: order.shippingAddress.addressLine2,
-            city: order.shippingAddress.city,
-            postalCode: order.shippingAddress.postalCode,
+            name: shippingDetails.fullName,
+            phone: shippingDetails.phone,
+            addressLine1: shippingDetails.addressLine1,
+            addressLine2: addressLine2.length > 0 ? addressLine2 : undefined,
+            divisionId: shippingDetails.divisionId,
+            districtId: shippingDetails.districtId,
+            thanaId: shippingDetails.thanaId,
+            postalCode: shippingDetails.postalCode,
           },
-          statusHistory: order.statusHistory,
+          couponCode: appliedCoupon?.code,
+          items: cart.items.map((item) => ({
+            productId: item.id,
+            variantId: item.variantId,
+            quantity: item.quantity,
+          })),
         }),
       });
 
       if (!response.ok) {
         const data = (await response.json().catch(() => null)) as
-          | { message?: string }
+          | {
+              message?: string;
+              lines?: StockShortage[];
+              totals?: OrderTotals;
+              coupon?: string;
+              advance?: number;
+            }
           | null;
 
-        toast.warning(
-          data?.message ??
-            "We saved your order locally but couldn't sync it. Please try again later."
+        if (response.status === 409 && data?.lines) {
+          setLineErrors(
+            Object.fromEntries(
+              data.lines.map((line) => [line.variantId, line.message])
+            )
+          );
+          toast.error(
+            data.message ??
+              "Some items in your bag are no longer available in the quantity you selected."
+          );
+          return;
+        }
+
+        if (response.status === 409 && data?.advance) {
+          toast.error(
+            data.message ??
+              `This order needs a $${data.advance} advance before dispatch.`
+          );
+          return;
+        }
+
+        if (response.status === 409 && data?.coupon) {
+          dispatch(couponRemoved());
+          toast.error(
+            `${data.coupon} can't be used with this order: ${data.message ?? "the code is no longer valid."}`
+          );
+          return;
+        }
+
+        if (response.status === 409 && data?.totals) {
+          // A promotion may have started or ended since the rules were loaded
+          dispatch(loadPromotions());
+          toast.error(
+            `${data.message ?? "Prices in your bag have changed."} The current total is $${data.totals.totalAmount}.`
+          );
+          return;
+        }
+
+        toast.error(
+          data?.message ?? "We couldn't place your order. Please try again."
         );
+        return;
       }
+
+      const data = (await response.json()) as { order: OrderTracking };
+      savedOrder = data.order;
     } catch (error) {
-      console.error("Failed to sync order with backend", error);
-      toast.warning(
-        "We saved your order locally but couldn't sync it. Please try again later."
-      );
+      // Retrying reuses the idempotency key, so an order the server did
+      // save is returned instead of placed twice
+      console.error("Failed to place order", error);
+      toast.error("We couldn't place your order. Please try again.");
+      return;
     }
 
+    setLineErrors({});
     dispatch(clearCart());
-    toast.success(`Order confirmed! Tracking ID: ${orderId}`);
     setSelectedPayment("");
-    router.push(`/order-tracking?orderId=${orderId}`);
+    setAdvanceMethod("");
+
+    const redirectUrl = savedOrder.payments?.find(
+      (payment) => payment.redirectUrl
+    )?.redirectUrl;
+
+    if (redirectUrl) {
+      // The gateway sends the shopper on to the tracking page afterwards
+      window.location.assign(redirectUrl);
+      return;
+    }
+
+    if (savedOrder.payments?.some((payment) => payment.status === "failed")) {
+      toast.error(
+        `We couldn't start the payment, so order ${savedOrder.id} was cancelled. Please place it again with another way to pay.`
+      );
+    } else {
+      toast.success(`Order confirmed! Tracking ID: ${savedOrder.id}`);
+    }
+    router.push(`/order-tracking?orderId=${savedOrder.id}`);
   };
 
   const renderStepIndicator = () => {
@@ -676,6 +861,14 @@ export default function CheckoutPage() {
                 </div>
               )}
 
+              {addresses.length > 0 && (
+                <AddressChooser
+                  addresses={addresses}
+                  selectedId={selectedAddressId}
+                  onSelect={handleAddressSelect}
+                />
+              )}
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div>
                   <label
@@ -887,37 +1080,34 @@ export default function CheckoutPage() {
                 </div>
               </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div>
-                  <label
-                    htmlFor={fieldIds.city}
-                    className="mb-2 block text-sm font-medium text-black"
-                  >
-                    City / District
-                  </label>
-                  <InputGroup className="bg-[#F0F0F0]">
-                    <InputGroup.Input
-                      placeholder="e.g. Dhaka"
-                      className="bg-transparent"
-                      id={fieldIds.city}
-                      autoComplete="address-level2"
-                      aria-invalid={errors.city ? "true" : "false"}
-                      aria-describedby={
-                        errors.city ? `${fieldIds.city}-error` : undefined
-                      }
-                      {...register("city")}
-                    />
-                  </InputGroup>
-                  {errors.city && (
-                    <p
-                      id={`${fieldIds.city}-error`}
-                      className="mt-2 text-sm text-red-500"
-                      role="alert"
-                    >
-                      {errors.city.message}
-                    </p>
-                  )}
-                </div>
+              <div>
+                <LocationPicker
+                  idPrefix={fieldIds.location}
+                  value={{ divisionId, districtId, thanaId }}
+                  onChange={handleLocationChange}
+                  errors={{
+                    divisionId: errors.divisionId?.message,
+                    districtId: errors.districtId?.message,
+                    thanaId: errors.thanaId?.message,
+                  }}
+                />
+                {delivery && (
+                  <p className="mt-2 text-sm text-black/60">
+                    {delivery.zoneName} delivery:{" "}
+                    <span className="font-semibold text-black">
+                      {coupon?.freeShipping ? "Free" : `$${delivery.fee}`}
+                    </span>
+                    {deliveryEstimate && (
+                      <>
+                        {" "}
+                        · Arrives{" "}
+                        <span className="font-semibold text-black">
+                          {formatDeliveryWindow(deliveryEstimate)}
+                        </span>
+                      </>
+                    )}
+                  </p>
+                )}
               </div>
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -1009,6 +1199,30 @@ export default function CheckoutPage() {
                 </div>
               </div>
 
+              {!selectedAddressId && (
+                <div className="flex flex-col gap-3 rounded-2xl border border-black/10 bg-[#F7F7F7] p-4 md:flex-row md:items-center">
+                  <label className="flex items-center gap-3 text-sm text-black">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 accent-black"
+                      checked={saveAddress}
+                      onChange={(event) => setSaveAddress(event.target.checked)}
+                    />
+                    Save this address to my account as
+                  </label>
+                  <InputGroup className="bg-white md:max-w-[200px]">
+                    <InputGroup.Input
+                      aria-label="Address label"
+                      placeholder="e.g. Home, Office"
+                      className="bg-transparent"
+                      disabled={!saveAddress}
+                      value={addressLabel}
+                      onChange={(event) => setAddressLabel(event.target.value)}
+                    />
+                  </InputGroup>
+                </div>
+              )}
+
               <div className="flex items-center justify-end">
                 <Button
                   type="submit"
@@ -1041,11 +1255,18 @@ export default function CheckoutPage() {
                       </p>
                       <p className="text-sm text-black/70">
                         {shippingDetails.roadNo && `${shippingDetails.roadNo}, `}
-                        {shippingDetails.city} {shippingDetails.postalCode}
+                        {formatLocation(shippingDetails)}{" "}
+                        {shippingDetails.postalCode}
                       </p>
                       <p className="mt-2 text-sm text-black/70">
                         {shippingDetails.phone} · {shippingDetails.email}
                       </p>
+                      {deliveryEstimate && (
+                        <p className="mt-2 text-sm text-black/70">
+                          Estimated delivery:{" "}
+                          {formatDeliveryWindow(deliveryEstimate)}
+                        </p>
+                      )}
                       {shippingDetails.additionalInfo && (
                         <p className="mt-2 text-sm text-black/60">
                           Note: {shippingDetails.additionalInfo}
@@ -1070,6 +1291,117 @@ export default function CheckoutPage() {
                 >
                   Edit delivery details
                 </Button>
+
+                <div className="mt-8 border-t border-black/10 pt-6">
+                  <h2 className="text-xl font-semibold text-black">
+                    Order summary
+                  </h2>
+                  <ul className="mt-4 space-y-4">
+                    {cart?.items.map((item) => {
+                      const lineError = lineErrors[item.variantId];
+
+                      return (
+                        <li
+                          key={`${item.id}-${item.attributes.join("-")}`}
+                          className="flex items-start space-x-4"
+                        >
+                          <div className="h-16 w-16 shrink-0 overflow-hidden rounded-lg bg-[#F0EEED]">
+                            <Image
+                              src={item.srcUrl}
+                              width={64}
+                              height={64}
+                              className="h-full w-full object-cover"
+                              alt={item.name}
+                            />
+                          </div>
+                          <div className="flex-1">
+                            <p className="text-sm font-semibold text-black">
+                              {item.name}
+                            </p>
+                            <p className="text-xs text-black/60 capitalize">
+                              {item.attributes.join(" · ")} · Qty{" "}
+                              {item.quantity}
+                            </p>
+                            {lineError && (
+                              <p
+                                className="mt-1 text-xs font-medium text-red-500"
+                                role="alert"
+                              >
+                                {lineError}. Reduce the quantity in your cart
+                                to continue.
+                              </p>
+                            )}
+                          </div>
+                          <span className="text-sm font-semibold text-black">
+                            ${getLineTotal(item)}
+                          </span>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                  <CouponField className="mt-6" />
+                  <dl className="mt-6 space-y-2 border-t border-black/10 pt-4 text-sm">
+                    <div className="flex items-center justify-between">
+                      <dt className="text-black/60">Subtotal</dt>
+                      <dd className="font-semibold text-black">
+                        ${orderTotals.subtotal}
+                      </dd>
+                    </div>
+                    {orderTotals.discountTotal > 0 && (
+                      <div className="flex items-center justify-between">
+                        <dt className="text-black/60">Discount</dt>
+                        <dd className="font-semibold text-red-600">
+                          -${orderTotals.discountTotal}
+                        </dd>
+                      </div>
+                    )}
+                    {promotions.applied.map((promotion) => (
+                      <div
+                        key={promotion.id}
+                        className="flex items-center justify-between"
+                      >
+                        <dt className="text-black/60">{promotion.name}</dt>
+                        <dd className="font-semibold text-red-600">
+                          -${promotion.discount}
+                        </dd>
+                      </div>
+                    ))}
+                    {orderTotals.couponDiscount > 0 && (
+                      <div className="flex items-center justify-between">
+                        <dt className="text-black/60">
+                          Promo code ({coupon?.code})
+                        </dt>
+                        <dd className="font-semibold text-red-600">
+                          -${orderTotals.couponDiscount}
+                        </dd>
+                      </div>
+                    )}
+                    <div className="flex items-center justify-between">
+                      <dt className="text-black/60">Delivery Fee</dt>
+                      <dd className="font-semibold text-black">
+                        {orderTotals.deliveryFee > 0
+                          ? `$${orderTotals.deliveryFee}`
+                          : "Free"}
+                      </dd>
+                    </div>
+                    <div className="flex items-center justify-between text-base">
+                      <dt className="text-black">Total</dt>
+                      <dd className="font-bold text-black">
+                        ${orderTotals.totalAmount}
+                      </dd>
+                    </div>
+                  </dl>
+                  {Object.keys(lineErrors).length > 0 && (
+                    <Button
+                      variant="outline"
+                      type="button"
+                      className="mt-4 w-full rounded-full border-black/20 text-sm font-semibold"
+                      onClick={() => router.push("/cart")}
+                    >
+                      Update cart
+                    </Button>
+                  )}
+                </div>
               </section>
 
               <section className="rounded-[24px] border border-black/10 bg-white p-6 md:p-10">
@@ -1084,7 +1416,9 @@ export default function CheckoutPage() {
                   Bangladeshi gateways and cash on delivery.
                 </p>
                 <div className="mt-6 grid gap-4">
-                  {paymentMethods.map((method) => {
+                  {PAYMENT_METHODS.filter((method) =>
+                    isAvailableMethod(method.id)
+                  ).map((method) => {
                     const isActive = selectedPayment === method.id;
                     return (
                       <button
@@ -1113,6 +1447,44 @@ export default function CheckoutPage() {
                     );
                   })}
                 </div>
+                {codAdvance > 0 && (
+                  <div className="mt-4 rounded-2xl border border-black/10 bg-[#F7F7F7] p-5">
+                    <p className="text-base font-semibold text-black">
+                      Pay ${codAdvance} now to confirm this order
+                    </p>
+                    <p className="mt-1 text-sm text-black/60">
+                      Cash on delivery orders outside Dhaka or over $
+                      {COD_ADVANCE_RULE.minOrderTotal} pay the delivery charge
+                      in advance. The remaining $
+                      {orderTotals.totalAmount - codAdvance} is due when your
+                      parcel arrives.
+                    </p>
+                    {advanceMethods.length === 0 && (
+                      <p className="mt-3 text-sm text-red-500">
+                        Online payments aren&apos;t available right now, so this
+                        order can&apos;t be paid on delivery.
+                      </p>
+                    )}
+                    <div className="mt-4 flex flex-wrap gap-3">
+                      {advanceMethods.map((methodId) => (
+                        <button
+                          key={methodId}
+                          type="button"
+                          aria-pressed={advanceMethod === methodId}
+                          className={cn(
+                            "rounded-full border px-5 py-2 text-sm font-medium transition",
+                            advanceMethod === methodId
+                              ? "border-black bg-black text-white"
+                              : "border-black/15 bg-white text-black hover:border-black/40"
+                          )}
+                          onClick={() => setAdvanceMethod(methodId)}
+                        >
+                          Pay with {findPaymentMethod(methodId)?.title}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
                 <Button
                   onClick={handleConfirmOrder}
                   className="mt-6 w-full rounded-full bg-black py-3 text-base font-semibold text-white"
@@ -0,0 +1,113 @@
+import { notFound } from "next/navigation";
+
+import { Button } from "@/components/ui/button";
+import { getCurrentUser } from "@/lib/auth";
+import {
+  getMockConsignment,
+  isMockCourierEnabled,
+} from "@/lib/couriers/mock-courier";
+import { COURIER_STATUSES } from "@/lib/couriers/services";
+import { formatStatus } from "@/lib/order-status";
+import { hasPermission } from "@/lib/permissions";
+import { cn } from "@/lib/utils";
+import { integralCF } from "@/styles/fonts";
+
+export const dynamic = "force-dynamic";
+
+const webhookMessages: Record<string, string> = {
+  "200": "The store accepted the update.",
+  "409": "The store ignored the update; the order can't move that way.",
+  failed: "The store's webhook couldn't be reached.",
+};
+
+// Stands in for the courier's merchant panel while no courier is connected.
+// Only staff who book parcels can see it, as it shows the recipient.
+export default async function MockCourierPage({
+  params,
+  searchParams,
+}: {
+  params: { trackingNumber: string };
+  searchParams: { webhook?: string };
+}) {
+  if (!isMockCourierEnabled()) {
+    notFound();
+  }
+
+  const user = await getCurrentUser();
+  const consignment = getMockConsignment(params.trackingNumber);
+
+  if (!consignment || !user || !hasPermission(user.role, "orders:shipment")) {
+    notFound();
+  }
+
+  const webhookMessage = searchParams.webhook
+    ? (webhookMessages[searchParams.webhook] ??
+      `The store answered the update with HTTP ${searchParams.webhook}.`)
+    : null;
+
+  return (
+    <main className="pb-20">
+      <div className="max-w-frame mx-auto px-4 xl:px-0">
+        <section className="mx-auto max-w-xl py-10 sm:py-14">
+          <p className="text-sm font-medium uppercase tracking-wide text-black/40">
+            Test courier
+          </p>
+          <h1
+            className={cn(
+              integralCF.className,
+              "mt-2 text-3xl sm:text-[40px] font-bold uppercase text-black"
+            )}
+          >
+            {consignment.courierName} parcel
+          </h1>
+          <p className="mt-3 text-base text-black/60">
+            No parcel is collected here. Move consignment{" "}
+            {consignment.trackingNumber} for order {consignment.orderNumber}{" "}
+            along and the store receives the courier&apos;s webhook.
+          </p>
+          <div className="mt-6 rounded-[24px] border border-black/10 bg-[#F7F7F7] p-6">
+            <p className="text-sm text-black/60">Current status</p>
+            <p className="text-2xl font-semibold text-black">
+              {formatStatus(consignment.status)}
+            </p>
+            <p className="mt-2 text-sm text-black/60">
+              {consignment.recipientName}, {consignment.city} · collect $
+              {consignment.codAmount}
+            </p>
+          </div>
+          {webhookMessage && (
+            <p className="mt-4 text-sm text-black/60" role="status">
+              {webhookMessage}
+            </p>
+          )}
+          <div className="mt-6 flex flex-col space-y-3">
+            {COURIER_STATUSES.filter((status) => status !== "booked").map(
+              (status) => (
+                <form
+                  key={status}
+                  method="post"
+                  action={`/api/couriers/mock/${encodeURIComponent(
+                    consignment.trackingNumber
+                  )}`}
+                >
+                  <input type="hidden" name="status" value={status} />
+                  <Button
+                    type="submit"
+                    className={cn(
+                      "h-[52px] w-full rounded-full text-base font-semibold",
+                      status === consignment.status
+                        ? "bg-black text-white"
+                        : "border border-black/15 bg-white text-black"
+                    )}
+                  >
+                    {formatStatus(status)}
+                  </Button>
+                </form>
+              )
+            )}
+          </div>
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -12,6 +12,9 @@ import InputGroup from "@/components/ui/input-group";
 import { Button } from "@/components/ui/button";
 import { toast } from "react-toastify";
 import { AUTH_SESSION_KEY } from "@/lib/constants";
+import { useAppDispatch } from "@/lib/hooks/redux";
+import { mergeGuestCart } from "@/lib/features/carts/cartSync";
+import { migrateStoredProfile } from "@/lib/profile-storage";
 
 const loginSchema = z.object({
   email: z
@@ -27,6 +30,7 @@ type LoginFormValues = z.infer<typeof loginSchema>;
 
 export default function LoginPage() {
   const router = useRouter();
+  const dispatch = useAppDispatch();
   const [isMounted, setIsMounted] = useState(false);
   const fieldBaseId = useId();
   const fieldIds = useMemo(
@@ -121,6 +125,13 @@ export default function LoginPage() {
         );
       }
 
+      if (data?.user) {
+        dispatch(mergeGuestCart(data.user.id));
+        // Delivery details saved in this browser move to the address book
+        // now rather than whenever the customer next opens checkout
+        await migrateStoredProfile(data.user.id);
+      }
+
       const firstName = data?.user?.fullName?.split(" ")[0] ?? "";
       toast.success(firstName ? `Welcome back, ${firstName}!` : "Logged in successfully!");
       router.push("/profile");
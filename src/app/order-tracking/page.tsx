@@ -1,18 +1,24 @@
 "use client";
 
-import { FormEvent, useCallback, useEffect, useMemo, useState } from "react";
+import { FormEvent, useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
 import { useSearchParams } from "next/navigation";
 import InputGroup from "@/components/ui/input-group";
 import { Button } from "@/components/ui/button";
 import {
-  ORDER_STORAGE_KEY,
+  OrderPayment,
+  OrderStatusUpdate,
   OrderTracking,
   OrderTimelineStep,
-  sampleOrders,
 } from "@/lib/data/orders";
-import { cn } from "@/lib/utils";
+import { ORDER_LOOKUP_PHONE_DIGITS } from "@/lib/constants";
+import { ORDER_STATUS_TRANSITIONS, formatStatus } from "@/lib/order-status";
+import { cn, formatCurrency } from "@/lib/utils";
 import { integralCF } from "@/styles/fonts";
 import { FaCheckCircle } from "react-icons/fa";
+import OrderItemsList from "@/components/common/OrderItemsList";
+import { formatDeliveryWindow } from "@/lib/delivery-estimate";
+import { type PaymentStatus, findPaymentMethod } from "@/lib/payments/methods";
 
 const formatDate = (value?: string) => {
   if (!value) {
@@ -25,52 +31,50 @@ const formatDate = (value?: string) => {
   }).format(new Date(value));
 };
 
-const formatCurrency = (value: number) =>
-  new Intl.NumberFormat("en-US", {
-    style: "currency",
-    currency: "USD",
-    maximumFractionDigits: 0,
-  }).format(value);
-
-const formatStatus = (status: string) =>
-  status
-    .split("-")
-    .join(" ")
-    .replace(/\b\w/g, (char) => char.toUpperCase());
-
-const mergeOrders = (
-  baseOrders: OrderTracking[],
-  storedOrders: OrderTracking[]
-) => {
-  const map = new Map<string, OrderTracking>();
-  [...baseOrders, ...storedOrders].forEach((order) => {
-    map.set(order.id, order);
-  });
-
-  return Array.from(map.values()).sort((a, b) =>
-    new Date(b.placedOn).getTime() - new Date(a.placedOn).getTime()
-  );
+const paymentStatusLabels: Record<PaymentStatus, string> = {
+  pending: "Awaiting payment",
+  paid: "Paid",
+  failed: "Failed",
+  expired: "Timed out",
+  "refund-pending": "Being refunded",
+  refunded: "Refunded",
 };
 
-const getStoredOrders = () => {
-  if (typeof window === "undefined") {
-    return [] as OrderTracking[];
-  }
-
-  const raw = window.localStorage.getItem(ORDER_STORAGE_KEY);
+const describePayment = (payment: OrderPayment) => {
+  const title = findPaymentMethod(payment.method)?.title ?? payment.method;
+  const status =
+    payment.method === "cod" && payment.status === "pending"
+      ? "Due on delivery"
+      : paymentStatusLabels[payment.status];
 
-  if (!raw) {
-    return [] as OrderTracking[];
-  }
+  return `${title} · ${formatCurrency(payment.amount)}: ${status}`;
+};
 
-  try {
-    return JSON.parse(raw) as OrderTracking[];
-  } catch (error) {
-    console.error("Failed to parse stored orders", error);
-    return [] as OrderTracking[];
-  }
+// Shown when a payment gateway sends the shopper back here
+const paymentOutcomeMessages: Record<PaymentStatus, string> = {
+  pending: "We're waiting for the gateway to confirm your payment.",
+  paid: "Payment received. Thank you!",
+  failed:
+    "Your payment didn't go through, so the order was cancelled. Place it again to pay another way.",
+  expired:
+    "The payment session timed out, so the order was cancelled. Place it again to pay another way.",
+  "refund-pending":
+    "This order was cancelled before your payment arrived. We'll refund it shortly.",
+  refunded: "This payment has been refunded.",
 };
 
+type Lookup =
+  | { state: "idle" }
+  | { state: "loading" }
+  // `streamToken` opens the order's live status updates
+  | { state: "found"; order: OrderTracking; streamToken: string }
+  | { state: "not-found"; message: string }
+  | { state: "forbidden" }
+  | { state: "error"; message: string };
+
+const LOOKUP_FAILED_MESSAGE =
+  "We couldn't check our records right now. Please try again.";
+
 const StepIndicator = ({
   step,
   isLast,
@@ -107,92 +111,153 @@ const StepIndicator = ({
 export default function OrderTrackingPage() {
   const searchParams = useSearchParams();
   const initialOrderId = searchParams.get("orderId") ?? "";
+  const paymentOutcome = searchParams.get("payment") as PaymentStatus | null;
   const [orderId, setOrderId] = useState(initialOrderId);
-  const [orders, setOrders] = useState<OrderTracking[]>(sampleOrders);
-  const [selectedOrder, setSelectedOrder] = useState<OrderTracking | null>(
+  const [phoneDigits, setPhoneDigits] = useState("");
+  const [lookup, setLookup] = useState<Lookup>({ state: "idle" });
+  // Signed-in shoppers' latest orders; null for guests
+  const [recentOrders, setRecentOrders] = useState<OrderTracking[] | null>(
     null
   );
-  const [error, setError] = useState<string | null>(null);
+  const lookupController = useRef<AbortController | null>(null);
+  const selectedOrder = lookup.state === "found" ? lookup.order : null;
 
   useEffect(() => {
-    if (typeof window === "undefined") {
+    const controller = new AbortController();
+
+    const loadRecentOrders = async () => {
+      try {
+        const response = await fetch("/api/orders", {
+          signal: controller.signal,
+        });
+
+        if (!response.ok) {
+          return;
+        }
+
+        const data = (await response.json()) as { orders: OrderTracking[] };
+        setRecentOrders(data.orders.slice(0, 3));
+      } catch (loadError) {
+        if ((loadError as Error).name !== "AbortError") {
+          console.error("Failed to load recent orders", loadError);
+        }
+      }
+    };
+
+    void loadRecentOrders();
+
+    return () => controller.abort();
+  }, []);
+
+  const handleLookup = useCallback(async (id: string, phone = "") => {
+    const trimmed = id.trim();
+    if (trimmed.length === 0) {
+      setLookup({
+        state: "error",
+        message: "Enter a valid order ID to view its status.",
+      });
       return;
     }
 
-    const storedOrders = getStoredOrders();
-    setOrders(mergeOrders(sampleOrders, storedOrders));
-  }, []);
+    // A newer lookup replaces any that is still in flight
+    lookupController.current?.abort();
+    const controller = new AbortController();
+    lookupController.current = controller;
+    setLookup({ state: "loading" });
 
-  const handleLookup = useCallback(
-    async (id: string) => {
-      const trimmed = id.trim();
-      if (trimmed.length === 0) {
-        setSelectedOrder(null);
-        setError("Enter a valid order ID to view its status.");
-        return;
+    try {
+      const params = new URLSearchParams();
+
+      if (phone.trim()) {
+        params.set("phone", phone.trim());
       }
 
-      const nextOrder = orders.find(
-        (orderItem) => orderItem.id.toLowerCase() === trimmed.toLowerCase()
+      const response = await fetch(
+        `/api/orders/${encodeURIComponent(trimmed)}?${params.toString()}`,
+        { signal: controller.signal }
       );
 
-      if (!nextOrder) {
-        try {
-          const response = await fetch(
-            `/api/orders/${encodeURIComponent(trimmed)}`
-          );
-
-          if (!response.ok) {
-            if (response.status === 404) {
-              setSelectedOrder(null);
-              setError(`We could not find any order with the ID "${trimmed}".`);
-              return;
-            }
-
-            const data = (await response.json().catch(() => null)) as
-              | { message?: string }
-              | null;
-            setSelectedOrder(null);
-            setError(
-              data?.message ??
-                "We couldn't check our records right now. Please try again."
-            );
-            return;
-          }
-
-          const data = (await response.json()) as { order: OrderTracking };
-          setError(null);
-          setOrders((previous) => mergeOrders(previous, [data.order]));
-          setSelectedOrder(data.order);
-          return;
-        } catch (lookupError) {
-          console.error("Failed to fetch order details", lookupError);
-          setSelectedOrder(null);
-          setError(
-            "We couldn't check our records right now. Please try again."
-          );
-          return;
-        }
-      } else {
-        setError(null);
-        setSelectedOrder(nextOrder);
+      if (response.status === 403) {
+        setLookup({ state: "forbidden" });
         return;
       }
-    },
-    [orders]
-  );
+
+      if (!response.ok) {
+        const data = (await response.json().catch(() => null)) as
+          | { message?: string }
+          | null;
+        const message = data?.message ?? LOOKUP_FAILED_MESSAGE;
+        setLookup(
+          response.status === 404
+            ? { state: "not-found", message }
+            : { state: "error", message }
+        );
+        return;
+      }
+
+      const data = (await response.json()) as {
+        order: OrderTracking;
+        streamToken: string;
+      };
+      setLookup({
+        state: "found",
+        order: data.order,
+        streamToken: data.streamToken,
+      });
+    } catch (lookupError) {
+      if ((lookupError as Error).name === "AbortError") {
+        return;
+      }
+
+      console.error("Failed to fetch order details", lookupError);
+      setLookup({ state: "error", message: LOOKUP_FAILED_MESSAGE });
+    }
+  }, []);
 
   useEffect(() => {
     if (initialOrderId) {
       void handleLookup(initialOrderId);
     }
+
+    return () => lookupController.current?.abort();
   }, [handleLookup, initialOrderId]);
 
-  const recentOrders = useMemo(() => orders.slice(0, 3), [orders]);
+  const watchedOrderId = selectedOrder?.id;
+  const streamToken = lookup.state === "found" ? lookup.streamToken : "";
+  const isLive = selectedOrder
+    ? ORDER_STATUS_TRANSITIONS[selectedOrder.status].length > 0
+    : false;
+
+  // Keeps the timeline in step with staff and courier updates until the
+  // order can't change any more
+  useEffect(() => {
+    if (!watchedOrderId || !streamToken || !isLive) {
+      return;
+    }
+
+    const params = new URLSearchParams({ token: streamToken });
+    const source = new EventSource(
+      `/api/orders/${encodeURIComponent(watchedOrderId)}/events?${params.toString()}`
+    );
+
+    source.addEventListener("status", (event) => {
+      const update = JSON.parse(
+        (event as MessageEvent<string>).data
+      ) as OrderStatusUpdate;
+
+      setLookup((current) =>
+        current.state === "found" && current.order.id === watchedOrderId
+          ? { ...current, order: { ...current.order, ...update } }
+          : current
+      );
+    });
+
+    return () => source.close();
+  }, [watchedOrderId, streamToken, isLive]);
 
   const onSubmit = (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
-    void handleLookup(orderId);
+    void handleLookup(orderId, phoneDigits);
   };
 
   return (
@@ -208,8 +273,9 @@ export default function OrderTrackingPage() {
             Track your order
           </h1>
           <p className="mt-3 max-w-3xl text-base text-black/60">
-            Enter the tracking ID from your confirmation email. You can also
-            review your most recent purchases below.
+            Enter the tracking ID from your confirmation email, plus the last{" "}
+            {ORDER_LOOKUP_PHONE_DIGITS} digits of the delivery phone number if
+            you aren&apos;t signed in to the account that placed it.
           </p>
           <form
             onSubmit={onSubmit}
@@ -223,15 +289,39 @@ export default function OrderTrackingPage() {
                 className="bg-transparent uppercase placeholder:text-black/40"
               />
             </InputGroup>
+            <InputGroup className="bg-[#F0F0F0] sm:max-w-[220px]">
+              <InputGroup.Input
+                value={phoneDigits}
+                onChange={(event) => setPhoneDigits(event.target.value)}
+                placeholder={`Last ${ORDER_LOOKUP_PHONE_DIGITS} digits of phone`}
+                aria-label={`Last ${ORDER_LOOKUP_PHONE_DIGITS} digits of the delivery phone number`}
+                inputMode="numeric"
+                maxLength={ORDER_LOOKUP_PHONE_DIGITS}
+                className="bg-transparent placeholder:text-black/40"
+              />
+            </InputGroup>
             <Button
               type="submit"
+              disabled={lookup.state === "loading"}
               className="h-[52px] rounded-full bg-black px-8 text-base font-semibold text-white"
             >
-              Check status
+              {lookup.state === "loading" ? "Checking..." : "Check status"}
             </Button>
           </form>
-          {error && (
-            <p className="mt-3 text-sm text-red-500">{error}</p>
+          {lookup.state === "error" && (
+            <p className="mt-3 text-sm text-red-500">{lookup.message}</p>
+          )}
+          {paymentOutcome && paymentOutcomeMessages[paymentOutcome] && (
+            <p
+              className={cn(
+                "mt-3 text-sm",
+                paymentOutcome === "paid" && "text-emerald-600",
+                paymentOutcome === "pending" && "text-black/60",
+                ["failed", "expired"].includes(paymentOutcome) && "text-red-500"
+              )}
+            >
+              {paymentOutcomeMessages[paymentOutcome]}
+            </p>
           )}
         </section>
 
@@ -270,19 +360,104 @@ export default function OrderTrackingPage() {
                     </p>
                   </div>
                   <div className="rounded-2xl bg-[#F7F7F7] p-4">
-                    <p className="text-xs font-semibold uppercase tracking-wide text-black/40">
-                      Total paid
-                    </p>
-                    <p className="mt-1 text-base font-semibold text-black">
-                      {formatCurrency(selectedOrder.totalAmount)}
-                    </p>
+                    {(selectedOrder.amountDue ?? 0) > 0 ? (
+                      <>
+                        <p className="text-xs font-semibold uppercase tracking-wide text-black/40">
+                          Balance due
+                        </p>
+                        <p className="mt-1 text-base font-semibold text-black">
+                          {formatCurrency(selectedOrder.amountDue ?? 0)}
+                        </p>
+                      </>
+                    ) : (
+                      <>
+                        <p className="text-xs font-semibold uppercase tracking-wide text-black/40">
+                          Total paid
+                        </p>
+                        <p className="mt-1 text-base font-semibold text-black">
+                          {formatCurrency(selectedOrder.totalAmount)}
+                        </p>
+                      </>
+                    )}
                   </div>
                 </div>
 
                 <div className="mt-6">
                   <h3 className="text-lg font-semibold text-black">
-                    Delivery timeline
+                    Items in this order
                   </h3>
+                  {/* Orders saved on this device before items were recorded have none. */}
+                  <OrderItemsList
+                    items={selectedOrder.items ?? []}
+                    className="mt-4"
+                  />
+                  <dl className="mt-4 space-y-2 border-t border-black/10 pt-4 text-sm">
+                    <div className="flex items-center justify-between">
+                      <dt className="text-black/60">Subtotal</dt>
+                      <dd className="font-medium text-black">
+                        {formatCurrency(
+                          selectedOrder.subtotal ?? selectedOrder.totalAmount
+                        )}
+                      </dd>
+                    </div>
+                    {(selectedOrder.discountTotal ?? 0) > 0 && (
+                      <div className="flex items-center justify-between">
+                        <dt className="text-black/60">Discount</dt>
+                        <dd className="font-medium text-red-600">
+                          -{formatCurrency(selectedOrder.discountTotal)}
+                        </dd>
+                      </div>
+                    )}
+                    {(selectedOrder.promotions ?? []).map((promotion) => (
+                      <div
+                        key={promotion.id}
+                        className="flex items-center justify-between"
+                      >
+                        <dt className="text-black/60">{promotion.name}</dt>
+                        <dd className="font-medium text-red-600">
+                          -{formatCurrency(promotion.discount)}
+                        </dd>
+                      </div>
+                    ))}
+                    {(selectedOrder.couponDiscount ?? 0) > 0 && (
+                      <div className="flex items-center justify-between">
+                        <dt className="text-black/60">
+                          Promo code ({selectedOrder.couponCode})
+                        </dt>
+                        <dd className="font-medium text-red-600">
+                          -{formatCurrency(selectedOrder.couponDiscount)}
+                        </dd>
+                      </div>
+                    )}
+                    <div className="flex items-center justify-between">
+                      <dt className="text-black/60">Delivery fee</dt>
+                      <dd className="font-medium text-black">
+                        {(selectedOrder.deliveryFee ?? 0) > 0
+                          ? formatCurrency(selectedOrder.deliveryFee)
+                          : "Free"}
+                      </dd>
+                    </div>
+                    <div className="flex items-center justify-between text-base">
+                      <dt className="font-semibold text-black">Total</dt>
+                      <dd className="font-semibold text-black">
+                        {formatCurrency(selectedOrder.totalAmount)}
+                      </dd>
+                    </div>
+                  </dl>
+                </div>
+
+                <div className="mt-6">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-lg font-semibold text-black">
+                      Delivery timeline
+                    </h3>
+                    {isLive && (
+                      <span className="flex items-center gap-2 text-xs font-medium uppercase tracking-wide text-black/40">
+                        <span className="h-2 w-2 animate-pulse rounded-full bg-emerald-500" />
+                        Live
+                      </span>
+                    )}
+                  </div>
                   <div className="mt-4 space-y-2">
                     {selectedOrder.statusHistory.map((step, index, array) => (
                       <StepIndicator
@@ -326,10 +501,37 @@ export default function OrderTrackingPage() {
                     <p className="mt-2 text-sm text-black/70">
                       Method: {selectedOrder.paymentMethod}
                     </p>
-                    {selectedOrder.estimatedDelivery && (
+                    {(selectedOrder.payments ?? []).map((payment, index) => (
+                      <p key={index} className="text-sm text-black/70">
+                        {describePayment(payment)}
+                      </p>
+                    ))}
+                    {(selectedOrder.amountPaid ?? 0) > 0 && (
+                      <p className="text-sm text-black/70">
+                        Paid so far:{" "}
+                        {formatCurrency(selectedOrder.amountPaid ?? 0)}
+                      </p>
+                    )}
+                    {(selectedOrder.amountDue ?? 0) > 0 &&
+                      selectedOrder.payments?.some(
+                        (payment) => payment.method === "cod"
+                      ) && (
+                        <p className="text-sm font-medium text-black">
+                          Balance due on delivery:{" "}
+                          {formatCurrency(selectedOrder.amountDue ?? 0)}
+                        </p>
+                      )}
+                    {selectedOrder.deliveryWindow ? (
                       <p className="text-sm text-black/70">
-                        Estimated delivery: {formatDate(selectedOrder.estimatedDelivery)}
+                        Estimated delivery:{" "}
+                        {formatDeliveryWindow(selectedOrder.deliveryWindow)}
                       </p>
+                    ) : (
+                      selectedOrder.estimatedDelivery && (
+                        <p className="text-sm text-black/70">
+                          Estimated delivery: {formatDate(selectedOrder.estimatedDelivery)}
+                        </p>
+                      )
                     )}
                     {selectedOrder.notes && (
                       <p className="mt-2 text-sm text-black/60">
@@ -339,6 +541,50 @@ export default function OrderTrackingPage() {
                   </div>
                 </div>
               </article>
+            ) : lookup.state === "loading" ? (
+              <article
+                aria-busy="true"
+                className="rounded-[24px] border border-black/10 bg-white p-6 sm:p-8"
+              >
+                <div className="h-4 w-24 animate-pulse rounded bg-black/10" />
+                <div className="mt-3 h-7 w-48 animate-pulse rounded bg-black/10" />
+                <div className="mt-6 grid grid-cols-1 gap-3 sm:grid-cols-3">
+                  {[0, 1, 2].map((index) => (
+                    <div
+                      key={index}
+                      className="h-20 animate-pulse rounded-2xl bg-[#F7F7F7]"
+                    />
+                  ))}
+                </div>
+                <p className="mt-6 text-sm text-black/60">
+                  Looking up your order...
+                </p>
+              </article>
+            ) : lookup.state === "not-found" ? (
+              <article className="rounded-[24px] border border-black/10 bg-white p-6 sm:p-8 text-center">
+                <h2 className="text-2xl font-semibold text-black">
+                  Order not found
+                </h2>
+                <p className="mt-2 text-sm text-black/60">{lookup.message}</p>
+                <p className="mt-2 text-sm text-black/60">
+                  Check the order ID and phone digits against your confirmation
+                  email, or contact support@tsrfashion.com.
+                </p>
+              </article>
+            ) : lookup.state === "forbidden" ? (
+              <article className="rounded-[24px] border border-black/10 bg-white p-6 sm:p-8 text-center">
+                <h2 className="text-2xl font-semibold text-black">
+                  Confirm it&apos;s your order
+                </h2>
+                <p className="mt-2 text-sm text-black/60">
+                  Enter the last {ORDER_LOOKUP_PHONE_DIGITS} digits of the phone
+                  number used at checkout and check again, or{" "}
+                  <Link href="/login" className="font-medium underline">
+                    sign in
+                  </Link>{" "}
+                  to the account that placed it.
+                </p>
+              </article>
             ) : (
               <article className="rounded-[24px] border border-dashed border-black/20 bg-white/70 p-6 sm:p-8 text-center">
                 <h2 className="text-2xl font-semibold text-black">
@@ -354,36 +600,53 @@ export default function OrderTrackingPage() {
 
           <aside className="space-y-4 rounded-[24px] border border-black/10 bg-[#F7F7F7] p-6 sm:p-8">
             <h2 className="text-lg font-semibold text-black">Recent orders</h2>
-            <ul className="space-y-3">
-              {recentOrders.map((orderItem) => (
-                <li
-                  key={orderItem.id}
-                  className="rounded-2xl border border-black/10 bg-white p-4"
-                >
-                  <button
-                    type="button"
-                    onClick={() => {
-                      setOrderId(orderItem.id);
-                      handleLookup(orderItem.id);
-                    }}
-                    className="flex w-full flex-col items-start text-left"
+            {recentOrders === null ? (
+              <p className="text-sm text-black/60">
+                <Link href="/login" className="font-medium underline">
+                  Sign in
+                </Link>{" "}
+                to see the orders on your account without looking each one up.
+              </p>
+            ) : recentOrders.length === 0 ? (
+              <p className="text-sm text-black/60">
+                You haven&apos;t placed any orders yet.
+              </p>
+            ) : (
+              <ul className="space-y-3">
+                {recentOrders.map((orderItem) => (
+                  <li
+                    key={orderItem.id}
+                    className="rounded-2xl border border-black/10 bg-white p-4"
                   >
-                    <span className="text-sm font-semibold text-black">
-                      {orderItem.id}
-                    </span>
-                    <span className="text-xs text-black/50">
-                      {formatDate(orderItem.placedOn)} · {formatStatus(orderItem.status)}
-                    </span>
-                    <span className="mt-1 text-sm font-medium text-black">
-                      {formatCurrency(orderItem.totalAmount)}
-                    </span>
-                  </button>
-                </li>
-              ))}
-            </ul>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setOrderId(orderItem.id);
+                        void handleLookup(orderItem.id);
+                      }}
+                      className="flex w-full flex-col items-start text-left"
+                    >
+                      <span className="text-sm font-semibold text-black">
+                        {orderItem.id}
+                      </span>
+                      <span className="text-xs text-black/50">
+                        {formatDate(orderItem.placedOn)} · {formatStatus(orderItem.status)}
+                      </span>
+                      <span className="mt-1 text-sm font-medium text-black">
+                        {formatCurrency(orderItem.totalAmount)}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
             <p className="text-xs text-black/50">
-              Only orders placed on this device appear here. For help locating a
-              different order, contact support@tsrfashion.com.
+              Your full order history is on your{" "}
+              <Link href="/profile" className="underline">
+                profile
+              </Link>
+              . For help locating a different order, contact
+              support@tsrfashion.com.
             </p>
           </aside>
         </section>
@@ -1,9 +1,16 @@
 import ProductListSec from "@/components/common/ProductListSec";
 import Brands from "@/components/homepage/Brands";
 import Header from "@/components/homepage/Header";
-import { newArrivalsData, topSellingData } from "@/lib/data/products";
+import { PRODUCT_COLLECTIONS, getProductsByCollection } from "@/lib/catalog";
+
+export const dynamic = "force-dynamic";
+
+export default async function Home() {
+  const [newArrivalsData, topSellingData] = await Promise.all([
+    getProductsByCollection(PRODUCT_COLLECTIONS.newArrivals),
+    getProductsByCollection(PRODUCT_COLLECTIONS.topSelling),
+  ]);
 
-export default function Home() {
   return (
     <>
       <Header />
@@ -0,0 +1,99 @@
+import { notFound } from "next/navigation";
+
+import { Button } from "@/components/ui/button";
+import {
+  getMockSession,
+  isMockGatewayEnabled,
+} from "@/lib/payments/mock-gateway";
+import { cn } from "@/lib/utils";
+import { integralCF } from "@/styles/fonts";
+
+export const dynamic = "force-dynamic";
+
+const outcomes = [
+  {
+    id: "success",
+    title: "Approve payment",
+    className: "bg-black text-white",
+  },
+  {
+    id: "failure",
+    title: "Decline payment",
+    className: "border border-black/15 bg-white text-black",
+  },
+  {
+    id: "timeout",
+    title: "Let the session time out",
+    className: "border border-black/15 bg-white text-black",
+  },
+] as const;
+
+// Stands in for the gateway's hosted checkout while no live gateway is set up
+export default function MockPaymentPage({
+  params,
+}: {
+  params: { reference: string };
+}) {
+  if (!isMockGatewayEnabled()) {
+    notFound();
+  }
+
+  const session = getMockSession(params.reference);
+
+  if (!session) {
+    notFound();
+  }
+
+  return (
+    <main className="pb-20">
+      <div className="max-w-frame mx-auto px-4 xl:px-0">
+        <section className="mx-auto max-w-xl py-10 sm:py-14">
+          <p className="text-sm font-medium uppercase tracking-wide text-black/40">
+            Test gateway
+          </p>
+          <h1
+            className={cn(
+              integralCF.className,
+              "mt-2 text-3xl sm:text-[40px] font-bold uppercase text-black"
+            )}
+          >
+            {session.gateway} checkout
+          </h1>
+          <p className="mt-3 text-base text-black/60">
+            No money is collected here. Pick how the payment for order{" "}
+            {session.orderNumber} should end.
+          </p>
+          <div className="mt-6 rounded-[24px] border border-black/10 bg-[#F7F7F7] p-6">
+            <p className="text-sm text-black/60">Amount due</p>
+            <p className="text-2xl font-semibold text-black">
+              ${session.amount}
+            </p>
+          </div>
+          <div className="mt-6 flex flex-col space-y-3">
+            {outcomes.map((outcome) => (
+              <form
+                key={outcome.id}
+                method="post"
+                action={`/api/payments/mock/${encodeURIComponent(
+                  session.reference
+                )}`}
+              >
+                <input type="hidden" name="outcome" value={outcome.id} />
+                <Button
+                  type="submit"
+                  className={cn(
+                    "h-[52px] w-full rounded-full text-base font-semibold",
+                    outcome.className
+                  )}
+                  disabled={Boolean(session.outcome)}
+                >
+                  {outcome.title}
+                </Button>
+              </form>
+            ))}
+          </div>
+        </section>
+      </div>
+    </main>
+  );
+}
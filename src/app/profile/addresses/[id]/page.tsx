@@ -13,47 +13,46 @@ import InputGroup from "@/components/ui/input-group";
 import { Button } from "@/components/ui/button";
 import { toast } from "react-toastify";
 import { AUTH_SESSION_KEY } from "@/lib/constants";
+import { migrateStoredProfile } from "@/lib/profile-storage";
+import type { SavedAddress } from "@/lib/serializers/address";
+import LocationPicker from "@/components/common/LocationPicker";
 import {
-  StoredProfile,
-  getStoredProfile,
-  setStoredProfile,
-} from "@/lib/profile-storage";
-
-const updateSchema = z.object({
-  fullName: z
-    .string({ required_error: "Full name is required" })
-    .min(1, "Full name is required"),
-  email: z
-    .string({ required_error: "Email is required" })
-    .min(1, "Email is required")
-    .email("Enter a valid email address"),
-  phone: z
-    .string({ required_error: "Phone number is required" })
-    .min(6, "Enter a valid phone number")
-    .max(20, "Enter a valid phone number"),
-  city: z
-    .string({ required_error: "City is required" })
-    .min(1, "City is required"),
-  postalCode: z
-    .string({ required_error: "Postal code is required" })
-    .min(4, "Postal code must be at least 4 digits")
-    .max(6, "Postal code must be at most 6 digits")
-    .regex(/^[0-9]+$/, "Postal code must only contain numbers"),
-  addressLine1: z
-    .string({ required_error: "Street address is required" })
-    .min(1, "Street address is required"),
-  apartment: z.string().optional(),
-  roadNo: z.string().optional(),
-  additionalInfo: z.string().optional(),
-});
-
-const formatTimestamp = (value: string) =>
-  new Intl.DateTimeFormat("en-GB", {
-    dateStyle: "medium",
-    timeStyle: "short",
-  }).format(new Date(value));
-
-type UpdateFormValues = z.infer<typeof updateSchema>;
+  LocationSelection,
+  findThana,
+  refineLocation,
+} from "@/lib/bd-locations";
+
+const addressFormSchema = z
+  .object({
+    label: z
+      .string({ required_error: "Label is required" })
+      .trim()
+      .min(1, "Give the address a label, like Home or Office")
+      .max(40, "Keep the label under 40 characters"),
+    fullName: z
+      .string({ required_error: "Recipient name is required" })
+      .min(1, "Recipient name is required"),
+    phone: z
+      .string({ required_error: "Phone number is required" })
+      .min(6, "Enter a valid phone number")
+      .max(20, "Enter a valid phone number"),
+    divisionId: z.string().min(1, "Choose a division"),
+    districtId: z.string().min(1, "Choose a district"),
+    thanaId: z.string().min(1, "Choose a thana / upazila"),
+    postalCode: z
+      .string({ required_error: "Postal code is required" })
+      .regex(/^[0-9]{4}$/, "Postal code must be 4 digits"),
+    addressLine1: z
+      .string({ required_error: "Street address is required" })
+      .min(1, "Street address is required"),
+    apartment: z.string().optional(),
+    roadNo: z.string().optional(),
+    additionalInfo: z.string().optional(),
+    isDefault: z.boolean(),
+  })
+  .superRefine(refineLocation);
+
+type AddressFormValues = z.infer<typeof addressFormSchema>;
 
 type CurrentUser = {
   id: string;
@@ -62,37 +61,60 @@ type CurrentUser = {
   phone?: string | null;
 };
 
-type AuthStatus = "loading" | "guest" | "authenticated";
+type PageStatus = "loading" | "guest" | "missing" | "ready";
 
-export default function ProfileUpdatePage() {
+const NEW_ADDRESS_ID = "new";
+
+export default function AddressPage({ params }: { params: { id: string } }) {
   const router = useRouter();
-  const [status, setStatus] = useState<AuthStatus>("loading");
-  const [user, setUser] = useState<CurrentUser | null>(null);
-  const [storedProfile, setStoredProfileState] = useState<StoredProfile | null>(
-    null
-  );
+  const isNew = params.id === NEW_ADDRESS_ID;
+  const [status, setStatus] = useState<PageStatus>("loading");
+  const [address, setAddress] = useState<SavedAddress | null>(null);
   const [isMounted, setIsMounted] = useState(false);
 
   const {
     register,
     handleSubmit,
     reset,
-    formState: { errors, isSubmitting },
-  } = useForm<UpdateFormValues>({
-    resolver: zodResolver(updateSchema),
+    watch,
+    setValue,
+    formState: { errors, isSubmitting, isSubmitted },
+  } = useForm<AddressFormValues>({
+    resolver: zodResolver(addressFormSchema),
     defaultValues: {
+      label: "",
       fullName: "",
-      email: "",
       phone: "",
-      city: "",
+      divisionId: "",
+      districtId: "",
+      thanaId: "",
       postalCode: "",
       addressLine1: "",
       apartment: "",
       roadNo: "",
       additionalInfo: "",
+      isDefault: false,
     },
   });
 
+  const [divisionId, districtId, thanaId] = watch([
+    "divisionId",
+    "districtId",
+    "thanaId",
+  ]);
+
+  const handleLocationChange = (next: LocationSelection) => {
+    const options = { shouldValidate: isSubmitted };
+    setValue("divisionId", next.divisionId, options);
+    setValue("districtId", next.districtId, options);
+    setValue("thanaId", next.thanaId, options);
+
+    const postalCodes = findThana(next)?.postalCodes ?? [];
+    if (postalCodes.length === 1) {
+      setValue("postalCode", postalCodes[0], options);
+    }
+  };
+
   useEffect(() => {
     setIsMounted(true);
   }, []);
@@ -104,7 +126,7 @@ export default function ProfileUpdatePage() {
 
     const controller = new AbortController();
 
-    const fetchCurrentUser = async () => {
+    const fetchAddress = async () => {
       try {
         const response = await fetch("/api/auth/me", {
           method: "GET",
@@ -114,16 +136,10 @@ export default function ProfileUpdatePage() {
 
         if (!response.ok) {
           setStatus("guest");
-          setUser(null);
           return;
         }
 
-        const data = (await response.json()) as {
-          user: CurrentUser & { updatedAt?: string };
-        };
-
-        setStatus("authenticated");
-        setUser(data.user);
+        const data = (await response.json()) as { user: CurrentUser };
 
         if (typeof window !== "undefined") {
           window.localStorage.setItem(
@@ -137,101 +153,105 @@ export default function ProfileUpdatePage() {
           );
         }
 
-        const stored = getStoredProfile(data.user.id);
-        setStoredProfileState(stored);
+        await migrateStoredProfile(data.user.id);
+
+        const addressesResponse = await fetch("/api/auth/profile/addresses", {
+          method: "GET",
+          credentials: "include",
+          signal: controller.signal,
+        });
+        const { addresses } = (await addressesResponse.json()) as {
+          addresses: SavedAddress[];
+        };
+
+        if (isNew) {
+          reset({
+            label: addresses.length === 0 ? "Home" : "",
+            fullName: data.user.fullName,
+            phone: data.user.phone ?? "",
+            divisionId: "",
+            districtId: "",
+            thanaId: "",
+            postalCode: "",
+            addressLine1: "",
+            apartment: "",
+            roadNo: "",
+            additionalInfo: "",
+            isDefault: addresses.length === 0,
+          });
+          setStatus("ready");
+          return;
+        }
 
+        const existing = addresses.find((item) => item.id === params.id);
+
+        if (!existing) {
+          setStatus("missing");
+          return;
+        }
+
+        setAddress(existing);
         reset({
-          fullName: data.user.fullName,
-          email: data.user.email,
-          phone: data.user.phone ?? "",
-          city: stored?.data.city ?? "",
-          postalCode: stored?.data.postalCode ?? "",
-          addressLine1: stored?.data.addressLine1 ?? "",
-          apartment: stored?.data.apartment ?? "",
-          roadNo: stored?.data.roadNo ?? "",
-          additionalInfo: stored?.data.additionalInfo ?? "",
+          label: existing.label,
+          fullName: existing.fullName,
+          phone: existing.phone,
+          divisionId: existing.divisionId ?? "",
+          districtId: existing.districtId ?? "",
+          thanaId: existing.thanaId ?? "",
+          postalCode: existing.postalCode,
+          addressLine1: existing.addressLine1,
+          apartment: existing.apartment ?? "",
+          roadNo: existing.roadNo ?? "",
+          additionalInfo: existing.additionalInfo ?? "",
+          isDefault: existing.isDefault,
         });
+        setStatus("ready");
       } catch (error) {
         if ((error as Error).name === "AbortError") {
           return;
         }
-        console.error("Failed to fetch current user", error);
-        setStatus("guest");
-        setUser(null);
+        console.error("Failed to load address", error);
+        setStatus("missing");
       }
     };
 
-    fetchCurrentUser();
+    fetchAddress();
 
     return () => {
       controller.abort();
     };
-  }, [isMounted, reset]);
-
-  const onSubmit = async (values: UpdateFormValues) => {
-    if (!user) {
-      return;
-    }
+  }, [isMounted, isNew, params.id, reset]);
 
+  const onSubmit = async (values: AddressFormValues) => {
     try {
-      const response = await fetch("/api/auth/profile", {
-        method: "PATCH",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        credentials: "include",
-        body: JSON.stringify({
-          fullName: values.fullName,
-          phone: values.phone,
-        }),
-      });
+      const response = await fetch(
+        isNew
+          ? "/api/auth/profile/addresses"
+          : `/api/auth/profile/addresses/${params.id}`,
+        {
+          method: isNew ? "POST" : "PUT",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          credentials: "include",
+          body: JSON.stringify(values),
+        }
+      );
 
       const data = (await response.json().catch(() => null)) as
-        | { message?: string; user?: CurrentUser & { updatedAt?: string } }
+        | { message?: string; address?: SavedAddress }
         | null;
 
       if (!response.ok) {
-        toast.error(data?.message ?? "Unable to update your profile.");
+        toast.error(data?.message ?? "Unable to save your address.");
         return;
       }
 
-      const timestamp = new Date().toISOString();
-
-      setStoredProfile(user.id, {
-        data: {
-          fullName: values.fullName,
-          email: values.email,
-          phone: values.phone,
-          city: values.city,
-          postalCode: values.postalCode,
-          addressLine1: values.addressLine1,
-          apartment: values.apartment,
-          roadNo: values.roadNo,
-          additionalInfo: values.additionalInfo,
-        },
-        updatedAt: timestamp,
-      });
-
-      setStoredProfileState({
-        data: {
-          fullName: values.fullName,
-          email: values.email,
-          phone: values.phone,
-          city: values.city,
-          postalCode: values.postalCode,
-          addressLine1: values.addressLine1,
-          apartment: values.apartment,
-          roadNo: values.roadNo,
-          additionalInfo: values.additionalInfo,
-        },
-        updatedAt: timestamp,
-      });
-
-      toast.success("Profile updated successfully.");
+      toast.success(isNew ? "Address added." : "Address updated.");
       router.push("/profile");
     } catch (error) {
       console.error(error);
-      toast.error("Unable to update your profile. Please try again.");
+      toast.error("Unable to save your address. Please try again.");
     }
   };
 
@@ -239,7 +259,7 @@ export default function ProfileUpdatePage() {
     return null;
   }
 
-  if (status === "guest") {
+  if (status === "guest" || status === "missing") {
     return (
       <main className="pb-20">
         <div className="max-w-frame mx-auto px-4 xl:px-0">
@@ -250,22 +270,32 @@ export default function ProfileUpdatePage() {
                 "text-3xl sm:text-[40px] font-bold uppercase text-black"
               )}
             >
-              Log in required
+              {status === "guest" ? "Log in required" : "Address not found"}
             </h1>
             <p className="mt-3 text-base text-black/60">
-              Sign in to update your saved details and delivery preferences.
+              {status === "guest"
+                ? "Sign in to manage your saved delivery addresses."
+                : "This address may have been removed. Head back to your profile to see the ones you have saved."}
             </p>
             <div className="mt-6 flex flex-col gap-3 sm:flex-row sm:justify-center">
-              <Button asChild className="rounded-full px-6 py-3">
-                <Link href="/login">Go to login</Link>
-              </Button>
-              <Button
-                variant="outline"
-                asChild
-                className="rounded-full border-black/20 px-6 py-3 text-black"
-              >
-                <Link href="/signup">Create an account</Link>
-              </Button>
+              {status === "guest" ? (
+                <>
+                  <Button asChild className="rounded-full px-6 py-3">
+                    <Link href="/login">Go to login</Link>
+                  </Button>
+                  <Button
+                    variant="outline"
+                    asChild
+                    className="rounded-full border-black/20 px-6 py-3 text-black"
+                  >
+                    <Link href="/signup">Create an account</Link>
+                  </Button>
+                </>
+              ) : (
+                <Button asChild className="rounded-full px-6 py-3">
+                  <Link href="/profile">Back to profile</Link>
+                </Button>
+              )}
             </div>
           </section>
         </div>
@@ -283,20 +313,15 @@ export default function ProfileUpdatePage() {
               "text-3xl sm:text-[40px] font-bold uppercase text-black"
             )}
           >
-            Update your details
+            {isNew ? "Add an address" : `Edit ${address?.label ?? "address"}`}
           </h1>
           <p className="mt-3 max-w-2xl text-base text-black/60">
-            Refresh your personal and delivery information to ensure smooth
-            checkouts and on-time deliveries.
+            Saved addresses are available at checkout on any device you sign in
+            with.
           </p>
-          {storedProfile?.updatedAt && (
-            <p className="mt-2 text-sm text-black/50">
-              Last updated {formatTimestamp(storedProfile.updatedAt)}
-            </p>
-          )}
         </header>
 
-        {status === "authenticated" && user ? (
+        {status === "ready" ? (
           <form
             onSubmit={handleSubmit(onSubmit)}
             className="space-y-6 rounded-[24px] border border-black/10 bg-white p-6 sm:p-8"
@@ -304,37 +329,35 @@ export default function ProfileUpdatePage() {
             <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
               <div>
                 <label className="mb-2 block text-sm font-medium text-black">
-                  Full name
+                  Label
                 </label>
                 <InputGroup className="bg-[#F0F0F0]">
                   <InputGroup.Input
-                    placeholder="e.g. Rahim Uddin"
+                    placeholder="e.g. Home, Office"
                     className="bg-transparent"
-                    {...register("fullName")}
+                    {...register("label")}
                   />
                 </InputGroup>
-                {errors.fullName && (
+                {errors.label && (
                   <p className="mt-2 text-sm text-red-500">
-                    {errors.fullName.message}
+                    {errors.label.message}
                   </p>
                 )}
               </div>
               <div>
                 <label className="mb-2 block text-sm font-medium text-black">
-                  Email address
+                  Recipient name
                 </label>
                 <InputGroup className="bg-[#F0F0F0]">
                   <InputGroup.Input
-                    type="email"
-                    placeholder="name@example.com"
+                    placeholder="e.g. Rahim Uddin"
                     className="bg-transparent"
-                    disabled
-                    {...register("email")}
+                    {...register("fullName")}
                   />
                 </InputGroup>
-                {errors.email && (
+                {errors.fullName && (
                   <p className="mt-2 text-sm text-red-500">
-                    {errors.email.message}
+                    {errors.fullName.message}
                   </p>
                 )}
               </div>
@@ -359,26 +382,6 @@ export default function ProfileUpdatePage() {
                   </p>
                 )}
               </div>
-              <div>
-                <label className="mb-2 block text-sm font-medium text-black">
-                  City / District
-                </label>
-                <InputGroup className="bg-[#F0F0F0]">
-                  <InputGroup.Input
-                    placeholder="e.g. Dhaka"
-                    className="bg-transparent"
-                    {...register("city")}
-                  />
-                </InputGroup>
-                {errors.city && (
-                  <p className="mt-2 text-sm text-red-500">
-                    {errors.city.message}
-                  </p>
-                )}
-              </div>
-            </div>
-
-            <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
               <div>
                 <label className="mb-2 block text-sm font-medium text-black">
                   Postal code
@@ -398,6 +401,20 @@ export default function ProfileUpdatePage() {
                   </p>
                 )}
               </div>
+            </div>
+
+            <LocationPicker
+              idPrefix="address-location"
+              value={{ divisionId, districtId, thanaId }}
+              onChange={handleLocationChange}
+              errors={{
+                divisionId: errors.divisionId?.message,
+                districtId: errors.districtId?.message,
+                thanaId: errors.thanaId?.message,
+              }}
+            />
+
+            <div className="grid grid-cols-1 gap-6">
               <div>
                 <label className="mb-2 block text-sm font-medium text-black">
                   Street address
@@ -458,6 +475,17 @@ export default function ProfileUpdatePage() {
               </div>
             </div>
 
+            {!address?.isDefault && (
+              <label className="flex items-center gap-3 text-sm text-black">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 accent-black"
+                  {...register("isDefault")}
+                />
+                Use as my default delivery address
+              </label>
+            )}
+
             <div className="flex items-center justify-end gap-3">
               <Button
                 type="button"
@@ -472,7 +500,7 @@ export default function ProfileUpdatePage() {
                 disabled={isSubmitting}
                 className="h-[52px] rounded-full bg-black px-6 text-base font-semibold text-white disabled:cursor-not-allowed disabled:bg-black/50"
               >
-                Save changes
+                {isNew ? "Save address" : "Save changes"}
               </Button>
             </div>
           </form>
@@ -1,20 +1,24 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import Link from "next/link";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { integralCF } from "@/styles/fonts";
-import { cn } from "@/lib/utils";
+import { cn, formatCurrency } from "@/lib/utils";
 import InputGroup from "@/components/ui/input-group";
 import { Button } from "@/components/ui/button";
 import { toast } from "react-toastify";
 import { AUTH_SESSION_KEY } from "@/lib/constants";
-import {
-  StoredProfile,
-  getStoredProfile,
-} from "@/lib/profile-storage";
+import { useAppDispatch } from "@/lib/hooks/redux";
+import { cartSignedOut } from "@/lib/features/carts/cartsSlice";
+import { mergeGuestCart } from "@/lib/features/carts/cartSync";
+import type { OrderStatus, OrderTracking } from "@/lib/data/orders";
+import { ORDER_STATUSES, formatStatus } from "@/lib/order-status";
+import OrderItemsList from "@/components/common/OrderItemsList";
+import { migrateStoredProfile } from "@/lib/profile-storage";
+import type { SavedAddress } from "@/lib/serializers/address";
 
 const loginSchema = z.object({
   email: z
@@ -225,21 +229,190 @@ const ProfileLoginForm = ({
   );
 };
 
-const ProfileSummary = ({
-  user,
-  profile,
+// Defaults first, then in the order they were added
+const sortAddresses = (addresses: SavedAddress[]) =>
+  [...addresses].sort((a, b) => Number(b.isDefault) - Number(a.isDefault));
+
+const SavedAddresses = ({
+  addresses,
+  onChange,
 }: {
-  user: CurrentUser;
-  profile: StoredProfile | null;
+  addresses: SavedAddress[] | null;
+  onChange: (addresses: SavedAddress[]) => void;
 }) => {
-  const lastUpdated = useMemo(() => {
-    if (!profile?.updatedAt) {
-      return null;
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const handleMakeDefault = async (address: SavedAddress) => {
+    setPendingId(address.id);
+
+    try {
+      const response = await fetch(
+        `/api/auth/profile/addresses/${address.id}`,
+        {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          credentials: "include",
+          body: JSON.stringify({ isDefault: true }),
+        }
+      );
+
+      if (!response.ok) {
+        const data = (await response.json().catch(() => null)) as
+          | { message?: string }
+          | null;
+        toast.error(
+          data?.message ?? "We couldn't update your address. Please try again."
+        );
+        return;
+      }
+
+      onChange(
+        sortAddresses(
+          (addresses ?? []).map((item) => ({
+            ...item,
+            isDefault: item.id === address.id,
+          }))
+        )
+      );
+      toast.success(`${address.label} is now your default address.`);
+    } catch (error) {
+      console.error("Failed to change default address", error);
+      toast.error("We couldn't update your address. Please try again.");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleDelete = async (address: SavedAddress) => {
+    setPendingId(address.id);
+
+    try {
+      const response = await fetch(
+        `/api/auth/profile/addresses/${address.id}`,
+        {
+          method: "DELETE",
+          credentials: "include",
+        }
+      );
+      const data = (await response.json().catch(() => null)) as
+        | { message?: string; addresses?: SavedAddress[] }
+        | null;
+
+      if (!response.ok || !data?.addresses) {
+        toast.error(
+          data?.message ?? "We couldn't remove your address. Please try again."
+        );
+        return;
+      }
+
+      onChange(data.addresses);
+      toast.success(`${address.label} was removed.`);
+    } catch (error) {
+      console.error("Failed to delete address", error);
+      toast.error("We couldn't remove your address. Please try again.");
+    } finally {
+      setPendingId(null);
     }
+  };
 
-    return formatTimestamp(profile.updatedAt);
-  }, [profile?.updatedAt]);
+  return (
+    <div className="rounded-2xl border border-black/10 bg-[#F7F7F7] p-5">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-black">Saved addresses</h3>
+          <p className="mt-1 text-sm text-black/60">
+            Your default address is filled in for you at checkout.
+          </p>
+        </div>
+        <Button asChild className="hidden rounded-full px-5 lg:inline-flex">
+          <Link href="/profile/addresses/new">Add address</Link>
+        </Button>
+      </div>
 
+      {addresses === null ? (
+        <p className="mt-5 text-sm text-black/60">Loading your addresses…</p>
+      ) : addresses.length === 0 ? (
+        <p className="mt-5 text-sm text-black/60">
+          You haven’t saved any addresses yet. Click “Add address” to save one
+          for quicker checkout.
+        </p>
+      ) : (
+        <ul className="mt-5 space-y-3">
+          {addresses.map((address) => (
+            <li
+              key={address.id}
+              className="rounded-2xl border border-black/10 bg-white p-4 text-sm text-black/70"
+            >
+              <div className="flex items-center gap-2">
+                <p className="font-semibold text-black">{address.label}</p>
+                {address.isDefault && (
+                  <span className="rounded-full bg-black px-2.5 py-0.5 text-xs font-medium text-white">
+                    Default
+                  </span>
+                )}
+              </div>
+              <p className="mt-2 font-medium text-black">{address.fullName}</p>
+              <p>
+                {address.addressLine1}
+                {address.apartment ? `, ${address.apartment}` : ""}
+              </p>
+              <p>
+                {address.roadNo && `${address.roadNo}, `}
+                {address.city} {address.postalCode}
+              </p>
+              <p>{address.phone}</p>
+              {address.additionalInfo && (
+                <p className="text-black/60">Note: {address.additionalInfo}</p>
+              )}
+              <div className="mt-3 flex flex-wrap gap-4 text-sm font-medium text-black">
+                <Link
+                  href={`/profile/addresses/${address.id}`}
+                  className="underline-offset-4 hover:underline"
+                >
+                  Edit
+                </Link>
+                {!address.isDefault && (
+                  <button
+                    type="button"
+                    disabled={pendingId === address.id}
+                    onClick={() => handleMakeDefault(address)}
+                    className="underline-offset-4 hover:underline disabled:text-black/40"
+                  >
+                    Make default
+                  </button>
+                )}
+                <button
+                  type="button"
+                  disabled={pendingId === address.id}
+                  onClick={() => handleDelete(address)}
+                  className="text-red-500 underline-offset-4 hover:underline disabled:text-black/40"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Button asChild className="mt-5 w-full rounded-full px-5 lg:hidden">
+        <Link href="/profile/addresses/new">Add address</Link>
+      </Button>
+    </div>
+  );
+};
+
+const ProfileSummary = ({
+  user,
+  addresses,
+  onAddressesChange,
+}: {
+  user: CurrentUser;
+  addresses: SavedAddress[] | null;
+  onAddressesChange: (addresses: SavedAddress[]) => void;
+}) => {
   return (
     <section className="grid gap-6 lg:grid-cols-[minmax(0,3fr)_minmax(0,2fr)]">
       <div className="space-y-6 rounded-[24px] border border-black/10 bg-white p-6 sm:p-8">
@@ -277,62 +450,7 @@ const ProfileSummary = ({
           </div>
         </div>
 
-        <div className="rounded-2xl border border-black/10 bg-[#F7F7F7] p-5">
-          <div className="flex items-center justify-between">
-            <div>
-              <h3 className="text-lg font-semibold text-black">
-                Delivery preferences
-              </h3>
-              <p className="mt-1 text-sm text-black/60">
-                Update your default delivery information for quicker checkout.
-              </p>
-            </div>
-            <Button asChild className="hidden rounded-full px-5 lg:inline-flex">
-              <Link href="/profile/update">Update details</Link>
-            </Button>
-          </div>
-
-          {profile?.data ? (
-            <div className="mt-5 space-y-3 text-sm text-black/70">
-              <p className="font-medium text-black">
-                {profile.data.fullName}
-              </p>
-              <p>
-                {profile.data.addressLine1}
-                {profile.data.apartment ? `, ${profile.data.apartment}` : ""}
-              </p>
-              <p>
-                {profile.data.roadNo && `${profile.data.roadNo}, `}
-                {profile.data.city} {profile.data.postalCode}
-              </p>
-              <p>
-                {profile.data.phone} · {profile.data.email}
-              </p>
-              {profile.data.additionalInfo && (
-                <p className="text-black/60">
-                  Note: {profile.data.additionalInfo}
-                </p>
-              )}
-              {lastUpdated && (
-                <p className="text-xs uppercase tracking-wide text-black/40">
-                  Last updated: {lastUpdated}
-                </p>
-              )}
-            </div>
-          ) : (
-            <p className="mt-5 text-sm text-black/60">
-              You haven’t saved any delivery details yet. Click “Update
-              details” to add your preferred address.
-            </p>
-          )}
-
-          <Button
-            asChild
-            className="mt-5 w-full rounded-full px-5 lg:hidden"
-          >
-            <Link href="/profile/update">Update details</Link>
-          </Button>
-        </div>
+        <SavedAddresses addresses={addresses} onChange={onAddressesChange} />
       </div>
 
       <aside className="space-y-5 rounded-[24px] border border-black/10 bg-[#F7F7F7] p-6 sm:p-8">
@@ -341,8 +459,8 @@ const ProfileSummary = ({
             Why keep your profile updated?
           </h2>
           <p className="mt-2 text-sm text-black/60">
-            We store your details securely on your device so future orders are
-            quicker. You can update these preferences anytime.
+            Your details are saved with your account, so checkout is quicker on
+            any device. You can update these preferences anytime.
           </p>
         </div>
         <ul className="list-disc space-y-2 pl-5 text-sm text-black/60">
@@ -370,6 +488,156 @@ const ProfileSummary = ({
   );
 };
 
+type OrderHistoryPage = {
+  orders: OrderTracking[];
+  page: number;
+  pageCount: number;
+  total: number;
+};
+
+const OrderHistory = () => {
+  const [statusFilter, setStatusFilter] = useState<OrderStatus | "">("");
+  const [page, setPage] = useState(1);
+  const [history, setHistory] = useState<OrderHistoryPage | null>(null);
+  const [hasError, setHasError] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const params = new URLSearchParams({ page: String(page) });
+
+    if (statusFilter) {
+      params.set("status", statusFilter);
+    }
+
+    const fetchOrders = async () => {
+      try {
+        const response = await fetch(`/api/orders?${params.toString()}`, {
+          method: "GET",
+          credentials: "include",
+          signal: controller.signal,
+        });
+
+        if (!response.ok) {
+          setHasError(true);
+          return;
+        }
+
+        setHistory((await response.json()) as OrderHistoryPage);
+        setHasError(false);
+      } catch (error) {
+        if ((error as Error).name === "AbortError") {
+          return;
+        }
+        console.error("Failed to load orders", error);
+        setHasError(true);
+      }
+    };
+
+    fetchOrders();
+
+    return () => {
+      controller.abort();
+    };
+  }, [page, statusFilter]);
+
+  return (
+    <section className="mt-8 rounded-[24px] border border-black/10 bg-white p-6 sm:p-8">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-black">Orders</h2>
+          <p className="mt-1 text-sm text-black/60">
+            Everything you&apos;ve ordered while signed in, newest first.
+          </p>
+        </div>
+        <InputGroup className="bg-[#F0F0F0] pr-4 sm:w-56">
+          <select
+            value={statusFilter}
+            onChange={(event) => {
+              setStatusFilter(event.target.value as OrderStatus | "");
+              setPage(1);
+            }}
+            aria-label="Filter orders by status"
+            className="w-full bg-transparent py-3 text-sm outline-none"
+          >
+            <option value="">All orders</option>
+            {ORDER_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {formatStatus(status)}
+              </option>
+            ))}
+          </select>
+        </InputGroup>
+      </div>
+      {hasError ? (
+        <p className="mt-5 text-sm text-red-500" role="alert">
+          We couldn&apos;t load your orders. Please refresh the page.
+        </p>
+      ) : !history ? (
+        <p className="mt-5 text-sm text-black/60">Loading your orders…</p>
+      ) : history.orders.length === 0 ? (
+        <p className="mt-5 text-sm text-black/60">
+          {statusFilter
+            ? `You have no ${formatStatus(statusFilter).toLowerCase()} orders.`
+            : "You haven't placed any orders yet."}
+        </p>
+      ) : (
+        <ul className="mt-5 space-y-5">
+          {history.orders.map((order) => (
+            <li
+              key={order.id}
+              className="rounded-2xl border border-black/10 p-5"
+            >
+              <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+                <div>
+                  <p className="font-semibold text-black">
+                    Order {order.id} · {formatStatus(order.status)}
+                  </p>
+                  <p className="mt-1 text-sm text-black/60">
+                    Placed {formatTimestamp(order.placedOn)} ·{" "}
+                    {order.itemsCount}{" "}
+                    {order.itemsCount === 1 ? "item" : "items"} ·{" "}
+                    {formatCurrency(order.totalAmount)}
+                  </p>
+                </div>
+                <Link
+                  href={`/order-tracking?orderId=${encodeURIComponent(order.id)}`}
+                  className="inline-flex h-[44px] items-center justify-center rounded-full border border-black/20 px-5 text-sm font-medium text-black transition hover:border-black"
+                >
+                  Track this order
+                </Link>
+              </div>
+              <OrderItemsList items={order.items} className="mt-5" />
+            </li>
+          ))}
+        </ul>
+      )}
+      {history && history.pageCount > 1 && (
+        <div className="mt-6 flex items-center justify-between text-sm">
+          <button
+            type="button"
+            onClick={() => setPage((current) => current - 1)}
+            disabled={history.page <= 1}
+            className="font-medium underline disabled:opacity-40"
+          >
+            Newer
+          </button>
+          <span className="text-black/60">
+            Page {history.page} of {history.pageCount}
+          </span>
+          <button
+            type="button"
+            onClick={() => setPage((current) => current + 1)}
+            disabled={history.page >= history.pageCount}
+            className="font-medium underline disabled:opacity-40"
+          >
+            Older
+          </button>
+        </div>
+      )}
+    </section>
+  );
+};
+
 const AccountUpdateForm = ({
   user,
   onUserUpdate,
@@ -643,9 +911,10 @@ const PasswordUpdateForm = () => {
 };
 
 export default function ProfilePage() {
+  const dispatch = useAppDispatch();
   const [status, setStatus] = useState<AuthStatus>("loading");
   const [user, setUser] = useState<CurrentUser | null>(null);
-  const [profile, setProfile] = useState<StoredProfile | null>(null);
+  const [addresses, setAddresses] = useState<SavedAddress[] | null>(null);
   const [isMounted, setIsMounted] = useState(false);
   const [isLoggingOut, setIsLoggingOut] = useState(false);
 
@@ -673,6 +942,28 @@ export default function ProfilePage() {
     [persistSession]
   );
 
+  const loadAddresses = useCallback(async (userId: string) => {
+    await migrateStoredProfile(userId);
+
+    try {
+      const response = await fetch("/api/auth/profile/addresses", {
+        method: "GET",
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        setAddresses([]);
+        return;
+      }
+
+      const data = (await response.json()) as { addresses: SavedAddress[] };
+      setAddresses(data.addresses);
+    } catch (error) {
+      console.error("Failed to load addresses", error);
+      setAddresses([]);
+    }
+  }, []);
+
   useEffect(() => {
     setIsMounted(true);
   }, []);
@@ -703,8 +994,7 @@ export default function ProfilePage() {
         setStatus("authenticated");
         persistSession(data.user);
 
-        const stored = getStoredProfile(data.user.id);
-        setProfile(stored);
+        await loadAddresses(data.user.id);
       } catch (error) {
         if ((error as Error).name === "AbortError") {
           return;
@@ -720,13 +1010,14 @@ export default function ProfilePage() {
     return () => {
       controller.abort();
     };
-  }, [isMounted, persistSession]);
+  }, [isMounted, loadAddresses, persistSession]);
 
   const handleLogin = (nextUser: CurrentUser) => {
     setUser(nextUser);
     setStatus("authenticated");
     persistSession(nextUser);
-    setProfile(getStoredProfile(nextUser.id));
+    loadAddresses(nextUser.id);
+    dispatch(mergeGuestCart(nextUser.id));
   };
 
   const handleLogout = useCallback(async () => {
@@ -764,11 +1055,12 @@ export default function ProfilePage() {
     }
 
     setUser(null);
-    setProfile(null);
+    setAddresses(null);
     setStatus("guest");
+    dispatch(cartSignedOut());
     toast.success("You have been logged out.");
     setIsLoggingOut(false);
-  }, [isLoggingOut]);
+  }, [dispatch, isLoggingOut]);
 
   if (!isMounted) {
     return null;
@@ -787,7 +1079,7 @@ export default function ProfilePage() {
             Your profile
           </h1>
           <p className="mt-3 max-w-2xl text-base text-black/60">
-            Manage your personal details and default delivery address. Keeping
+            Manage your personal details and saved delivery addresses. Keeping
             this information current helps us speed up future checkouts.
           </p>
           <div className="mt-4 flex flex-col gap-3 sm:flex-row sm:items-center">
@@ -803,17 +1095,17 @@ export default function ProfilePage() {
             >
               View cart
             </Link>
-            {profile?.updatedAt && (
-              <span className="text-sm text-black/50">
-                Last updated: {formatTimestamp(profile.updatedAt)}
-              </span>
-            )}
           </div>
         </header>
 
         {status === "authenticated" && user ? (
           <>
-            <ProfileSummary user={user} profile={profile} />
+            <ProfileSummary
+              user={user}
+              addresses={addresses}
+              onAddressesChange={setAddresses}
+            />
+            <OrderHistory />
             <div className="mt-8 grid gap-6 lg:grid-cols-[minmax(0,3fr)_minmax(0,2fr)]">
               <AccountUpdateForm
                 user={user}
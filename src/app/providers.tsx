@@ -6,6 +6,7 @@ import { makeStore } from "../lib/store";
 import { PersistGate } from "redux-persist/integration/react";
 import SpinnerbLoader from "@/components/ui/SpinnerbLoader";
 import Toaster from "@/components/ui/toaster";
+import CartSync from "@/components/common/CartSync";
 
 type Props = {
   children: React.ReactNode;
@@ -25,6 +26,7 @@ const Providers = ({ children }: Props) => {
         persistor={persistor}
       >
         <>
+          <CartSync />
           {children}
           <Toaster closeButton />
         </>
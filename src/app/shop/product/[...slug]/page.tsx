@@ -1,29 +1,33 @@
-import {
-  newArrivalsData,
-  relatedProductData,
-  topSellingData,
-} from "@/lib/data/products";
 import ProductListSec from "@/components/common/ProductListSec";
 import BreadcrumbProduct from "@/components/product-page/BreadcrumbProduct";
 import Header from "@/components/product-page/Header";
 import Tabs from "@/components/product-page/Tabs";
-import { Product } from "@/types/product.types";
+import {
+  PRODUCT_COLLECTIONS,
+  getProductById,
+  getProductsByCollection,
+} from "@/lib/catalog";
+import { getDeliveryEstimates } from "@/lib/holidays";
+import { prisma } from "@/lib/prisma";
 import { notFound } from "next/navigation";
 
-const data: Product[] = [
-  ...newArrivalsData,
-  ...topSellingData,
-  ...relatedProductData,
-];
+export const dynamic = "force-dynamic";
 
-export default function ProductPage({
+export default async function ProductPage({
   params,
 }: {
   params: { slug: string[] };
 }) {
-  const productData = data.find(
-    (product) => product.id === Number(params.slug[0])
-  );
+  const [productData, relatedProductData, deliveryEstimates] =
+    await Promise.all([
+      getProductById(Number(params.slug[0])),
+      getProductsByCollection(PRODUCT_COLLECTIONS.related),
+      // The page still renders without dates if the calendar can't be read
+      getDeliveryEstimates(prisma, null).catch((error) => {
+        console.error("Failed to estimate delivery", error);
+        return [];
+      }),
+    ]);
 
   if (!productData?.title) {
     notFound();
@@ -35,7 +39,7 @@ export default function ProductPage({
         <hr className="h-[1px] border-t-black/10 mb-5 sm:mb-6" />
         <BreadcrumbProduct title={productData?.title ?? "product"} />
         <section className="mb-11">
-          <Header data={productData} />
+          <Header data={productData} deliveryEstimates={deliveryEstimates} />
         </section>
         <Tabs />
       </div>
@@ -11,7 +11,12 @@ import { cn } from "@/lib/utils";
 import InputGroup from "@/components/ui/input-group";
 import { Button } from "@/components/ui/button";
 import { toast } from "react-toastify";
-import { AUTH_SESSION_KEY } from "@/lib/constants";
+import {
+  AUTH_SESSION_KEY,
+  WELCOME_DISCOUNT_PERCENTAGE,
+} from "@/lib/constants";
+import { useAppDispatch } from "@/lib/hooks/redux";
+import { mergeGuestCart } from "@/lib/features/carts/cartSync";
 
 const signupSchema = z
   .object({
@@ -42,6 +47,7 @@ type SignupFormValues = z.infer<typeof signupSchema>;
 
 export default function SignupPage() {
   const router = useRouter();
+  const dispatch = useAppDispatch();
   const [isMounted, setIsMounted] = useState(false);
   const fieldBaseId = useId();
   const fieldIds = useMemo(
@@ -112,7 +118,13 @@ export default function SignupPage() {
         );
       }
 
-      toast.success("Account created successfully! You're now signed in.");
+      if (data?.user) {
+        dispatch(mergeGuestCart(data.user.id));
+      }
+
+      toast.success(
+        `Account created successfully! Your ${WELCOME_DISCOUNT_PERCENTAGE}% first-order discount will be applied at checkout.`
+      );
       reset();
       router.push("/profile");
     } catch (error) {
@@ -0,0 +1,101 @@
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "react-toastify";
+import { Button } from "@/components/ui/button";
+import type { StaffOrderNote } from "@/lib/data/orders";
+
+type OrderNotesProps = {
+  orderNumber: string;
+  notes: StaffOrderNote[];
+  canAddNotes: boolean;
+};
+
+const formatTimestamp = (value: string) =>
+  new Intl.DateTimeFormat("en-GB", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  }).format(new Date(value));
+
+const OrderNotes = ({ orderNumber, notes, canAddNotes }: OrderNotesProps) => {
+  const router = useRouter();
+  const [body, setBody] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(
+        `/api/admin/orders/${encodeURIComponent(orderNumber)}/notes`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ body }),
+        }
+      );
+
+      if (!response.ok) {
+        const data = (await response.json().catch(() => null)) as
+          | { message?: string }
+          | null;
+        toast.error(data?.message ?? "We couldn't save the note.");
+        return;
+      }
+
+      setBody("");
+      router.refresh();
+    } catch (error) {
+      console.error("Failed to add order note", error);
+      toast.error("We couldn't save the note.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {notes.length === 0 ? (
+        <p className="text-sm text-black/60">No notes yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {notes.map((note) => (
+            <li key={note.id} className="rounded-2xl bg-[#F7F7F7] p-4 text-sm">
+              <p className="whitespace-pre-line text-black">{note.body}</p>
+              <p className="mt-2 text-xs text-black/50">
+                {note.authorName ?? "Former staff member"} ·{" "}
+                {formatTimestamp(note.createdAt)}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+      {canAddNotes && (
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="rounded-2xl border border-black/10 bg-[#F0F0F0] px-4 py-3">
+            <textarea
+              rows={3}
+              value={body}
+              onChange={(event) => setBody(event.target.value)}
+              aria-label="Internal note"
+              className="h-full w-full resize-none bg-transparent text-sm outline-none placeholder:text-sm placeholder:text-black/40"
+              placeholder="Only staff can see these notes"
+              maxLength={2000}
+            />
+          </div>
+          <Button
+            type="submit"
+            disabled={isSubmitting || !body.trim()}
+            className="h-11 w-full rounded-full bg-black text-sm font-semibold text-white"
+          >
+            {isSubmitting ? "Saving..." : "Add note"}
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default OrderNotes;
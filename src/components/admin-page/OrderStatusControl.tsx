@@ -0,0 +1,111 @@
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "react-toastify";
+import InputGroup from "@/components/ui/input-group";
+import { Button } from "@/components/ui/button";
+import type { OrderStatus } from "@/lib/data/orders";
+import { formatStatus } from "@/lib/order-status";
+
+type OrderStatusControlProps = {
+  orderNumber: string;
+  nextStatuses: OrderStatus[];
+};
+
+// Only offers the moves the state machine allows from the current status
+const OrderStatusControl = ({
+  orderNumber,
+  nextStatuses,
+}: OrderStatusControlProps) => {
+  const router = useRouter();
+  const [status, setStatus] = useState<OrderStatus | "">("");
+  const [note, setNote] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  if (nextStatuses.length === 0) {
+    return (
+      <p className="text-sm text-black/60">
+        This order is closed and can&apos;t change status any more.
+      </p>
+    );
+  }
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    if (!status) {
+      toast.error("Choose the new status first.");
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(
+        `/api/admin/orders/${encodeURIComponent(orderNumber)}/status`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ status, note }),
+        }
+      );
+
+      if (!response.ok) {
+        const data = (await response.json().catch(() => null)) as
+          | { message?: string }
+          | null;
+        toast.error(data?.message ?? "We couldn't update the status.");
+        return;
+      }
+
+      toast.success(`Order moved to ${formatStatus(status)}.`);
+      setStatus("");
+      setNote("");
+      router.refresh();
+    } catch (error) {
+      console.error("Failed to change order status", error);
+      toast.error("We couldn't update the status.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <InputGroup className="bg-[#F0F0F0] pr-4">
+        <select
+          value={status}
+          onChange={(event) => setStatus(event.target.value as OrderStatus)}
+          aria-label="New status"
+          className="w-full bg-transparent py-3 text-sm outline-none"
+        >
+          <option value="">Move to…</option>
+          {nextStatuses.map((nextStatus) => (
+            <option key={nextStatus} value={nextStatus}>
+              {formatStatus(nextStatus)}
+            </option>
+          ))}
+        </select>
+      </InputGroup>
+      <InputGroup className="bg-[#F0F0F0]">
+        <InputGroup.Input
+          value={note}
+          onChange={(event) => setNote(event.target.value)}
+          placeholder="Reason or note (optional)"
+          className="bg-transparent"
+          maxLength={500}
+        />
+      </InputGroup>
+      <Button
+        type="submit"
+        disabled={isSubmitting}
+        className="h-11 w-full rounded-full bg-black text-sm font-semibold text-white"
+      >
+        {isSubmitting ? "Updating..." : "Update status"}
+      </Button>
+    </form>
+  );
+};
+
+export default OrderStatusControl;
@@ -0,0 +1,179 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { toast } from "react-toastify";
+import InputGroup from "@/components/ui/input-group";
+import { Button } from "@/components/ui/button";
+import { COURIERS } from "@/lib/couriers/services";
+
+type ShipmentFormProps = {
+  orderNumber: string;
+  courier?: string;
+  trackingNumber?: string;
+  // Set when the parcel was booked through a connected courier
+  trackingUrl?: string;
+};
+
+type ShipmentAction = "book" | "sync" | "save";
+
+const ShipmentForm = ({
+  orderNumber,
+  courier,
+  trackingNumber,
+  trackingUrl,
+}: ShipmentFormProps) => {
+  const router = useRouter();
+  const [values, setValues] = useState({
+    courier: courier ?? "",
+    trackingNumber: trackingNumber ?? "",
+  });
+  const [pendingAction, setPendingAction] = useState<ShipmentAction | null>(
+    null
+  );
+
+  const submit = async (
+    action: ShipmentAction,
+    path: string,
+    init: RequestInit,
+    successMessage: string
+  ) => {
+    setPendingAction(action);
+
+    try {
+      const response = await fetch(
+        `/api/admin/orders/${encodeURIComponent(orderNumber)}${path}`,
+        {
+          ...init,
+          headers: { "Content-Type": "application/json" },
+        }
+      );
+
+      if (!response.ok) {
+        const data = (await response.json().catch(() => null)) as
+          | { message?: string }
+          | null;
+        toast.error(data?.message ?? "We couldn't update the shipment.");
+        return;
+      }
+
+      toast.success(successMessage);
+      router.refresh();
+    } catch (error) {
+      console.error("Failed to update shipment", error);
+      toast.error("We couldn't update the shipment.");
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    submit(
+      "save",
+      "",
+      { method: "PATCH", body: JSON.stringify(values) },
+      "Shipment details saved."
+    );
+  };
+
+  const handleBook = () => {
+    if (!values.courier) {
+      toast.error("Choose a courier first.");
+      return;
+    }
+
+    submit(
+      "book",
+      "/consignment",
+      { method: "POST", body: JSON.stringify({ courier: values.courier }) },
+      "Parcel booked with the courier."
+    );
+  };
+
+  const handleSync = () =>
+    submit(
+      "sync",
+      "/consignment/sync",
+      { method: "POST" },
+      "Status refreshed from the courier."
+    );
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <InputGroup className="bg-[#F0F0F0] pr-4">
+        <select
+          value={values.courier}
+          onChange={(event) =>
+            setValues((current) => ({
+              ...current,
+              courier: event.target.value,
+            }))
+          }
+          aria-label="Courier"
+          className="w-full bg-transparent py-3 text-sm outline-none"
+        >
+          <option value="">No courier</option>
+          {COURIERS.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.name}
+            </option>
+          ))}
+        </select>
+      </InputGroup>
+      <InputGroup className="bg-[#F0F0F0]">
+        <InputGroup.Input
+          value={values.trackingNumber}
+          onChange={(event) =>
+            setValues((current) => ({
+              ...current,
+              trackingNumber: event.target.value,
+            }))
+          }
+          placeholder="Tracking number"
+          aria-label="Tracking number"
+          className="bg-transparent"
+          maxLength={100}
+        />
+      </InputGroup>
+      {trackingNumber ? (
+        <div className="flex items-center justify-between text-sm">
+          {trackingUrl ? (
+            <Link href={trackingUrl} className="underline" target="_blank">
+              Follow the parcel
+            </Link>
+          ) : (
+            <span />
+          )}
+          <button
+            type="button"
+            onClick={handleSync}
+            disabled={pendingAction !== null}
+            className="font-medium underline disabled:opacity-50"
+          >
+            {pendingAction === "sync" ? "Refreshing..." : "Refresh status"}
+          </button>
+        </div>
+      ) : (
+        <Button
+          type="button"
+          onClick={handleBook}
+          disabled={pendingAction !== null}
+          className="h-11 w-full rounded-full bg-black text-sm font-semibold text-white"
+        >
+          {pendingAction === "book" ? "Booking..." : "Book with courier"}
+        </Button>
+      )}
+      <Button
+        type="submit"
+        disabled={pendingAction !== null}
+        className="h-11 w-full rounded-full border border-black/15 bg-white text-sm font-semibold text-black"
+      >
+        {pendingAction === "save" ? "Saving..." : "Save shipment"}
+      </Button>
+    </form>
+  );
+};
+
+export default ShipmentForm;
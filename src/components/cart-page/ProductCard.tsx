@@ -2,6 +2,7 @@
 
 import React from "react";
 import { PiTrashFill } from "react-icons/pi";
+import { MdOutlineLocalOffer } from "react-icons/md";
 import Image from "next/image";
 import Link from "next/link";
 import CartCounter from "@/components/ui/CartCounter";
@@ -11,8 +12,10 @@ import {
   CartItem,
   remove,
   removeCartItem,
+  selectCartPromotions,
 } from "@/lib/features/carts/cartsSlice";
-import { useAppDispatch } from "@/lib/hooks/redux";
+import { useAppDispatch, useAppSelector } from "@/lib/hooks/redux";
+import { formatDiscount, getDiscountedPrice, hasDiscount } from "@/lib/pricing";
 
 type ProductCardProps = {
   data: CartItem;
@@ -20,6 +23,9 @@ type ProductCardProps = {
 
 const ProductCard = ({ data }: ProductCardProps) => {
   const dispatch = useAppDispatch();
+  const promotion = useAppSelector(selectCartPromotions).lines.find(
+    (line) => line.variantId === data.variantId
+  );
 
   return (
     <div className="flex items-start space-x-4">
@@ -69,47 +75,30 @@ const ProductCard = ({ data }: ProductCardProps) => {
         </div>
         <div className="mb-auto -mt-1.5">
           <span className="text-black text-xs md:text-sm mr-1">Color:</span>
-          <span className="text-black/60 text-xs md:text-sm">
+          <span className="text-black/60 text-xs md:text-sm capitalize">
             {data.attributes[1]}
           </span>
+          {promotion && (
+            <p className="mt-1 flex items-center text-xs md:text-sm font-medium text-green-700">
+              <MdOutlineLocalOffer className="mr-1 shrink-0" />
+              {promotion.name} · -${promotion.discount}
+            </p>
+          )}
         </div>
         <div className="flex items-center flex-wrap justify-between">
           <div className="flex items-center space-x-[5px] xl:space-x-2.5">
-            {data.discount.percentage > 0 ? (
-              <span className="font-bold text-black text-xl xl:text-2xl">
-                {`$${Math.round(
-                  data.price - (data.price * data.discount.percentage) / 100
-                )}`}
-              </span>
-            ) : data.discount.amount > 0 ? (
-              <span className="font-bold text-black text-xl xl:text-2xl">
-                {`$${data.price - data.discount.amount}`}
-              </span>
-            ) : (
-              <span className="font-bold text-black text-xl xl:text-2xl">
-                ${data.price}
-              </span>
-            )}
-            {data.discount.percentage > 0 && (
-              <span className="font-bold text-black/40 line-through text-xl xl:text-2xl">
-                ${data.price}
-              </span>
-            )}
-            {data.discount.amount > 0 && (
-              <span className="font-bold text-black/40 line-through text-xl xl:text-2xl">
-                ${data.price}
-              </span>
-            )}
-            {data.discount.percentage > 0 ? (
-              <span className="font-medium text-[10px] xl:text-xs py-1.5 px-3.5 rounded-full bg-[#FF3333]/10 text-[#FF3333]">
-                {`-${data.discount.percentage}%`}
-              </span>
-            ) : (
-              data.discount.amount > 0 && (
+            <span className="font-bold text-black text-xl xl:text-2xl">
+              ${getDiscountedPrice(data.price, data.discount)}
+            </span>
+            {hasDiscount(data.discount) && (
+              <>
+                <span className="font-bold text-black/40 line-through text-xl xl:text-2xl">
+                  ${data.price}
+                </span>
                 <span className="font-medium text-[10px] xl:text-xs py-1.5 px-3.5 rounded-full bg-[#FF3333]/10 text-[#FF3333]">
-                  {`-$${data.discount.amount}`}
+                  {formatDiscount(data.discount)}
                 </span>
-              )
+              </>
             )}
           </div>
           <CartCounter
@@ -0,0 +1,87 @@
+"use client";
+
+import React from "react";
+import { cn } from "@/lib/utils";
+import type { SavedAddress } from "@/lib/serializers/address";
+
+type AddressChooserProps = {
+  addresses: SavedAddress[];
+  // `null` means the shopper is typing a new address
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+};
+
+const optionClassName = (isActive: boolean) =>
+  cn(
+    "rounded-2xl border p-4 text-left text-sm transition",
+    isActive
+      ? "border-black bg-black text-white"
+      : "border-black/15 bg-white text-black hover:border-black/40"
+  );
+
+const AddressChooser = ({
+  addresses,
+  selectedId,
+  onSelect,
+}: AddressChooserProps) => (
+  <fieldset>
+    <legend className="mb-3 block text-sm font-medium text-black">
+      Deliver to
+    </legend>
+    <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+      {addresses.map((address) => {
+        const isActive = selectedId === address.id;
+
+        return (
+          <button
+            key={address.id}
+            type="button"
+            aria-pressed={isActive}
+            className={optionClassName(isActive)}
+            onClick={() => onSelect(address.id)}
+          >
+            <span className="font-semibold">
+              {address.label}
+              {address.isDefault && (
+                <span
+                  className={cn(
+                    "ml-2 text-xs font-medium",
+                    isActive ? "text-white/70" : "text-black/50"
+                  )}
+                >
+                  Default
+                </span>
+              )}
+            </span>
+            <p
+              className={cn(
+                "mt-1",
+                isActive ? "text-white/80" : "text-black/60"
+              )}
+            >
+              {address.fullName} · {address.addressLine1}, {address.city}
+            </p>
+          </button>
+        );
+      })}
+      <button
+        type="button"
+        aria-pressed={selectedId === null}
+        className={optionClassName(selectedId === null)}
+        onClick={() => onSelect(null)}
+      >
+        <span className="font-semibold">Use a different address</span>
+        <p
+          className={cn(
+            "mt-1",
+            selectedId === null ? "text-white/80" : "text-black/60"
+          )}
+        >
+          Enter it below and save it for next time.
+        </p>
+      </button>
+    </div>
+  </fieldset>
+);
+
+export default AddressChooser;
@@ -0,0 +1,19 @@
+"use client";
+
+import { useEffect } from "react";
+import { useAppDispatch } from "@/lib/hooks/redux";
+import { syncCartWithSession } from "@/lib/features/carts/cartSync";
+import { loadPromotions } from "@/lib/features/carts/promotions";
+
+const CartSync = () => {
+  const dispatch = useAppDispatch();
+
+  useEffect(() => {
+    dispatch(syncCartWithSession());
+    dispatch(loadPromotions());
+  }, [dispatch]);
+
+  return null;
+};
+
+export default CartSync;
@@ -0,0 +1,112 @@
+"use client";
+
+import React, { FormEvent, useState } from "react";
+import { MdOutlineLocalOffer } from "react-icons/md";
+import { toast } from "react-toastify";
+import InputGroup from "@/components/ui/input-group";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { useAppDispatch, useAppSelector } from "@/lib/hooks/redux";
+import {
+  couponRemoved,
+  selectAppliedCoupon,
+} from "@/lib/features/carts/cartsSlice";
+import { applyCoupon } from "@/lib/features/carts/coupon";
+
+type CouponFieldProps = {
+  className?: string;
+};
+
+const CouponField = ({ className }: CouponFieldProps) => {
+  const dispatch = useAppDispatch();
+  const coupon = useAppSelector(selectAppliedCoupon);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const onSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    if (code.trim().length === 0) {
+      setError("Enter a promo code.");
+      return;
+    }
+
+    setIsApplying(true);
+    const result = await dispatch(applyCoupon(code.trim()));
+    setIsApplying(false);
+
+    if (applyCoupon.rejected.match(result)) {
+      setError(result.payload ?? "We couldn't apply that code.");
+      return;
+    }
+
+    setError(null);
+    setCode("");
+    toast.success(`${result.payload.code} applied to your order.`);
+  };
+
+  if (coupon) {
+    return (
+      <div
+        className={cn(
+          "flex items-center justify-between rounded-2xl border border-dashed border-black/20 bg-[#F7F7F7] px-4 py-3",
+          className
+        )}
+      >
+        <div className="flex items-center space-x-3">
+          <MdOutlineLocalOffer className="text-2xl text-black/60" />
+          <div>
+            <p className="text-sm font-semibold uppercase text-black">
+              {coupon.code}
+            </p>
+            {coupon.description && (
+              <p className="text-xs text-black/60">{coupon.description}</p>
+            )}
+          </div>
+        </div>
+        <button
+          type="button"
+          className="text-sm font-medium text-black/60 underline hover:text-black"
+          onClick={() => dispatch(couponRemoved())}
+        >
+          Remove
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={onSubmit} className={className} noValidate>
+      <div className="flex space-x-3">
+        <InputGroup className="bg-[#F0F0F0]">
+          <InputGroup.Text>
+            <MdOutlineLocalOffer className="text-black/40 text-2xl" />
+          </InputGroup.Text>
+          <InputGroup.Input
+            type="text"
+            name="code"
+            value={code}
+            onChange={(event) => setCode(event.target.value)}
+            placeholder="Add promo code"
+            className="bg-transparent uppercase placeholder:normal-case placeholder:text-black/40"
+          />
+        </InputGroup>
+        <Button
+          type="submit"
+          disabled={isApplying}
+          className="bg-black rounded-full w-full max-w-[119px] h-[48px]"
+        >
+          {isApplying ? "Applying…" : "Apply"}
+        </Button>
+      </div>
+      {error && (
+        <p className="mt-2 text-sm text-red-500" role="alert">
+          {error}
+        </p>
+      )}
+    </form>
+  );
+};
+
+export default CouponField;
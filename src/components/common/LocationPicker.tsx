@@ -0,0 +1,119 @@
+"use client";
+
+import React from "react";
+import InputGroup from "@/components/ui/input-group";
+import { cn } from "@/lib/utils";
+import {
+  LocationSelection,
+  bangladeshDivisions,
+  findDistrict,
+  findDivision,
+} from "@/lib/bd-locations";
+
+type LocationPickerProps = {
+  idPrefix: string;
+  value: LocationSelection;
+  onChange: (value: LocationSelection) => void;
+  errors?: Partial<Record<keyof LocationSelection, string>>;
+  className?: string;
+};
+
+type LocationFieldProps = {
+  id: string;
+  label: string;
+  placeholder: string;
+  value: string;
+  options: { id: string; name: string }[];
+  onChange: (value: string) => void;
+  error?: string;
+};
+
+const LocationField = ({
+  id,
+  label,
+  placeholder,
+  value,
+  options,
+  onChange,
+  error,
+}: LocationFieldProps) => (
+  <div>
+    <label htmlFor={id} className="mb-2 block text-sm font-medium text-black">
+      {label}
+    </label>
+    <InputGroup className="bg-[#F0F0F0] pr-4">
+      <select
+        id={id}
+        value={value}
+        disabled={options.length === 0}
+        onChange={(event) => onChange(event.target.value)}
+        aria-invalid={error ? "true" : "false"}
+        aria-describedby={error ? `${id}-error` : undefined}
+        className="w-full bg-transparent py-3 text-sm outline-none disabled:cursor-not-allowed disabled:text-black/40"
+      >
+        <option value="">{placeholder}</option>
+        {options.map((option) => (
+          <option key={option.id} value={option.id}>
+            {option.name}
+          </option>
+        ))}
+      </select>
+    </InputGroup>
+    {error && (
+      <p id={`${id}-error`} className="mt-2 text-sm text-red-500" role="alert">
+        {error}
+      </p>
+    )}
+  </div>
+);
+
+// Picking a level clears the ones below it, so a thana can never be left
+// pointing at a district it doesn't belong to.
+const LocationPicker = ({
+  idPrefix,
+  value,
+  onChange,
+  errors,
+  className,
+}: LocationPickerProps) => {
+  const districts = findDivision(value.divisionId)?.districts ?? [];
+  const thanas = findDistrict(value.divisionId, value.districtId)?.thanas ?? [];
+
+  return (
+    <div className={cn("grid grid-cols-1 gap-6 md:grid-cols-3", className)}>
+      <LocationField
+        id={`${idPrefix}-division`}
+        label="Division"
+        placeholder="Select division"
+        value={value.divisionId}
+        options={bangladeshDivisions}
+        onChange={(divisionId) =>
+          onChange({ divisionId, districtId: "", thanaId: "" })
+        }
+        error={errors?.divisionId}
+      />
+      <LocationField
+        id={`${idPrefix}-district`}
+        label="District"
+        placeholder="Select district"
+        value={value.districtId}
+        options={districts}
+        onChange={(districtId) =>
+          onChange({ ...value, districtId, thanaId: "" })
+        }
+        error={errors?.districtId}
+      />
+      <LocationField
+        id={`${idPrefix}-thana`}
+        label="Thana / Upazila"
+        placeholder="Select thana"
+        value={value.thanaId}
+        options={thanas}
+        onChange={(thanaId) => onChange({ ...value, thanaId })}
+        error={errors?.thanaId}
+      />
+    </div>
+  );
+};
+
+export default LocationPicker;
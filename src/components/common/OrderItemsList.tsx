@@ -0,0 +1,84 @@
+import React from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { cn } from "@/lib/utils";
+import { OrderLineItem } from "@/lib/data/orders";
+import { formatDiscount, hasDiscount } from "@/lib/pricing";
+
+type OrderItemsListProps = {
+  items: OrderLineItem[];
+  className?: string;
+};
+
+const getProductHref = (item: OrderLineItem) =>
+  item.productId
+    ? `/shop/product/${item.productId}/${item.title.split(" ").join("-")}`
+    : null;
+
+const OrderItemsList = ({ items, className }: OrderItemsListProps) => {
+  if (items.length === 0) {
+    return (
+      <p className={cn("text-sm text-black/60", className)}>
+        Item details are not available for this order.
+      </p>
+    );
+  }
+
+  return (
+    <ul className={cn("space-y-4", className)}>
+      {items.map((item, index) => {
+        const href = getProductHref(item);
+        const isDiscounted = item.lineTotal < item.unitPrice * item.quantity;
+
+        return (
+          <li
+            key={`${item.variantId ?? item.title}-${index}`}
+            className="flex items-start space-x-4"
+          >
+            <div className="h-16 w-16 shrink-0 overflow-hidden rounded-lg bg-[#F0EEED]">
+              <Image
+                src={item.srcUrl}
+                width={64}
+                height={64}
+                className="h-full w-full object-cover"
+                alt={item.title}
+              />
+            </div>
+            <div className="flex-1">
+              {href ? (
+                <Link
+                  href={href}
+                  className="text-sm font-semibold text-black hover:underline"
+                >
+                  {item.title}
+                </Link>
+              ) : (
+                <p className="text-sm font-semibold text-black">{item.title}</p>
+              )}
+              <p className="text-xs text-black/60 capitalize">
+                {item.attributes.join(" · ")}
+              </p>
+              <p className="text-xs text-black/60">
+                {item.quantity} × ${item.unitPrice}
+                {hasDiscount(item.discount) &&
+                  ` (${formatDiscount(item.discount)})`}
+              </p>
+            </div>
+            <div className="text-right">
+              <span className="text-sm font-semibold text-black">
+                ${item.lineTotal}
+              </span>
+              {isDiscounted && (
+                <span className="block text-xs text-black/40 line-through">
+                  ${item.unitPrice * item.quantity}
+                </span>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default OrderItemsList;
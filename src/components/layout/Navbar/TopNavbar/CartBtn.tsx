@@ -1,13 +1,13 @@
 "use client";
 
+import { selectCartTotals } from "@/lib/features/carts/cartsSlice";
 import { useAppSelector } from "@/lib/hooks/redux";
-import { RootState } from "@/lib/store";
 import Image from "next/image";
 import Link from "next/link";
 import React from "react";
 
 const CartBtn = () => {
-  const { cart } = useAppSelector((state: RootState) => state.carts);
+  const { itemsCount } = useAppSelector(selectCartTotals);
 
   return (
     <Link href="/cart" className="relative mr-[14px] p-1">
@@ -19,9 +19,9 @@ const CartBtn = () => {
         alt="cart"
         className="max-w-[22px] max-h-[22px]"
       />
-      {cart && cart.totalQuantities > 0 && (
+      {itemsCount > 0 && (
         <span className="border bg-black text-white rounded-full w-fit-h-fit px-1 text-xs absolute -top-3 left-1/2 -translate-x-1/2">
-          {cart.totalQuantities}
+          {itemsCount}
         </span>
       )}
     </Link>
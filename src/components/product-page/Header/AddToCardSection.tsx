@@ -1,13 +1,30 @@
 "use client";
 
 import CartCounter from "@/components/ui/CartCounter";
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import AddToCartBtn from "./AddToCartBtn";
 import { Product } from "@/types/product.types";
+import { useAppDispatch } from "@/lib/hooks/redux";
+import {
+  setColorSelection,
+  setSizeSelection,
+} from "@/lib/features/products/productsSlice";
+import { getDefaultSelection } from "@/lib/variants";
+import { getColorOption } from "./ColorSelection";
 
 const AddToCardSection = ({ data }: { data: Product }) => {
+  const dispatch = useAppDispatch();
   const [quantity, setQuantity] = useState<number>(1);
 
+  // The selection lives in the store, so reset it whenever another product
+  // is opened instead of carrying over a size/colour it may not stock.
+  useEffect(() => {
+    const selection = getDefaultSelection(data);
+
+    dispatch(setColorSelection(getColorOption(selection?.color ?? "")));
+    dispatch(setSizeSelection(selection?.size ?? ""));
+  }, [data, dispatch]);
+
   return (
     <div className="fixed md:relative w-full bg-white border-t md:border-none border-black/5 bottom-0 left-0 p-4 md:p-0 z-10 flex items-center justify-between sm:justify-start md:justify-center">
       <CartCounter onAdd={setQuantity} onRemove={setQuantity} />
@@ -3,6 +3,7 @@
 import { addToCart } from "@/lib/features/carts/cartsSlice";
 import { useAppDispatch, useAppSelector } from "@/lib/hooks/redux";
 import { RootState } from "@/lib/store";
+import { findVariant, getVariantPrice } from "@/lib/variants";
 import { Product } from "@/types/product.types";
 import React from "react";
 import { toast } from "react-toastify";
@@ -12,18 +13,46 @@ const AddToCartBtn = ({ data }: { data: Product & { quantity: number } }) => {
   const { sizeSelection, colorSelection } = useAppSelector(
     (state: RootState) => state.products
   );
+  const { cart } = useAppSelector((state: RootState) => state.carts);
+
+  const variant = findVariant(data.variants, sizeSelection, colorSelection.name);
+  const isSoldOut = !variant || variant.stock <= 0;
 
   return (
     <button
       type="button"
-      className="bg-black w-full ml-3 sm:ml-5 rounded-full h-11 md:h-[52px] text-sm sm:text-base text-white hover:bg-black/80 transition-all"
+      disabled={isSoldOut}
+      className="bg-black w-full ml-3 sm:ml-5 rounded-full h-11 md:h-[52px] text-sm sm:text-base text-white hover:bg-black/80 transition-all disabled:cursor-not-allowed disabled:bg-black/40"
       onClick={() => {
+        if (!variant || variant.stock <= 0) {
+          toast.error("This size and colour is sold out.");
+          return;
+        }
+
+        const quantityInCart =
+          cart?.items.find((item) => item.variantId === variant.id)
+            ?.quantity ?? 0;
+
+        if (quantityInCart + data.quantity > variant.stock) {
+          const remaining = Math.max(variant.stock - quantityInCart, 0);
+
+          toast.error(
+            remaining > 0
+              ? `Only ${remaining} more left in stock for this size and colour.`
+              : `You already have all ${variant.stock} in stock in your bag.`
+          );
+          return;
+        }
+
         dispatch(
           addToCart({
             id: data.id,
+            variantId: variant.id,
             name: data.title,
             srcUrl: data.srcUrl,
-            price: data.price,
+            category: data.category,
+            weightGrams: data.weightGrams,
+            price: getVariantPrice(data, variant),
             attributes: [sizeSelection, colorSelection.name],
             discount: data.discount,
             quantity: data.quantity,
@@ -43,7 +72,7 @@ const AddToCartBtn = ({ data }: { data: Product & { quantity: number } }) => {
         );
       }}
     >
-      Add to Cart
+      {isSoldOut ? "Sold Out" : "Add to Cart"}
     </button>
   );
 };
@@ -3,55 +3,94 @@
 import {
   Color,
   setColorSelection,
+  setSizeSelection,
 } from "@/lib/features/products/productsSlice";
 import { useAppDispatch, useAppSelector } from "@/lib/hooks/redux";
 import { RootState } from "@/lib/store";
 import { cn } from "@/lib/utils";
+import { isColorAvailable, isSizeAvailable } from "@/lib/variants";
+import { Product } from "@/types/product.types";
 import React from "react";
 import { IoMdCheckmark } from "react-icons/io";
 
-const colorsData: Color[] = [
-  {
-    name: "Brown",
-    code: "bg-[#4F4631]",
-  },
-  {
-    name: "Green",
-    code: "bg-[#314F4A]",
-  },
-  {
-    name: "Blue",
-    code: "bg-[#31344F]",
-  },
-];
-
-const ColorSelection = () => {
-  const { colorSelection } = useAppSelector(
+const colorCodes: Record<string, string> = {
+  black: "bg-black",
+  blue: "bg-[#31344F]",
+  brown: "bg-[#4F4631]",
+  gray: "bg-gray-500",
+  green: "bg-[#314F4A]",
+  orange: "bg-orange-600",
+  pink: "bg-pink-600",
+  purple: "bg-purple-600",
+  red: "bg-red-600",
+  silver: "bg-zinc-300",
+  white: "bg-white border border-black/20",
+  yellow: "bg-yellow-300",
+};
+
+export const getColorOption = (name: string): Color => ({
+  name,
+  code: colorCodes[name.toLowerCase()] ?? "bg-[#F0F0F0]",
+});
+
+const ColorSelection = ({ data }: { data: Product }) => {
+  const { colorSelection, sizeSelection } = useAppSelector(
     (state: RootState) => state.products
   );
   const dispatch = useAppDispatch();
 
+  const handleSelect = (color: Color) => {
+    dispatch(setColorSelection(color));
+
+    if (isSizeAvailable(data.variants, sizeSelection, color.name)) {
+      return;
+    }
+
+    const nextSize = data.sizes.find((size) =>
+      isSizeAvailable(data.variants, size, color.name)
+    );
+
+    dispatch(setSizeSelection(nextSize ?? ""));
+  };
+
   return (
     <div className="flex flex-col">
       <span className="text-sm sm:text-base text-black/60 mb-4">
         Select Colors
       </span>
       <div className="flex items-center flex-wrap space-x-3 sm:space-x-4">
-        {colorsData.map((color, index) => (
-          <button
-            key={index}
-            type="button"
-            className={cn([
-              color.code,
-              "rounded-full w-9 sm:w-10 h-9 sm:h-10 flex items-center justify-center",
-            ])}
-            onClick={() => dispatch(setColorSelection(color))}
-          >
-            {colorSelection.name === color.name && (
-              <IoMdCheckmark className="text-base text-white" />
-            )}
-          </button>
-        ))}
+        {data.colors.map((name) => {
+          const color = getColorOption(name);
+          const isAvailable = isColorAvailable(data.variants, name);
+          const isLight = ["white", "yellow", "silver"].includes(
+            name.toLowerCase()
+          );
+
+          return (
+            <button
+              key={name}
+              type="button"
+              title={isAvailable ? name : `${name} (sold out)`}
+              aria-label={isAvailable ? name : `${name} (sold out)`}
+              disabled={!isAvailable}
+              className={cn([
+                color.code,
+                "rounded-full w-9 sm:w-10 h-9 sm:h-10 flex items-center justify-center",
+                !isAvailable && "opacity-30 cursor-not-allowed",
+              ])}
+              onClick={() => handleSelect(color)}
+            >
+              {colorSelection.name === color.name && (
+                <IoMdCheckmark
+                  className={cn(
+                    "text-base",
+                    isLight ? "text-black" : "text-white"
+                  )}
+                />
+              )}
+            </button>
+          );
+        })}
       </div>
     </div>
   );
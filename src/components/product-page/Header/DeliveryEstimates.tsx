@@ -0,0 +1,42 @@
+import React from "react";
+import { MdOutlineLocalShipping } from "react-icons/md";
+import {
+  type DeliveryEstimate,
+  WAREHOUSE_CUTOFF_HOUR,
+  formatDeliveryWindow,
+} from "@/lib/delivery-estimate";
+
+const DeliveryEstimates = ({
+  estimates,
+}: {
+  estimates: DeliveryEstimate[];
+}) => {
+  if (estimates.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-5 rounded-[20px] bg-[#F0F0F0] p-4">
+      <p className="flex items-center text-sm font-medium text-black mb-2">
+        <MdOutlineLocalShipping className="text-lg mr-2" />
+        Estimated delivery
+      </p>
+      <ul className="space-y-1 text-sm">
+        {estimates.map((estimate) => (
+          <li key={estimate.zone} className="flex justify-between">
+            <span className="text-black/60">{estimate.zoneName}</span>
+            <span className="font-medium text-black">
+              {formatDeliveryWindow(estimate)}
+            </span>
+          </li>
+        ))}
+      </ul>
+      <p className="mt-2 text-xs text-black/40">
+        Order before {WAREHOUSE_CUTOFF_HOUR % 12 || 12}pm on a working day to
+        ship the same day. We don&apos;t dispatch on Fridays or public holidays.
+      </p>
+    </div>
+  );
+};
+
+export default DeliveryEstimates;
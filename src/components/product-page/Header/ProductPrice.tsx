@@ -0,0 +1,38 @@
+"use client";
+
+import { useAppSelector } from "@/lib/hooks/redux";
+import { formatDiscount, getDiscountedPrice, hasDiscount } from "@/lib/pricing";
+import { RootState } from "@/lib/store";
+import { findVariant, getVariantPrice } from "@/lib/variants";
+import { Product } from "@/types/product.types";
+import React from "react";
+
+// Shows what the selected size and colour costs, which is what the bag charges
+const ProductPrice = ({ data }: { data: Product }) => {
+  const { sizeSelection, colorSelection } = useAppSelector(
+    (state: RootState) => state.products
+  );
+
+  const variant = findVariant(data.variants, sizeSelection, colorSelection.name);
+  const price = variant ? getVariantPrice(data, variant) : data.price;
+
+  return (
+    <div className="flex items-center space-x-2.5 sm:space-x-3 mb-5">
+      <span className="font-bold text-black text-2xl sm:text-[32px]">
+        ${getDiscountedPrice(price, data.discount)}
+      </span>
+      {hasDiscount(data.discount) && (
+        <>
+          <span className="font-bold text-black/40 line-through text-2xl sm:text-[32px]">
+            ${price}
+          </span>
+          <span className="font-medium text-[10px] sm:text-xs py-1.5 px-3.5 rounded-full bg-[#FF3333]/10 text-[#FF3333]">
+            {formatDiscount(data.discount)}
+          </span>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ProductPrice;
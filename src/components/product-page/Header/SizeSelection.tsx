@@ -4,10 +4,12 @@ import { setSizeSelection } from "@/lib/features/products/productsSlice";
 import { useAppDispatch, useAppSelector } from "@/lib/hooks/redux";
 import { RootState } from "@/lib/store";
 import { cn } from "@/lib/utils";
+import { isSizeAvailable } from "@/lib/variants";
+import { Product } from "@/types/product.types";
 import React from "react";
 
-const SizeSelection = () => {
-  const { sizeSelection } = useAppSelector(
+const SizeSelection = ({ data }: { data: Product }) => {
+  const { sizeSelection, colorSelection } = useAppSelector(
     (state: RootState) => state.products
   );
   const dispatch = useAppDispatch();
@@ -18,19 +20,29 @@ const SizeSelection = () => {
         Choose Size
       </span>
       <div className="flex items-center flex-wrap lg:space-x-3">
-        {["Small", "Medium", "Large", "X-Large"].map((size, index) => (
-          <button
-            key={index}
-            type="button"
-            className={cn([
-              "bg-[#F0F0F0] flex items-center justify-center px-5 lg:px-6 py-2.5 lg:py-3 text-sm lg:text-base rounded-full m-1 lg:m-0 max-h-[46px]",
-              sizeSelection === size && "bg-black font-medium text-white",
-            ])}
-            onClick={() => dispatch(setSizeSelection(size))}
-          >
-            {size}
-          </button>
-        ))}
+        {data.sizes.map((size) => {
+          const isAvailable = isSizeAvailable(
+            data.variants,
+            size,
+            colorSelection.name
+          );
+
+          return (
+            <button
+              key={size}
+              type="button"
+              disabled={!isAvailable}
+              className={cn([
+                "bg-[#F0F0F0] flex items-center justify-center px-5 lg:px-6 py-2.5 lg:py-3 text-sm lg:text-base rounded-full m-1 lg:m-0 max-h-[46px]",
+                sizeSelection === size && "bg-black font-medium text-white",
+                !isAvailable && "text-black/30 line-through cursor-not-allowed",
+              ])}
+              onClick={() => dispatch(setSizeSelection(size))}
+            >
+              {size}
+            </button>
+          );
+        })}
       </div>
     </div>
   );
@@ -11,14 +11,21 @@ import {
 } from "@/components/ui/drawer";
 import { FiSliders } from "react-icons/fi";
 import Filters from ".";
-import { ShopFiltersState } from "@/types/filter.types";
+import { FilterOption, ShopFiltersState } from "@/types/filter.types";
 
 type MobileFiltersProps = {
   filters: ShopFiltersState;
+  categories: FilterOption[];
+  styles: FilterOption[];
   onFiltersChange: (filters: ShopFiltersState) => void;
 };
 
-const MobileFilters = ({ filters, onFiltersChange }: MobileFiltersProps) => {
+const MobileFilters = ({
+  filters,
+  categories,
+  styles,
+  onFiltersChange,
+}: MobileFiltersProps) => {
   const [open, setOpen] = useState(false);
 
   return (
@@ -43,6 +50,8 @@ const MobileFilters = ({ filters, onFiltersChange }: MobileFiltersProps) => {
         <div className="max-h-[90%] overflow-y-auto w-full px-5 md:px-6 py-5 space-y-5 md:space-y-6">
           <Filters
             filters={filters}
+            categories={categories}
+            styles={styles}
             onFiltersChange={onFiltersChange}
             onApply={() => setOpen(false)}
           />
@@ -7,29 +7,16 @@ import DressStyleSection from "@/components/shop-page/filters/DressStyleSection"
 import PriceSection from "@/components/shop-page/filters/PriceSection";
 import SizeSection from "@/components/shop-page/filters/SizeSection";
 import { Button } from "@/components/ui/button";
-import { ShopFiltersState } from "@/types/filter.types";
+import { FilterOption, ShopFiltersState } from "@/types/filter.types";
 
 type FiltersProps = {
   filters: ShopFiltersState;
+  categories: FilterOption[];
+  styles: FilterOption[];
   onFiltersChange: (filters: ShopFiltersState) => void;
   onApply?: () => void;
 };
 
-const categories = [
-  { label: "T-shirts", value: "t-shirts" },
-  { label: "Shorts", value: "shorts" },
-  { label: "Shirts", value: "shirts" },
-  { label: "Hoodie", value: "hoodie" },
-  { label: "Jeans", value: "jeans" },
-];
-
-const dressStyles = [
-  { label: "Casual", value: "casual" },
-  { label: "Formal", value: "formal" },
-  { label: "Party", value: "party" },
-  { label: "Gym", value: "gym" },
-];
-
 const colorOptions = [
   { value: "green", className: "bg-green-600" },
   { value: "red", className: "bg-red-600" },
@@ -55,7 +42,13 @@ const sizeOptions = [
   "4X-Large",
 ];
 
-const Filters = ({ filters, onFiltersChange, onApply }: FiltersProps) => {
+const Filters = ({
+  filters,
+  categories,
+  styles,
+  onFiltersChange,
+  onApply,
+}: FiltersProps) => {
   const handleCategoryChange = (value: string | null) => {
     onFiltersChange({
       ...filters,
@@ -118,7 +111,7 @@ const Filters = ({ filters, onFiltersChange, onApply }: FiltersProps) => {
       />
       <hr className="border-t-black/10" />
       <DressStyleSection
-        styles={dressStyles}
+        styles={styles}
         selectedStyles={filters.styles}
         onSelectStyles={handleStyleChange}
       />
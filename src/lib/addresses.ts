@@ -0,0 +1,199 @@
+import type { Prisma } from "@prisma/client";
+import { z } from "zod";
+
+import { findThana, formatLocation, refineLocation } from "./bd-locations";
+import { prisma } from "./prisma";
+
+export class AddressNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Address ${id} was not found`);
+    this.name = "AddressNotFoundError";
+  }
+}
+
+const optionalText = z
+  .string()
+  .trim()
+  .max(1000)
+  .optional()
+  .transform((value) => value || null);
+
+const contactFields = {
+  fullName: z
+    .string()
+    .trim()
+    .min(1, "Recipient name is required")
+    .max(255, "Recipient name is too long"),
+  phone: z
+    .string()
+    .trim()
+    .min(6, "Enter a valid phone number")
+    .max(20, "Enter a valid phone number"),
+  addressLine1: z.string().trim().min(1, "Street address is required"),
+  apartment: optionalText,
+  roadNo: optionalText,
+  additionalInfo: optionalText,
+};
+
+export const addressSchema = z
+  .object({
+    label: z
+      .string()
+      .trim()
+      .min(1, "Give the address a label, like Home or Office")
+      .max(40, "Keep the label under 40 characters"),
+    ...contactFields,
+    divisionId: z.string().min(1, "Division is required"),
+    districtId: z.string().min(1, "District is required"),
+    thanaId: z.string().min(1, "Thana is required"),
+    postalCode: z
+      .string()
+      .trim()
+      .regex(/^[0-9]{4}$/, "Postal code must be 4 digits"),
+    isDefault: z.boolean().optional(),
+  })
+  .superRefine(refineLocation);
+
+// Browser profiles were never validated against the area list, so only the
+// contact fields are required and the area ids are kept when they still match.
+export const storedProfileSchema = z.object({
+  ...contactFields,
+  city: z.string().trim().min(1, "City is required"),
+  postalCode: z.string().trim().min(1, "Postal code is required"),
+  divisionId: z.string().optional(),
+  districtId: z.string().optional(),
+  thanaId: z.string().optional(),
+});
+
+export type AddressInput = z.infer<typeof addressSchema>;
+export type StoredProfileInput = z.infer<typeof storedProfileSchema>;
+
+const findOwnedAddress = async (
+  tx: Prisma.TransactionClient,
+  userId: string,
+  id: string
+) => {
+  const address = await tx.address.findFirst({ where: { id, userId } });
+
+  if (!address) {
+    throw new AddressNotFoundError(id);
+  }
+
+  return address;
+};
+
+const clearDefault = (tx: Prisma.TransactionClient, userId: string) =>
+  tx.address.updateMany({
+    where: { userId, isDefault: true },
+    data: { isDefault: false },
+  });
+
+export const listAddresses = (userId: string) =>
+  prisma.address.findMany({
+    where: { userId },
+    orderBy: [{ isDefault: "desc" }, { createdAt: "asc" }],
+  });
+
+// The first address a customer saves becomes their default.
+export const createAddress = (userId: string, input: AddressInput) =>
+  prisma.$transaction(async (tx) => {
+    const isDefault =
+      input.isDefault || (await tx.address.count({ where: { userId } })) === 0;
+
+    if (isDefault) {
+      await clearDefault(tx, userId);
+    }
+
+    return tx.address.create({
+      data: { ...input, city: formatLocation(input), userId, isDefault },
+    });
+  });
+
+export const updateAddress = (
+  userId: string,
+  id: string,
+  input: AddressInput
+) =>
+  prisma.$transaction(async (tx) => {
+    await findOwnedAddress(tx, userId, id);
+
+    if (input.isDefault) {
+      await clearDefault(tx, userId);
+    }
+
+    // Unticking the default is ignored; another address has to take over
+    return tx.address.update({
+      where: { id },
+      data: {
+        ...input,
+        city: formatLocation(input),
+        isDefault: input.isDefault || undefined,
+      },
+    });
+  });
+
+export const setDefaultAddress = (userId: string, id: string) =>
+  prisma.$transaction(async (tx) => {
+    await findOwnedAddress(tx, userId, id);
+    await clearDefault(tx, userId);
+
+    return tx.address.update({ where: { id }, data: { isDefault: true } });
+  });
+
+// Removing the default hands the flag to the oldest remaining address, so a
+// customer with saved addresses always has one to prefill checkout with.
+export const deleteAddress = (userId: string, id: string) =>
+  prisma.$transaction(async (tx) => {
+    const address = await findOwnedAddress(tx, userId, id);
+
+    await tx.address.delete({ where: { id } });
+
+    if (!address.isDefault) {
+      return;
+    }
+
+    const next = await tx.address.findFirst({
+      where: { userId },
+      orderBy: { createdAt: "asc" },
+    });
+
+    if (next) {
+      await tx.address.update({
+        where: { id: next.id },
+        data: { isDefault: true },
+      });
+    }
+  });
+
+/**
+ * Copies an address saved by the old browser-only profile into the address
+ * book. Only customers without saved addresses get it, so a profile left
+ * behind on a second device can't add a duplicate.
+ */
+export const importStoredProfile = (
+  userId: string,
+  input: StoredProfileInput
+) =>
+  prisma.$transaction(async (tx) => {
+    if ((await tx.address.count({ where: { userId } })) > 0) {
+      return null;
+    }
+
+    const {
+      divisionId = "",
+      districtId = "",
+      thanaId = "",
+      ...contact
+    } = input;
+    const location = { divisionId, districtId, thanaId };
+
+    return tx.address.create({
+      data: {
+        ...contact,
+        ...(findThana(location) ? location : {}),
+        userId,
+        label: "Home",
+        isDefault: true,
+      },
+    });
+  });
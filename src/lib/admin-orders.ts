@@ -0,0 +1,250 @@
+import type { Prisma } from "@prisma/client";
+import { z } from "zod";
+
+import type { OrderStatus } from "./data/orders";
+import { COURIER_IDS } from "./couriers/services";
+import { startOfDeliveryDay } from "./delivery-estimate";
+import { publishOrderStatus } from "./order-events";
+import { ORDER_STATUSES } from "./order-status";
+import { orderDetailsInclude, transitionOrderStatus } from "./orders";
+import { PAYMENT_METHOD_IDS, findPaymentMethod } from "./payments/methods";
+import { prisma } from "./prisma";
+import {
+  serializeStaffOrder,
+  serializeStaffOrderSummary,
+} from "./serializers/admin-order";
+
+export const ADMIN_ORDERS_PAGE_SIZE = 20;
+
+export class OrderNotFoundError extends Error {
+  constructor(orderNumber: string) {
+    super(`Order ${orderNumber} was not found`);
+    this.name = "OrderNotFoundError";
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Filter forms submit empty fields as empty strings
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(
+    (value) => (value === "" ? undefined : value),
+    schema.optional()
+  );
+
+const day = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+const orderStatusSchema = z.enum(
+  ORDER_STATUSES as [OrderStatus, ...OrderStatus[]],
+  {
+    errorMap: () => ({ message: "Choose a valid status" }),
+  }
+);
+
+export const orderFiltersSchema = z.object({
+  status: optional(orderStatusSchema),
+  // Dhaka calendar days, both inclusive
+  from: optional(day),
+  to: optional(day),
+  paymentMethod: optional(z.enum(PAYMENT_METHOD_IDS)),
+  city: optional(z.string().trim().max(100)),
+  // Part of an order number or a phone number
+  q: optional(z.string().trim().max(100)),
+  page: optional(z.coerce.number().int().min(1)),
+});
+
+export type OrderFilters = z.infer<typeof orderFiltersSchema>;
+
+export const statusChangeSchema = z.object({
+  status: orderStatusSchema,
+  note: optional(
+    z.string().trim().max(500, "Keep the note under 500 characters")
+  ),
+});
+
+// Clearing a field removes it from the order
+const shipmentField = (max: number) =>
+  z
+    .string()
+    .trim()
+    .max(max, `Keep this under ${max} characters`)
+    .transform((value) => value || null);
+
+export const shipmentSchema = z.object({
+  courier: optional(
+    z.enum(COURIER_IDS, {
+      errorMap: () => ({ message: "Choose a courier from the list" }),
+    })
+  ).transform((value) => value ?? null),
+  trackingNumber: shipmentField(100),
+});
+
+export const orderNoteSchema = z.object({
+  body: z
+    .string()
+    .trim()
+    .min(1, "Write a note first")
+    .max(2000, "Keep the note under 2000 characters"),
+});
+
+export const staffOrderInclude = {
+  ...orderDetailsInclude,
+  user: { select: { email: true } },
+  statusEvents: {
+    orderBy: { createdAt: "asc" },
+    include: { actor: { select: { fullName: true } } },
+  },
+  staffNotes: {
+    orderBy: { createdAt: "asc" },
+    include: { author: { select: { fullName: true } } },
+  },
+} satisfies Prisma.OrderInclude;
+
+export const buildOrderFilterWhere = (
+  filters: OrderFilters
+): Prisma.OrderWhereInput => {
+  const where: Prisma.OrderWhereInput[] = [];
+
+  if (filters.status) {
+    where.push({ status: filters.status });
+  }
+
+  if (filters.from) {
+    where.push({ placedOn: { gte: startOfDeliveryDay(filters.from) } });
+  }
+
+  if (filters.to) {
+    where.push({
+      placedOn: {
+        lt: new Date(startOfDeliveryDay(filters.to).getTime() + DAY_MS),
+      },
+    });
+  }
+
+  // Orders keep the method's title, as shown to the customer at checkout
+  if (filters.paymentMethod) {
+    where.push({
+      paymentMethod: findPaymentMethod(filters.paymentMethod)?.title,
+    });
+  }
+
+  if (filters.city) {
+    where.push({
+      shippingCity: { contains: filters.city, mode: "insensitive" },
+    });
+  }
+
+  if (filters.q) {
+    where.push({
+      OR: [
+        { orderNumber: { contains: filters.q, mode: "insensitive" } },
+        { shippingPhone: { contains: filters.q } },
+      ],
+    });
+  }
+
+  return { AND: where };
+};
+
+export const listStaffOrders = async (filters: OrderFilters) => {
+  const where = buildOrderFilterWhere(filters);
+  const page = filters.page ?? 1;
+  const [orders, total] = await prisma.$transaction([
+    prisma.order.findMany({
+      where,
+      orderBy: { placedOn: "desc" },
+      skip: (page - 1) * ADMIN_ORDERS_PAGE_SIZE,
+      take: ADMIN_ORDERS_PAGE_SIZE,
+    }),
+    prisma.order.count({ where }),
+  ]);
+
+  return {
+    orders: orders.map(serializeStaffOrderSummary),
+    page,
+    pageCount: Math.max(1, Math.ceil(total / ADMIN_ORDERS_PAGE_SIZE)),
+    total,
+  };
+};
+
+export const getStaffOrder = async (orderNumber: string) => {
+  const order = await prisma.order.findUnique({
+    where: { orderNumber },
+    include: staffOrderInclude,
+  });
+
+  return order ? serializeStaffOrder(order) : null;
+};
+
+const findOrderId = async (
+  tx: Prisma.TransactionClient,
+  orderNumber: string
+) => {
+  const order = await tx.order.findUnique({
+    where: { orderNumber },
+    select: { id: true },
+  });
+
+  if (!order) {
+    throw new OrderNotFoundError(orderNumber);
+  }
+
+  return order.id;
+};
+
+const loadStaffOrder = async (tx: Prisma.TransactionClient, orderId: string) =>
+  serializeStaffOrder(
+    await tx.order.findUniqueOrThrow({
+      where: { id: orderId },
+      include: staffOrderInclude,
+    })
+  );
+
+export const changeStaffOrderStatus = async (
+  orderNumber: string,
+  staffId: string,
+  change: z.infer<typeof statusChangeSchema>
+) => {
+  const order = await prisma.$transaction(async (tx) => {
+    const orderId = await findOrderId(tx, orderNumber);
+
+    await transitionOrderStatus(
+      tx,
+      orderId,
+      change.status,
+      { type: "staff", userId: staffId },
+      change.note
+    );
+
+    return loadStaffOrder(tx, orderId);
+  });
+
+  await publishOrderStatus(order.id);
+
+  return order;
+};
+
+export const updateOrderShipment = (
+  orderNumber: string,
+  shipment: z.infer<typeof shipmentSchema>
+) =>
+  prisma.$transaction(async (tx) => {
+    const orderId = await findOrderId(tx, orderNumber);
+
+    await tx.order.update({ where: { id: orderId }, data: shipment });
+
+    return loadStaffOrder(tx, orderId);
+  });
+
+export const addOrderNote = (
+  orderNumber: string,
+  authorId: string,
+  body: string
+) =>
+  prisma.$transaction(async (tx) => {
+    const orderId = await findOrderId(tx, orderNumber);
+
+    await tx.orderNote.create({ data: { orderId, authorId, body } });
+
+    return loadStaffOrder(tx, orderId);
+  });
@@ -1,9 +1,12 @@
 import { randomUUID } from "crypto";
 import { cookies } from "next/headers";
+import { notFound, redirect } from "next/navigation";
 import { NextResponse } from "next/server";
+import type { User } from "@prisma/client";
+import { SESSION_COOKIE_NAME } from "./constants";
+import { type Permission, hasPermission, isStaffRole } from "./permissions";
 import { prisma } from "./prisma";
 
-export const SESSION_COOKIE_NAME = "tsr_session";
 const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
 
 type SessionPayload = {
@@ -89,3 +92,36 @@ export const requireCurrentUser = async () => {
 
   return user;
 };
+
+export const isStaff = (user: Pick<User, "role">) => isStaffRole(user.role);
+
+export const requirePermission = async (permission: Permission) => {
+  const maybeUser = await requireCurrentUser();
+
+  if (maybeUser instanceof NextResponse) {
+    return maybeUser;
+  }
+
+  if (!hasPermission(maybeUser.role, permission)) {
+    return NextResponse.json({ message: "Forbidden" }, { status: 403 });
+  }
+
+  return maybeUser;
+};
+
+// The page version of requirePermission. Each back-office page calls it
+// before loading anything, since the admin layout renders alongside the page
+// and can't keep its data from being fetched.
+export const requirePagePermission = async (permission: Permission) => {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    redirect("/login");
+  }
+
+  if (!hasPermission(user.role, permission)) {
+    notFound();
+  }
+
+  return user;
+};
@@ -1,111 +1,940 @@
+import type { RefinementCtx } from "zod";
+
+export type BangladeshThana = {
+  id: string;
+  name: string;
+  postalCodes: string[];
+};
+
+export type BangladeshDistrict = {
+  id: string;
+  name: string;
+  thanas: BangladeshThana[];
+};
+
 export type BangladeshDivision = {
+  id: string;
   name: string;
-  cities: string[];
+  districts: BangladeshDistrict[];
+};
+
+export type LocationSelection = {
+  divisionId: string;
+  districtId: string;
+  thanaId: string;
 };
 
+const thana = (
+  id: string,
+  name: string,
+  ...postalCodes: string[]
+): BangladeshThana => ({ id, name, postalCodes });
+
 export const bangladeshDivisions: BangladeshDivision[] = [
   {
+    id: "dhaka",
     name: "Dhaka",
-    cities: [
-      "Dhaka",
-      "Gazipur",
-      "Narayanganj",
-      "Tangail",
-      "Manikganj",
-      "Munshiganj",
-      "Narsingdi",
-      "Kishoreganj",
-      "Faridpur",
-      "Mymensingh",
-      "Jamalpur",
-      "Sherpur",
-      "Netrokona",
+    districts: [
+      {
+        id: "dhaka",
+        name: "Dhaka",
+        thanas: [
+          thana("dhaka-adabor", "Adabor", "1207"),
+          thana("dhaka-airport", "Airport", "1229"),
+          thana("dhaka-badda", "Badda", "1212"),
+          thana("dhaka-banani", "Banani", "1213"),
+          thana("dhaka-bangshal", "Bangshal", "1100"),
+          thana("dhaka-bhashantek", "Bhashantek", "1206"),
+          thana("dhaka-cantonment", "Cantonment", "1206"),
+          thana("dhaka-chawkbazar", "Chawkbazar", "1211"),
+          thana("dhaka-dakshinkhan", "Dakshinkhan", "1230"),
+          thana("dhaka-darus-salam", "Darus Salam", "1216"),
+          thana("dhaka-demra", "Demra", "1360"),
+          thana("dhaka-dhamrai", "Dhamrai", "1350"),
+          thana("dhaka-dhanmondi", "Dhanmondi", "1205", "1209"),
+          thana("dhaka-dohar", "Dohar", "1330"),
+          thana("dhaka-gendaria", "Gendaria", "1204"),
+          thana("dhaka-gulshan", "Gulshan", "1212"),
+          thana("dhaka-hatirjheel", "Hatirjheel", "1217"),
+          thana("dhaka-hazaribagh", "Hazaribagh", "1209"),
+          thana("dhaka-jatrabari", "Jatrabari", "1204"),
+          thana("dhaka-kadamtali", "Kadamtali", "1204", "1236"),
+          thana("dhaka-kafrul", "Kafrul", "1206"),
+          thana("dhaka-kalabagan", "Kalabagan", "1205"),
+          thana("dhaka-kamrangirchar", "Kamrangirchar", "1211"),
+          thana("dhaka-keraniganj", "Keraniganj", "1310"),
+          thana("dhaka-khilgaon", "Khilgaon", "1219"),
+          thana("dhaka-khilkhet", "Khilkhet", "1229"),
+          thana("dhaka-kotwali", "Kotwali", "1100"),
+          thana("dhaka-lalbagh", "Lalbagh", "1211"),
+          thana("dhaka-mirpur", "Mirpur", "1216"),
+          thana("dhaka-mohammadpur", "Mohammadpur", "1207"),
+          thana("dhaka-motijheel", "Motijheel", "1000"),
+          thana("dhaka-mugda", "Mugda", "1214"),
+          thana("dhaka-nawabganj", "Nawabganj", "1320"),
+          thana("dhaka-new-market", "New Market", "1205"),
+          thana("dhaka-pallabi", "Pallabi", "1216"),
+          thana("dhaka-paltan", "Paltan", "1000"),
+          thana("dhaka-ramna", "Ramna", "1000", "1217"),
+          thana("dhaka-rampura", "Rampura", "1219"),
+          thana("dhaka-rupnagar", "Rupnagar", "1216"),
+          thana("dhaka-sabujbagh", "Sabujbagh", "1214"),
+          thana("dhaka-savar", "Savar", "1340", "1341", "1343", "1344", "1349"),
+          thana("dhaka-shah-ali", "Shah Ali", "1216"),
+          thana("dhaka-shahbagh", "Shahbagh", "1000"),
+          thana("dhaka-shahjahanpur", "Shahjahanpur", "1217"),
+          thana("dhaka-sher-e-bangla-nagar", "Sher-e-Bangla Nagar", "1207"),
+          thana("dhaka-shyampur", "Shyampur", "1204"),
+          thana("dhaka-sutrapur", "Sutrapur", "1100"),
+          thana("dhaka-tejgaon", "Tejgaon", "1208", "1215"),
+          thana(
+            "dhaka-tejgaon-industrial-area",
+            "Tejgaon Industrial Area",
+            "1208"
+          ),
+          thana("dhaka-turag", "Turag", "1230"),
+          thana("dhaka-uttara", "Uttara", "1230"),
+          thana("dhaka-uttarkhan", "Uttarkhan", "1230"),
+          thana("dhaka-vatara", "Vatara", "1212", "1229"),
+          thana("dhaka-wari", "Wari", "1203"),
+        ],
+      },
+      {
+        id: "gazipur",
+        name: "Gazipur",
+        thanas: [
+          thana("gazipur-sadar", "Gazipur Sadar", "1700", "1702"),
+          thana("gazipur-kaliakair", "Kaliakair", "1750"),
+          thana("gazipur-kaliganj", "Kaliganj", "1720"),
+          thana("gazipur-kapasia", "Kapasia", "1730"),
+          thana("gazipur-sreepur", "Sreepur", "1740"),
+          thana("gazipur-tongi", "Tongi", "1710", "1711", "1712"),
+        ],
+      },
+      {
+        id: "narayanganj",
+        name: "Narayanganj",
+        thanas: [
+          thana("narayanganj-sadar", "Narayanganj Sadar", "1400"),
+          thana("narayanganj-araihazar", "Araihazar", "1450"),
+          thana("narayanganj-bandar", "Bandar", "1410"),
+          thana("narayanganj-fatullah", "Fatullah", "1420", "1421"),
+          thana("narayanganj-rupganj", "Rupganj", "1460"),
+          thana(
+            "narayanganj-siddhirganj",
+            "Siddhirganj",
+            "1430",
+            "1431",
+            "1432"
+          ),
+          thana("narayanganj-sonargaon", "Sonargaon", "1440"),
+        ],
+      },
+      {
+        id: "narsingdi",
+        name: "Narsingdi",
+        thanas: [
+          thana("narsingdi-sadar", "Narsingdi Sadar", "1600"),
+          thana("narsingdi-belabo", "Belabo", "1640"),
+          thana("narsingdi-monohardi", "Monohardi", "1650"),
+          thana("narsingdi-palash", "Palash", "1610"),
+          thana("narsingdi-raipura", "Raipura", "1630"),
+          thana("narsingdi-shibpur", "Shibpur", "1620"),
+        ],
+      },
+      {
+        id: "manikganj",
+        name: "Manikganj",
+        thanas: [
+          thana("manikganj-sadar", "Manikganj Sadar", "1800"),
+          thana("manikganj-ghior", "Ghior", "1840"),
+          thana("manikganj-harirampur", "Harirampur", "1830"),
+          thana("manikganj-saturia", "Saturia", "1810"),
+          thana("manikganj-shibalaya", "Shibalaya", "1850"),
+          thana("manikganj-singair", "Singair", "1820"),
+        ],
+      },
+      {
+        id: "munshiganj",
+        name: "Munshiganj",
+        thanas: [
+          thana("munshiganj-sadar", "Munshiganj Sadar", "1500"),
+          thana("munshiganj-gazaria", "Gazaria", "1510"),
+          thana("munshiganj-lohajang", "Lohajang", "1530"),
+          thana("munshiganj-sirajdikhan", "Sirajdikhan", "1540"),
+          thana("munshiganj-sreenagar", "Sreenagar", "1550"),
+          thana("munshiganj-tongibari", "Tongibari", "1520"),
+        ],
+      },
+      {
+        id: "tangail",
+        name: "Tangail",
+        thanas: [
+          thana("tangail-sadar", "Tangail Sadar", "1900"),
+          thana("tangail-ghatail", "Ghatail", "1980"),
+          thana("tangail-kalihati", "Kalihati", "1970"),
+          thana("tangail-madhupur", "Madhupur", "1996"),
+          thana("tangail-mirzapur", "Mirzapur", "1940"),
+          thana("tangail-sakhipur", "Sakhipur", "1950"),
+        ],
+      },
+      {
+        id: "kishoreganj",
+        name: "Kishoreganj",
+        thanas: [
+          thana("kishoreganj-sadar", "Kishoreganj Sadar", "2300"),
+          thana("kishoreganj-bajitpur", "Bajitpur", "2336"),
+          thana("kishoreganj-bhairab", "Bhairab", "2350"),
+          thana("kishoreganj-hossainpur", "Hossainpur", "2320"),
+          thana("kishoreganj-kuliarchar", "Kuliarchar", "2340"),
+        ],
+      },
+      {
+        id: "faridpur",
+        name: "Faridpur",
+        thanas: [
+          thana("faridpur-sadar", "Faridpur Sadar", "7800"),
+          thana("faridpur-bhanga", "Bhanga", "7830"),
+          thana("faridpur-boalmari", "Boalmari", "7860"),
+          thana("faridpur-madhukhali", "Madhukhali", "7850"),
+        ],
+      },
+      {
+        id: "gopalganj",
+        name: "Gopalganj",
+        thanas: [
+          thana("gopalganj-sadar", "Gopalganj Sadar", "8100"),
+          thana("gopalganj-kashiani", "Kashiani", "8130"),
+          thana("gopalganj-kotalipara", "Kotalipara", "8110"),
+          thana("gopalganj-muksudpur", "Muksudpur", "8140"),
+          thana("gopalganj-tungipara", "Tungipara", "8120"),
+        ],
+      },
+      {
+        id: "madaripur",
+        name: "Madaripur",
+        thanas: [
+          thana("madaripur-sadar", "Madaripur Sadar", "7900"),
+          thana("madaripur-kalkini", "Kalkini", "7920"),
+          thana("madaripur-rajoir", "Rajoir", "7910"),
+          thana("madaripur-shibchar", "Shibchar", "7930"),
+        ],
+      },
+      {
+        id: "rajbari",
+        name: "Rajbari",
+        thanas: [
+          thana("rajbari-sadar", "Rajbari Sadar", "7700"),
+          thana("rajbari-baliakandi", "Baliakandi", "7730"),
+          thana("rajbari-goalanda", "Goalanda", "7710"),
+          thana("rajbari-pangsha", "Pangsha", "7720"),
+        ],
+      },
+      {
+        id: "shariatpur",
+        name: "Shariatpur",
+        thanas: [
+          thana("shariatpur-sadar", "Shariatpur Sadar", "8000"),
+          thana("shariatpur-bhedarganj", "Bhedarganj", "8030"),
+          thana("shariatpur-damudya", "Damudya", "8040"),
+          thana("shariatpur-gosairhat", "Gosairhat", "8050"),
+          thana("shariatpur-naria", "Naria", "8020"),
+          thana("shariatpur-zajira", "Zajira", "8010"),
+        ],
+      },
     ],
   },
   {
+    id: "chattogram",
     name: "Chattogram",
-    cities: [
-      "Chattogram",
-      "Cox's Bazar",
-      "Rangamati",
-      "Bandarban",
-      "Khagrachari",
-      "Feni",
-      "Noakhali",
-      "Laxmipur",
-      "Comilla",
-      "Brahmanbaria",
-      "Chandpur",
+    districts: [
+      {
+        id: "chattogram",
+        name: "Chattogram",
+        thanas: [
+          thana("chattogram-anwara", "Anwara", "4376"),
+          thana("chattogram-bakalia", "Bakalia", "4206"),
+          thana("chattogram-bayezid", "Bayezid Bostami", "4210"),
+          thana("chattogram-chandgaon", "Chandgaon", "4212"),
+          thana("chattogram-double-mooring", "Double Mooring", "4100"),
+          thana("chattogram-halishahar", "Halishahar", "4216"),
+          thana("chattogram-hathazari", "Hathazari", "4330"),
+          thana("chattogram-kotwali", "Kotwali", "4000"),
+          thana("chattogram-pahartali", "Pahartali", "4202"),
+          thana("chattogram-panchlaish", "Panchlaish", "4203"),
+          thana("chattogram-patenga", "Patenga", "4204"),
+          thana("chattogram-patiya", "Patiya", "4370"),
+          thana("chattogram-raozan", "Raozan", "4340"),
+          thana("chattogram-sitakunda", "Sitakunda", "4310"),
+        ],
+      },
+      {
+        id: "coxs-bazar",
+        name: "Cox's Bazar",
+        thanas: [
+          thana("coxs-bazar-sadar", "Cox's Bazar Sadar", "4700"),
+          thana("coxs-bazar-chakaria", "Chakaria", "4740"),
+          thana("coxs-bazar-maheshkhali", "Maheshkhali", "4710"),
+          thana("coxs-bazar-ramu", "Ramu", "4730"),
+          thana("coxs-bazar-teknaf", "Teknaf", "4760"),
+          thana("coxs-bazar-ukhia", "Ukhia", "4750"),
+        ],
+      },
+      {
+        id: "comilla",
+        name: "Comilla",
+        thanas: [
+          thana("comilla-sadar", "Comilla Sadar", "3500"),
+          thana("comilla-burichang", "Burichang", "3520"),
+          thana("comilla-chauddagram", "Chauddagram", "3550"),
+          thana("comilla-daudkandi", "Daudkandi", "3516"),
+          thana("comilla-debidwar", "Debidwar", "3530"),
+          thana("comilla-laksam", "Laksam", "3570"),
+        ],
+      },
+      {
+        id: "brahmanbaria",
+        name: "Brahmanbaria",
+        thanas: [
+          thana("brahmanbaria-sadar", "Brahmanbaria Sadar", "3400"),
+          thana("brahmanbaria-akhaura", "Akhaura", "3450"),
+          thana("brahmanbaria-ashuganj", "Ashuganj", "3402"),
+          thana("brahmanbaria-kasba", "Kasba", "3460"),
+          thana("brahmanbaria-nabinagar", "Nabinagar", "3410"),
+          thana("brahmanbaria-sarail", "Sarail", "3430"),
+        ],
+      },
+      {
+        id: "chandpur",
+        name: "Chandpur",
+        thanas: [
+          thana("chandpur-sadar", "Chandpur Sadar", "3600"),
+          thana("chandpur-faridganj", "Faridganj", "3650"),
+          thana("chandpur-hajiganj", "Hajiganj", "3610"),
+          thana("chandpur-kachua", "Kachua", "3630"),
+          thana("chandpur-matlab", "Matlab", "3640"),
+        ],
+      },
+      {
+        id: "feni",
+        name: "Feni",
+        thanas: [
+          thana("feni-sadar", "Feni Sadar", "3900"),
+          thana("feni-chhagalnaiya", "Chhagalnaiya", "3910"),
+          thana("feni-daganbhuiyan", "Daganbhuiyan", "3920"),
+          thana("feni-parshuram", "Parshuram", "3940"),
+          thana("feni-sonagazi", "Sonagazi", "3930"),
+        ],
+      },
+      {
+        id: "noakhali",
+        name: "Noakhali",
+        thanas: [
+          thana("noakhali-sadar", "Noakhali Sadar", "3800"),
+          thana("noakhali-begumganj", "Begumganj", "3820"),
+          thana("noakhali-chatkhil", "Chatkhil", "3870"),
+          thana("noakhali-companiganj", "Companiganj", "3850"),
+          thana("noakhali-hatiya", "Hatiya", "3890"),
+          thana("noakhali-senbag", "Senbag", "3860"),
+        ],
+      },
+      {
+        id: "laxmipur",
+        name: "Laxmipur",
+        thanas: [
+          thana("laxmipur-sadar", "Laxmipur Sadar", "3700"),
+          thana("laxmipur-raipur", "Raipur", "3710"),
+          thana("laxmipur-ramganj", "Ramganj", "3720"),
+          thana("laxmipur-ramgati", "Ramgati", "3730"),
+        ],
+      },
+      {
+        id: "rangamati",
+        name: "Rangamati",
+        thanas: [
+          thana("rangamati-sadar", "Rangamati Sadar", "4500"),
+          thana("rangamati-kaptai", "Kaptai", "4530"),
+          thana("rangamati-kawkhali", "Kawkhali", "4510"),
+        ],
+      },
+      {
+        id: "khagrachari",
+        name: "Khagrachari",
+        thanas: [
+          thana("khagrachari-sadar", "Khagrachari Sadar", "4400"),
+          thana("khagrachari-dighinala", "Dighinala", "4420"),
+          thana("khagrachari-matiranga", "Matiranga", "4450"),
+          thana("khagrachari-panchhari", "Panchhari", "4410"),
+          thana("khagrachari-ramgarh", "Ramgarh", "4440"),
+        ],
+      },
+      {
+        id: "bandarban",
+        name: "Bandarban",
+        thanas: [
+          thana("bandarban-sadar", "Bandarban Sadar", "4600"),
+          thana("bandarban-lama", "Lama", "4641"),
+          thana("bandarban-ruma", "Ruma", "4610"),
+          thana("bandarban-thanchi", "Thanchi", "4630"),
+        ],
+      },
     ],
   },
   {
+    id: "rajshahi",
     name: "Rajshahi",
-    cities: [
-      "Rajshahi",
-      "Pabna",
-      "Sirajganj",
-      "Bogra",
-      "Joypurhat",
-      "Naogaon",
-      "Natore",
-      "Chapainawabganj",
+    districts: [
+      {
+        id: "rajshahi",
+        name: "Rajshahi",
+        thanas: [
+          thana("rajshahi-boalia", "Boalia", "6000", "6100"),
+          thana("rajshahi-godagari", "Godagari", "6290"),
+          thana("rajshahi-motihar", "Motihar", "6204", "6205", "6206"),
+          thana("rajshahi-paba", "Paba", "6210"),
+          thana("rajshahi-puthia", "Puthia", "6260"),
+        ],
+      },
+      {
+        id: "bogra",
+        name: "Bogra",
+        thanas: [
+          thana("bogra-sadar", "Bogra Sadar", "5800"),
+          thana("bogra-dhunat", "Dhunat", "5850"),
+          thana("bogra-gabtali", "Gabtali", "5820"),
+          thana("bogra-sherpur", "Sherpur", "5840"),
+          thana("bogra-shibganj", "Shibganj", "5810"),
+        ],
+      },
+      {
+        id: "pabna",
+        name: "Pabna",
+        thanas: [
+          thana("pabna-sadar", "Pabna Sadar", "6600"),
+          thana("pabna-bera", "Bera", "6680"),
+          thana("pabna-chatmohar", "Chatmohar", "6630"),
+          thana("pabna-ishwardi", "Ishwardi", "6620"),
+          thana("pabna-santhia", "Santhia", "6670"),
+          thana("pabna-sujanagar", "Sujanagar", "6660"),
+        ],
+      },
+      {
+        id: "sirajganj",
+        name: "Sirajganj",
+        thanas: [
+          thana("sirajganj-sadar", "Sirajganj Sadar", "6700"),
+          thana("sirajganj-belkuchi", "Belkuchi", "6740"),
+          thana("sirajganj-kazipur", "Kazipur", "6710"),
+          thana("sirajganj-raiganj", "Raiganj", "6720"),
+          thana("sirajganj-shahjadpur", "Shahjadpur", "6770"),
+          thana("sirajganj-ullapara", "Ullapara", "6760"),
+        ],
+      },
+      {
+        id: "naogaon",
+        name: "Naogaon",
+        thanas: [
+          thana("naogaon-sadar", "Naogaon Sadar", "6500"),
+          thana("naogaon-dhamoirhat", "Dhamoirhat", "6580"),
+          thana("naogaon-mahadebpur", "Mahadebpur", "6530"),
+          thana("naogaon-manda", "Manda", "6510"),
+          thana("naogaon-patnitala", "Patnitala", "6540"),
+        ],
+      },
+      {
+        id: "natore",
+        name: "Natore",
+        thanas: [
+          thana("natore-sadar", "Natore Sadar", "6400"),
+          thana("natore-baraigram", "Baraigram", "6430"),
+          thana("natore-gurudaspur", "Gurudaspur", "6440"),
+          thana("natore-lalpur", "Lalpur", "6420"),
+          thana("natore-singra", "Singra", "6450"),
+        ],
+      },
+      {
+        id: "joypurhat",
+        name: "Joypurhat",
+        thanas: [
+          thana("joypurhat-sadar", "Joypurhat Sadar", "5900"),
+          thana("joypurhat-akkelpur", "Akkelpur", "5940"),
+          thana("joypurhat-kalai", "Kalai", "5930"),
+          thana("joypurhat-khetlal", "Khetlal", "5920"),
+          thana("joypurhat-panchbibi", "Panchbibi", "5910"),
+        ],
+      },
+      {
+        id: "chapainawabganj",
+        name: "Chapainawabganj",
+        thanas: [
+          thana("chapainawabganj-sadar", "Chapainawabganj Sadar", "6300"),
+          thana("chapainawabganj-bholahat", "Bholahat", "6330"),
+          thana("chapainawabganj-gomastapur", "Gomastapur", "6320"),
+          thana("chapainawabganj-nachole", "Nachole", "6310"),
+          thana("chapainawabganj-shibganj", "Shibganj", "6340"),
+        ],
+      },
     ],
   },
   {
+    id: "khulna",
     name: "Khulna",
-    cities: [
-      "Khulna",
-      "Jessore",
-      "Jhenaidah",
-      "Magura",
-      "Narail",
-      "Kushtia",
-      "Chuadanga",
-      "Meherpur",
-      "Bagerhat",
-      "Satkhira",
+    districts: [
+      {
+        id: "khulna",
+        name: "Khulna",
+        thanas: [
+          thana("khulna-sadar", "Khulna Sadar", "9100"),
+          thana("khulna-daulatpur", "Daulatpur", "9202", "9203"),
+          thana("khulna-dumuria", "Dumuria", "9250"),
+          thana("khulna-khalishpur", "Khalishpur", "9000"),
+          thana("khulna-phultala", "Phultala", "9210"),
+          thana("khulna-sonadanga", "Sonadanga", "9100"),
+        ],
+      },
+      {
+        id: "jessore",
+        name: "Jessore",
+        thanas: [
+          thana("jessore-sadar", "Jessore Sadar", "7400"),
+          thana("jessore-abhaynagar", "Abhaynagar", "7460"),
+          thana("jessore-chaugachha", "Chaugachha", "7410"),
+          thana("jessore-jhikargachha", "Jhikargachha", "7420"),
+          thana("jessore-keshabpur", "Keshabpur", "7450"),
+          thana("jessore-manirampur", "Manirampur", "7440"),
+          thana("jessore-sharsha", "Sharsha", "7430", "7431"),
+        ],
+      },
+      {
+        id: "satkhira",
+        name: "Satkhira",
+        thanas: [
+          thana("satkhira-sadar", "Satkhira Sadar", "9400"),
+          thana("satkhira-assasuni", "Assasuni", "9460"),
+          thana("satkhira-kalaroa", "Kalaroa", "9410"),
+          thana("satkhira-kaliganj", "Kaliganj", "9440"),
+          thana("satkhira-shyamnagar", "Shyamnagar", "9450"),
+          thana("satkhira-tala", "Tala", "9420"),
+        ],
+      },
+      {
+        id: "bagerhat",
+        name: "Bagerhat",
+        thanas: [
+          thana("bagerhat-sadar", "Bagerhat Sadar", "9300"),
+          thana("bagerhat-fakirhat", "Fakirhat", "9370"),
+          thana("bagerhat-mongla", "Mongla", "9351"),
+          thana("bagerhat-morrelganj", "Morrelganj", "9320"),
+          thana("bagerhat-rampal", "Rampal", "9340"),
+        ],
+      },
+      {
+        id: "kushtia",
+        name: "Kushtia",
+        thanas: [
+          thana("kushtia-sadar", "Kushtia Sadar", "7000"),
+          thana("kushtia-bheramara", "Bheramara", "7040"),
+          thana("kushtia-daulatpur", "Daulatpur", "7050"),
+          thana("kushtia-khoksa", "Khoksa", "7020"),
+          thana("kushtia-kumarkhali", "Kumarkhali", "7010"),
+          thana("kushtia-mirpur", "Mirpur", "7030"),
+        ],
+      },
+      {
+        id: "jhenaidah",
+        name: "Jhenaidah",
+        thanas: [
+          thana("jhenaidah-sadar", "Jhenaidah Sadar", "7300"),
+          thana("jhenaidah-harinakunda", "Harinakunda", "7310"),
+          thana("jhenaidah-kaliganj", "Kaliganj", "7350"),
+          thana("jhenaidah-kotchandpur", "Kotchandpur", "7330"),
+          thana("jhenaidah-maheshpur", "Maheshpur", "7340"),
+          thana("jhenaidah-shailkupa", "Shailkupa", "7320"),
+        ],
+      },
+      {
+        id: "magura",
+        name: "Magura",
+        thanas: [
+          thana("magura-sadar", "Magura Sadar", "7600"),
+          thana("magura-mohammadpur", "Mohammadpur", "7630"),
+          thana("magura-shalikha", "Shalikha", "7620"),
+          thana("magura-sreepur", "Sreepur", "7610"),
+        ],
+      },
+      {
+        id: "narail",
+        name: "Narail",
+        thanas: [
+          thana("narail-sadar", "Narail Sadar", "7500"),
+          thana("narail-kalia", "Kalia", "7520"),
+          thana("narail-lohagara", "Lohagara", "7511"),
+        ],
+      },
+      {
+        id: "chuadanga",
+        name: "Chuadanga",
+        thanas: [
+          thana("chuadanga-sadar", "Chuadanga Sadar", "7200"),
+          thana("chuadanga-alamdanga", "Alamdanga", "7210"),
+          thana("chuadanga-damurhuda", "Damurhuda", "7220"),
+          thana("chuadanga-jibannagar", "Jibannagar", "7230"),
+        ],
+      },
+      {
+        id: "meherpur",
+        name: "Meherpur",
+        thanas: [
+          thana("meherpur-sadar", "Meherpur Sadar", "7100"),
+          thana("meherpur-gangni", "Gangni", "7110"),
+        ],
+      },
     ],
   },
   {
+    id: "barishal",
     name: "Barishal",
-    cities: [
-      "Barishal",
-      "Bhola",
-      "Patuakhali",
-      "Pirojpur",
-      "Jhalokathi",
-      "Barguna",
+    districts: [
+      {
+        id: "barishal",
+        name: "Barishal",
+        thanas: [
+          thana("barishal-sadar", "Barishal Sadar", "8200"),
+          thana("barishal-babuganj", "Babuganj", "8210"),
+          thana("barishal-bakerganj", "Bakerganj", "8280"),
+          thana("barishal-gournadi", "Gournadi", "8230"),
+          thana("barishal-mehendiganj", "Mehendiganj", "8270"),
+          thana("barishal-muladi", "Muladi", "8250"),
+        ],
+      },
+      {
+        id: "bhola",
+        name: "Bhola",
+        thanas: [
+          thana("bhola-sadar", "Bhola Sadar", "8300"),
+          thana("bhola-borhanuddin", "Borhanuddin", "8320"),
+          thana("bhola-char-fasson", "Char Fasson", "8340"),
+          thana("bhola-daulatkhan", "Daulatkhan", "8310"),
+          thana("bhola-lalmohan", "Lalmohan", "8330"),
+        ],
+      },
+      {
+        id: "patuakhali",
+        name: "Patuakhali",
+        thanas: [
+          thana("patuakhali-sadar", "Patuakhali Sadar", "8600"),
+          thana("patuakhali-bauphal", "Bauphal", "8620"),
+          thana("patuakhali-galachipa", "Galachipa", "8640"),
+          thana("patuakhali-kalapara", "Kalapara", "8650", "8651"),
+        ],
+      },
+      {
+        id: "pirojpur",
+        name: "Pirojpur",
+        thanas: [
+          thana("pirojpur-sadar", "Pirojpur Sadar", "8500"),
+          thana("pirojpur-bhandaria", "Bhandaria", "8550"),
+          thana("pirojpur-mathbaria", "Mathbaria", "8560"),
+          thana("pirojpur-nazirpur", "Nazirpur", "8540"),
+          thana("pirojpur-nesarabad", "Nesarabad", "8520"),
+        ],
+      },
+      {
+        id: "jhalokathi",
+        name: "Jhalokathi",
+        thanas: [
+          thana("jhalokathi-sadar", "Jhalokathi Sadar", "8400"),
+          thana("jhalokathi-kathalia", "Kathalia", "8430"),
+          thana("jhalokathi-nalchity", "Nalchity", "8420"),
+          thana("jhalokathi-rajapur", "Rajapur", "8410"),
+        ],
+      },
+      {
+        id: "barguna",
+        name: "Barguna",
+        thanas: [
+          thana("barguna-sadar", "Barguna Sadar", "8700"),
+          thana("barguna-amtali", "Amtali", "8710"),
+          thana("barguna-bamna", "Bamna", "8730"),
+          thana("barguna-betagi", "Betagi", "8740"),
+          thana("barguna-patharghata", "Patharghata", "8720"),
+        ],
+      },
     ],
   },
   {
+    id: "sylhet",
     name: "Sylhet",
-    cities: [
-      "Sylhet",
-      "Habiganj",
-      "Moulvibazar",
-      "Sunamganj",
+    districts: [
+      {
+        id: "sylhet",
+        name: "Sylhet",
+        thanas: [
+          thana("sylhet-sadar", "Sylhet Sadar", "3100"),
+          thana("sylhet-beanibazar", "Beanibazar", "3170"),
+          thana("sylhet-bishwanath", "Bishwanath", "3130"),
+          thana("sylhet-companiganj", "Companiganj", "3140"),
+          thana("sylhet-golapganj", "Golapganj", "3160"),
+          thana("sylhet-jaintiapur", "Jaintiapur", "3156"),
+          thana("sylhet-zakiganj", "Zakiganj", "3190"),
+        ],
+      },
+      {
+        id: "moulvibazar",
+        name: "Moulvibazar",
+        thanas: [
+          thana("moulvibazar-sadar", "Moulvibazar Sadar", "3200"),
+          thana("moulvibazar-barlekha", "Barlekha", "3250"),
+          thana("moulvibazar-kamalganj", "Kamalganj", "3220"),
+          thana("moulvibazar-kulaura", "Kulaura", "3230"),
+          thana("moulvibazar-rajnagar", "Rajnagar", "3240"),
+          thana("moulvibazar-sreemangal", "Sreemangal", "3210"),
+        ],
+      },
+      {
+        id: "habiganj",
+        name: "Habiganj",
+        thanas: [
+          thana("habiganj-sadar", "Habiganj Sadar", "3300"),
+          thana("habiganj-bahubal", "Bahubal", "3310"),
+          thana("habiganj-baniachong", "Baniachong", "3350"),
+          thana("habiganj-chunarughat", "Chunarughat", "3320"),
+          thana("habiganj-madhabpur", "Madhabpur", "3330"),
+          thana("habiganj-nabiganj", "Nabiganj", "3370"),
+        ],
+      },
+      {
+        id: "sunamganj",
+        name: "Sunamganj",
+        thanas: [
+          thana("sunamganj-sadar", "Sunamganj Sadar", "3000"),
+          thana("sunamganj-chhatak", "Chhatak", "3080"),
+          thana("sunamganj-derai", "Derai", "3040"),
+          thana("sunamganj-jagannathpur", "Jagannathpur", "3060"),
+          thana("sunamganj-tahirpur", "Tahirpur", "3030"),
+        ],
+      },
     ],
   },
   {
+    id: "rangpur",
     name: "Rangpur",
-    cities: [
-      "Rangpur",
-      "Dinajpur",
-      "Thakurgaon",
-      "Panchagarh",
-      "Nilphamari",
-      "Lalmonirhat",
-      "Kurigram",
-      "Gaibandha",
+    districts: [
+      {
+        id: "rangpur",
+        name: "Rangpur",
+        thanas: [
+          thana("rangpur-sadar", "Rangpur Sadar", "5400"),
+          thana("rangpur-badarganj", "Badarganj", "5430"),
+          thana("rangpur-gangachara", "Gangachara", "5410"),
+          thana("rangpur-kaunia", "Kaunia", "5440"),
+          thana("rangpur-mithapukur", "Mithapukur", "5460"),
+          thana("rangpur-pirganj", "Pirganj", "5470"),
+        ],
+      },
+      {
+        id: "dinajpur",
+        name: "Dinajpur",
+        thanas: [
+          thana("dinajpur-sadar", "Dinajpur Sadar", "5200"),
+          thana("dinajpur-birampur", "Birampur", "5266"),
+          thana("dinajpur-birganj", "Birganj", "5220"),
+          thana("dinajpur-hakimpur", "Hakimpur", "5270"),
+          thana("dinajpur-parbatipur", "Parbatipur", "5250"),
+          thana("dinajpur-phulbari", "Phulbari", "5260"),
+        ],
+      },
+      {
+        id: "thakurgaon",
+        name: "Thakurgaon",
+        thanas: [
+          thana("thakurgaon-sadar", "Thakurgaon Sadar", "5100"),
+          thana("thakurgaon-baliadangi", "Baliadangi", "5140"),
+          thana("thakurgaon-haripur", "Haripur", "5130"),
+          thana("thakurgaon-pirganj", "Pirganj", "5110"),
+          thana("thakurgaon-ranisankail", "Ranisankail", "5120"),
+        ],
+      },
+      {
+        id: "panchagarh",
+        name: "Panchagarh",
+        thanas: [
+          thana("panchagarh-sadar", "Panchagarh Sadar", "5000"),
+          thana("panchagarh-atwari", "Atwari", "5040"),
+          thana("panchagarh-boda", "Boda", "5010"),
+          thana("panchagarh-debiganj", "Debiganj", "5020"),
+          thana("panchagarh-tetulia", "Tetulia", "5030"),
+        ],
+      },
+      {
+        id: "nilphamari",
+        name: "Nilphamari",
+        thanas: [
+          thana("nilphamari-sadar", "Nilphamari Sadar", "5300"),
+          thana("nilphamari-dimla", "Dimla", "5350"),
+          thana("nilphamari-domar", "Domar", "5340"),
+          thana("nilphamari-jaldhaka", "Jaldhaka", "5330"),
+          thana("nilphamari-kishoreganj", "Kishoreganj", "5320"),
+          thana("nilphamari-saidpur", "Saidpur", "5310"),
+        ],
+      },
+      {
+        id: "lalmonirhat",
+        name: "Lalmonirhat",
+        thanas: [
+          thana("lalmonirhat-sadar", "Lalmonirhat Sadar", "5500"),
+          thana("lalmonirhat-aditmari", "Aditmari", "5510"),
+          thana("lalmonirhat-hatibandha", "Hatibandha", "5530"),
+          thana("lalmonirhat-kaliganj", "Kaliganj", "5520"),
+          thana("lalmonirhat-patgram", "Patgram", "5540"),
+        ],
+      },
+      {
+        id: "kurigram",
+        name: "Kurigram",
+        thanas: [
+          thana("kurigram-sadar", "Kurigram Sadar", "5600"),
+          thana("kurigram-bhurungamari", "Bhurungamari", "5670"),
+          thana("kurigram-chilmari", "Chilmari", "5630"),
+          thana("kurigram-nageshwari", "Nageshwari", "5660"),
+          thana("kurigram-rajarhat", "Rajarhat", "5610"),
+          thana("kurigram-ulipur", "Ulipur", "5620"),
+        ],
+      },
+      {
+        id: "gaibandha",
+        name: "Gaibandha",
+        thanas: [
+          thana("gaibandha-sadar", "Gaibandha Sadar", "5700"),
+          thana("gaibandha-gobindaganj", "Gobindaganj", "5740"),
+          thana("gaibandha-palashbari", "Palashbari", "5730"),
+          thana("gaibandha-sadullapur", "Sadullapur", "5710"),
+          thana("gaibandha-saghata", "Saghata", "5750"),
+          thana("gaibandha-sundarganj", "Sundarganj", "5720"),
+        ],
+      },
     ],
   },
   {
+    id: "mymensingh",
     name: "Mymensingh",
-    cities: [
-      "Mymensingh",
-      "Jamalpur",
-      "Netrokona",
-      "Sherpur",
+    districts: [
+      {
+        id: "mymensingh",
+        name: "Mymensingh",
+        thanas: [
+          thana("mymensingh-sadar", "Mymensingh Sadar", "2200"),
+          thana("mymensingh-bhaluka", "Bhaluka", "2240"),
+          thana("mymensingh-gafargaon", "Gafargaon", "2230"),
+          thana("mymensingh-muktagachha", "Muktagachha", "2210"),
+          thana("mymensingh-phulpur", "Phulpur", "2250"),
+          thana("mymensingh-trishal", "Trishal", "2220"),
+        ],
+      },
+      {
+        id: "jamalpur",
+        name: "Jamalpur",
+        thanas: [
+          thana("jamalpur-sadar", "Jamalpur Sadar", "2000"),
+          thana("jamalpur-dewanganj", "Dewanganj", "2030"),
+          thana("jamalpur-islampur", "Islampur", "2020"),
+          thana("jamalpur-melandaha", "Melandaha", "2010"),
+          thana("jamalpur-sarishabari", "Sarishabari", "2050"),
+        ],
+      },
+      {
+        id: "netrokona",
+        name: "Netrokona",
+        thanas: [
+          thana("netrokona-sadar", "Netrokona Sadar", "2400"),
+          thana("netrokona-durgapur", "Durgapur", "2420"),
+          thana("netrokona-kendua", "Kendua", "2480"),
+          thana("netrokona-mohanganj", "Mohanganj", "2446"),
+        ],
+      },
+      {
+        id: "sherpur",
+        name: "Sherpur",
+        thanas: [
+          thana("sherpur-sadar", "Sherpur Sadar", "2100"),
+          thana("sherpur-jhenaigati", "Jhenaigati", "2120"),
+          thana("sherpur-nakla", "Nakla", "2150"),
+          thana("sherpur-nalitabari", "Nalitabari", "2110"),
+          thana("sherpur-sreebardi", "Sreebardi", "2130"),
+        ],
+      },
     ],
   },
 ];
+
+export const findDivision = (divisionId: string) =>
+  bangladeshDivisions.find((division) => division.id === divisionId);
+
+export const findDistrict = (divisionId: string, districtId: string) =>
+  findDivision(divisionId)?.districts.find(
+    (district) => district.id === districtId
+  );
+
+export const findThana = (selection: LocationSelection) =>
+  findDistrict(selection.divisionId, selection.districtId)?.thanas.find(
+    (item) => item.id === selection.thanaId
+  );
+
+// Couriers want the thana and district on the label, e.g. "Dhanmondi, Dhaka"
+export const formatLocation = (selection: LocationSelection) => {
+  const district = findDistrict(selection.divisionId, selection.districtId);
+  const match = findThana(selection);
+
+  return district && match ? `${match.name}, ${district.name}` : "";
+};
+
+/**
+ * Zod refinement shared by every address form and the orders API: each
+ * level has to belong to the one above it, and the postal code has to be
+ * one that is actually used in the chosen thana.
+ */
+export const refineLocation = (
+  values: LocationSelection & { postalCode: string },
+  ctx: RefinementCtx
+) => {
+  const division = findDivision(values.divisionId);
+
+  if (!division) {
+    ctx.addIssue({
+      code: "custom",
+      path: ["divisionId"],
+      message: "Choose a division",
+    });
+    return;
+  }
+
+  const district = findDistrict(values.divisionId, values.districtId);
+
+  if (!district) {
+    ctx.addIssue({
+      code: "custom",
+      path: ["districtId"],
+      message: "Choose a district",
+    });
+    return;
+  }
+
+  const match = findThana(values);
+
+  if (!match) {
+    ctx.addIssue({
+      code: "custom",
+      path: ["thanaId"],
+      message: "Choose a thana / upazila",
+    });
+    return;
+  }
+
+  if (!match.postalCodes.includes(values.postalCode.trim())) {
+    ctx.addIssue({
+      code: "custom",
+      path: ["postalCode"],
+      message: `Postal code for ${match.name} should be ${match.postalCodes.join(" or ")}`,
+    });
+  }
+};
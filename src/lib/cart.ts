@@ -0,0 +1,108 @@
+import type { Prisma } from "@prisma/client";
+
+import { mergeStockRequests, type StockRequest } from "./inventory";
+import { prisma } from "./prisma";
+
+const cartInclude = {
+  lines: {
+    include: { product: { include: { category: true } }, variant: true },
+    orderBy: { createdAt: "asc" },
+  },
+} satisfies Prisma.CartInclude;
+
+export const getCart = (userId: string) =>
+  prisma.cart.findUnique({ where: { userId }, include: cartInclude });
+
+// Duplicate variants are combined and every line is capped at the stock that
+// is left. Lines for unknown, inactive or sold-out variants are dropped.
+const normalizeCartLines = async (
+  tx: Prisma.TransactionClient,
+  lines: StockRequest[]
+) => {
+  const merged = mergeStockRequests(lines);
+  const variants = await tx.productVariant.findMany({
+    where: { id: { in: merged.map((line) => line.variantId) } },
+    include: { product: { select: { isActive: true } } },
+  });
+  const variantsById = new Map(
+    variants.map((variant) => [variant.id, variant])
+  );
+
+  return merged.flatMap((line) => {
+    const variant = variantsById.get(line.variantId);
+
+    if (
+      !variant ||
+      variant.productId !== line.productId ||
+      !variant.product.isActive ||
+      variant.stock <= 0
+    ) {
+      return [];
+    }
+
+    return [{ ...line, quantity: Math.min(line.quantity, variant.stock) }];
+  });
+};
+
+const writeCartLines = async (
+  tx: Prisma.TransactionClient,
+  userId: string,
+  lines: StockRequest[]
+) => {
+  const normalized = await normalizeCartLines(tx, lines);
+  const cart = await tx.cart.upsert({
+    where: { userId },
+    create: { userId },
+    update: {},
+  });
+
+  await tx.cartLine.deleteMany({
+    where: {
+      cartId: cart.id,
+      variantId: { notIn: normalized.map((line) => line.variantId) },
+    },
+  });
+
+  for (const line of normalized) {
+    await tx.cartLine.upsert({
+      where: {
+        cartId_variantId: { cartId: cart.id, variantId: line.variantId },
+      },
+      create: { cartId: cart.id, ...line },
+      update: { quantity: line.quantity },
+    });
+  }
+
+  return tx.cart.findUniqueOrThrow({
+    where: { id: cart.id },
+    include: cartInclude,
+  });
+};
+
+export const replaceCart = (userId: string, lines: StockRequest[]) =>
+  prisma.$transaction((tx) => writeCartLines(tx, userId, lines));
+
+/**
+ * Folds a guest cart into the account cart when the shopper signs in. A
+ * variant that is in both carts keeps the combined quantity, capped at the
+ * stock that is left, so nothing picked on either device is lost.
+ */
+export const mergeIntoCart = (userId: string, guestLines: StockRequest[]) =>
+  prisma.$transaction(async (tx) => {
+    const existing = await tx.cartLine.findMany({
+      where: { cart: { userId } },
+      orderBy: { createdAt: "asc" },
+    });
+
+    return writeCartLines(tx, userId, [
+      ...existing.map(({ productId, variantId, quantity }) => ({
+        productId,
+        variantId,
+        quantity,
+      })),
+      ...guestLines,
+    ]);
+  });
+
+export const clearCart = (userId: string) =>
+  prisma.cartLine.deleteMany({ where: { cart: { userId } } });
@@ -0,0 +1,88 @@
+import type { Prisma } from "@prisma/client";
+
+import { PRODUCT_COLLECTIONS } from "./constants";
+import { prisma } from "./prisma";
+import { serializeProduct } from "./serializers/product";
+
+export { PRODUCT_COLLECTIONS };
+
+export type ProductCollection =
+  (typeof PRODUCT_COLLECTIONS)[keyof typeof PRODUCT_COLLECTIONS];
+
+const productInclude = {
+  category: true,
+  style: true,
+  images: true,
+  variants: { orderBy: { id: "asc" } },
+} satisfies Prisma.ProductInclude;
+
+export const getProducts = async () => {
+  const products = await prisma.product.findMany({
+    where: { isActive: true },
+    include: productInclude,
+    orderBy: { id: "asc" },
+  });
+
+  return products.map(serializeProduct);
+};
+
+export const getProductsByCollection = async (
+  collection: ProductCollection
+) => {
+  const products = await prisma.product.findMany({
+    where: { isActive: true, collections: { has: collection } },
+    include: productInclude,
+    orderBy: { id: "asc" },
+  });
+
+  return products.map(serializeProduct);
+};
+
+export const getProductById = async (id: number) => {
+  if (!Number.isInteger(id)) {
+    return null;
+  }
+
+  const product = await prisma.product.findFirst({
+    where: { id, isActive: true },
+    include: productInclude,
+  });
+
+  return product ? serializeProduct(product) : null;
+};
+
+export const getCategories = () =>
+  prisma.category.findMany({
+    orderBy: { name: "asc" },
+    select: { slug: true, name: true },
+  });
+
+export const getStyles = () =>
+  prisma.style.findMany({
+    orderBy: { name: "asc" },
+    select: { slug: true, name: true },
+  });
+
+export const searchProducts = async (query: string) => {
+  const term = query.trim().toLowerCase();
+
+  if (term.length === 0) {
+    return [];
+  }
+
+  const products = await prisma.product.findMany({
+    where: {
+      isActive: true,
+      OR: [
+        { title: { contains: term, mode: "insensitive" } },
+        { category: { slug: { contains: term, mode: "insensitive" } } },
+        { style: { slug: { contains: term, mode: "insensitive" } } },
+        { colors: { has: term } },
+      ],
+    },
+    include: productInclude,
+    orderBy: { id: "asc" },
+  });
+
+  return products.map(serializeProduct);
+};
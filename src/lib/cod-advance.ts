@@ -0,0 +1,41 @@
+import type { PaymentMethodId } from "./payments/methods";
+import type { DeliveryQuote, ShippingZoneId } from "./shipping";
+
+export type CodAdvanceRule = {
+  // Cash on delivery orders to these zones pay part of the total up front
+  zones: ShippingZoneId[];
+  // ...as does any cash on delivery order at or above this total
+  minOrderTotal: number;
+  // The advance is the delivery charge, but never less than this, so orders
+  // with free delivery still carry one
+  minimumAdvance: number;
+  // Wallets the advance can be paid with
+  methods: PaymentMethodId[];
+};
+
+// Unclaimed parcels outside Dhaka cost us the return trip, so those orders
+// prepay the delivery charge like most BD stores ask for.
+export const COD_ADVANCE_RULE: CodAdvanceRule = {
+  zones: ["outside-dhaka"],
+  minOrderTotal: 1500,
+  minimumAdvance: 100,
+  methods: ["bkash", "nagad"],
+};
+
+/**
+ * Amount a cash on delivery order has to pay before dispatch, or 0 when the
+ * rule doesn't apply. The delivery charge is taken from the quote rather
+ * than the totals, so a free-delivery coupon doesn't waive the advance.
+ */
+export const getCodAdvance = (
+  delivery: Pick<DeliveryQuote, "zone" | "fee">,
+  totalAmount: number,
+  rule = COD_ADVANCE_RULE
+) => {
+  const isRequired =
+    rule.zones.includes(delivery.zone) || totalAmount >= rule.minOrderTotal;
+
+  return isRequired
+    ? Math.min(totalAmount, Math.max(delivery.fee, rule.minimumAdvance))
+    : 0;
+};
@@ -1,3 +1,16 @@
 export const AUTH_SESSION_KEY = "tsr-fashion-current-user";
 
+export const SESSION_COOKIE_NAME = "tsr_session";
+
 export const PROFILE_STORAGE_KEY_PREFIX = "tsr-fashion-profile";
+
+export const PRODUCT_COLLECTIONS = {
+  newArrivals: "new-arrivals",
+  topSelling: "top-selling",
+  related: "related",
+} as const;
+
+export const WELCOME_DISCOUNT_PERCENTAGE = 20;
+
+// Guests prove an order is theirs with the end of its delivery phone number
+export const ORDER_LOOKUP_PHONE_DIGITS = 4;
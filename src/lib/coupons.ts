@@ -0,0 +1,282 @@
+import { randomBytes } from "crypto";
+import type { Coupon, Prisma } from "@prisma/client";
+
+import { WELCOME_DISCOUNT_PERCENTAGE } from "./constants";
+import type { StockRequest } from "./inventory";
+import { snapshotOrderItems } from "./orders";
+import { prisma } from "./prisma";
+
+export type CouponType = "percentage" | "fixed" | "free-shipping";
+
+export type AppliedCoupon = {
+  code: string;
+  description?: string;
+  type: CouponType;
+  discount: number;
+  freeShipping: boolean;
+};
+
+export type CouponLine = {
+  productId: number;
+  categoryId: number;
+  lineTotal: number;
+};
+
+type CouponWithRestrictions = Coupon & {
+  categories: { id: number }[];
+  products: { id: number }[];
+};
+
+export class CouponError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CouponError";
+  }
+}
+
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase();
+
+/**
+ * Works out what a coupon is worth for the given lines, or throws a
+ * `CouponError` explaining why it cannot be used. Product and category
+ * restrictions limit which lines the discount is calculated on, while the
+ * minimum order value is checked against the whole bag.
+ */
+export const evaluateCoupon = (
+  coupon: CouponWithRestrictions,
+  lines: CouponLine[],
+  now = new Date()
+): AppliedCoupon => {
+  if (!coupon.isActive) {
+    throw new CouponError("This code is no longer available.");
+  }
+
+  if (coupon.startsAt && coupon.startsAt > now) {
+    throw new CouponError("This code isn't active yet.");
+  }
+
+  if (coupon.endsAt && coupon.endsAt < now) {
+    throw new CouponError("This code has expired.");
+  }
+
+  const orderValue = lines.reduce((total, line) => total + line.lineTotal, 0);
+
+  if (orderValue < coupon.minOrderValue) {
+    throw new CouponError(
+      `Spend $${coupon.minOrderValue} or more to use this code.`
+    );
+  }
+
+  const isRestricted =
+    coupon.categories.length > 0 || coupon.products.length > 0;
+  const eligibleLines = isRestricted
+    ? lines.filter(
+        (line) =>
+          coupon.products.some((product) => product.id === line.productId) ||
+          coupon.categories.some((category) => category.id === line.categoryId)
+      )
+    : lines;
+
+  if (eligibleLines.length === 0) {
+    throw new CouponError("This code doesn't apply to the items in your bag.");
+  }
+
+  const eligibleValue = eligibleLines.reduce(
+    (total, line) => total + line.lineTotal,
+    0
+  );
+  const type = coupon.type as CouponType;
+  let discount = 0;
+
+  if (type === "percentage") {
+    discount = Math.round((eligibleValue * coupon.value) / 100);
+  } else if (type === "fixed") {
+    discount = Math.min(coupon.value, eligibleValue);
+  }
+
+  return {
+    code: coupon.code,
+    description: coupon.description ?? undefined,
+    type,
+    discount,
+    freeShipping: type === "free-shipping",
+  };
+};
+
+const toCouponLines = async (
+  tx: Prisma.TransactionClient,
+  items: Prisma.OrderItemCreateWithoutOrderInput[]
+): Promise<CouponLine[]> => {
+  const productIds = items.flatMap((item) =>
+    item.product?.connect?.id ? [item.product.connect.id] : []
+  );
+  const products = await tx.product.findMany({
+    where: { id: { in: productIds } },
+    select: { id: true, categoryId: true },
+  });
+  const categoryByProduct = new Map(
+    products.map((product) => [product.id, product.categoryId])
+  );
+
+  return items.flatMap((item) => {
+    const productId = item.product?.connect?.id;
+    const categoryId = productId ? categoryByProduct.get(productId) : undefined;
+
+    return productId && categoryId
+      ? [{ productId, categoryId, lineTotal: item.lineTotal }]
+      : [];
+  });
+};
+
+/**
+ * Looks a code up and checks its usage limits for the shopper before
+ * evaluating it. The usage and per-shopper limits are checked again by
+ * `claimCoupon`, under the coupon's row lock, when the order is placed.
+ */
+export const resolveCoupon = async (
+  tx: Prisma.TransactionClient,
+  code: string,
+  items: Prisma.OrderItemCreateWithoutOrderInput[],
+  userId?: string
+) => {
+  const coupon = await tx.coupon.findUnique({
+    where: { code: normalizeCouponCode(code) },
+    include: {
+      categories: { select: { id: true } },
+      products: { select: { id: true } },
+    },
+  });
+
+  if (!coupon) {
+    throw new CouponError("We couldn't find that code.");
+  }
+
+  if (coupon.usageLimit !== null && coupon.usedCount >= coupon.usageLimit) {
+    throw new CouponError("This code has reached its usage limit.");
+  }
+
+  const needsAccount =
+    coupon.perUserLimit !== null ||
+    coupon.userId !== null ||
+    coupon.firstOrderOnly;
+
+  if (needsAccount && !userId) {
+    throw new CouponError("Sign in to use this code.");
+  }
+
+  if (coupon.userId !== null && coupon.userId !== userId) {
+    throw new CouponError("This code belongs to another account.");
+  }
+
+  if (coupon.firstOrderOnly) {
+    const previousOrders = await tx.order.count({
+      where: { userId, status: { not: "cancelled" } },
+    });
+
+    if (previousOrders > 0) {
+      throw new CouponError("This code is only valid on your first order.");
+    }
+  }
+
+  if (coupon.perUserLimit !== null) {
+    const used = await tx.couponRedemption.count({
+      where: { couponId: coupon.id, userId },
+    });
+
+    if (used >= coupon.perUserLimit) {
+      throw new CouponError("You've already used this code.");
+    }
+  }
+
+  return {
+    applied: evaluateCoupon(coupon, await toCouponLines(tx, items)),
+    claim: {
+      couponId: coupon.id,
+      usageLimit: coupon.usageLimit,
+      perUserLimit: coupon.perUserLimit,
+      userId,
+    },
+  };
+};
+
+export const previewCoupon = async (
+  tx: Prisma.TransactionClient,
+  code: string,
+  lines: StockRequest[],
+  userId?: string
+): Promise<AppliedCoupon> => {
+  const items = await snapshotOrderItems(tx, lines);
+  const { applied } = await resolveCoupon(tx, code, items, userId);
+
+  return applied;
+};
+
+/**
+ * Counts the use only while the global limit still allows it, so two orders
+ * racing for the last redemption cannot both succeed. The update also locks
+ * the coupon row until the order commits, so the shopper's redemptions are
+ * counted again only once any other order of theirs using the code has
+ * finished.
+ */
+export const claimCoupon = async (
+  tx: Prisma.TransactionClient,
+  claim: {
+    couponId: string;
+    usageLimit: number | null;
+    perUserLimit: number | null;
+    userId?: string;
+  }
+) => {
+  const result = await tx.coupon.updateMany({
+    where: {
+      id: claim.couponId,
+      ...(claim.usageLimit !== null && {
+        usedCount: { lt: claim.usageLimit },
+      }),
+    },
+    data: { usedCount: { increment: 1 } },
+  });
+
+  if (result.count === 0) {
+    throw new CouponError("This code has reached its usage limit.");
+  }
+
+  if (claim.perUserLimit !== null) {
+    const used = await tx.couponRedemption.count({
+      where: { couponId: claim.couponId, userId: claim.userId },
+    });
+
+    if (used >= claim.perUserLimit) {
+      throw new CouponError("You've already used this code.");
+    }
+  }
+};
+
+/**
+ * The personal first-order code every new account gets. It can be redeemed
+ * once, only by its owner and only while they have no other orders.
+ */
+export const buildWelcomeCoupon = (): Prisma.CouponCreateWithoutUserInput => ({
+  code: `WELCOME-${randomBytes(4).toString("hex").toUpperCase()}`,
+  description: `${WELCOME_DISCOUNT_PERCENTAGE}% off your first order`,
+  type: "percentage",
+  value: WELCOME_DISCOUNT_PERCENTAGE,
+  usageLimit: 1,
+  perUserLimit: 1,
+  firstOrderOnly: true,
+});
+
+export const findWelcomeCoupon = async (userId: string) => {
+  const previousOrders = await prisma.order.count({
+    where: { userId, status: { not: "cancelled" } },
+  });
+
+  if (previousOrders > 0) {
+    return null;
+  }
+
+  return prisma.coupon.findFirst({
+    where: { userId, firstOrderOnly: true, isActive: true, usedCount: 0 },
+    select: { code: true, description: true },
+  });
+};
@@ -0,0 +1,20 @@
+export class CourierWebhookError extends Error {
+  constructor(message = "The courier webhook could not be verified") {
+    super(message);
+    this.name = "CourierWebhookError";
+  }
+}
+
+export class ConsignmentNotFoundError extends Error {
+  constructor(trackingNumber: string) {
+    super(`No order has tracking number ${trackingNumber}`);
+    this.name = "ConsignmentNotFoundError";
+  }
+}
+
+export class ConsignmentBookingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConsignmentBookingError";
+  }
+}
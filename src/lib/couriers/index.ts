@@ -0,0 +1,237 @@
+import type { OrderStatus } from "@/lib/data/orders";
+import { publishOrderStatus } from "@/lib/order-events";
+import { getDeliverySteps } from "@/lib/order-status";
+import { transitionOrderStatus } from "@/lib/orders";
+import { prisma } from "@/lib/prisma";
+import {
+  ConsignmentBookingError,
+  ConsignmentNotFoundError,
+  CourierWebhookError,
+} from "./errors";
+import { createMockCourier, isMockCourierEnabled } from "./mock-courier";
+import { type CourierId, type CourierStatus, findCourier } from "./services";
+import type { CourierProvider, CourierUpdate } from "./types";
+
+// All three run against the mock courier outside production until merchant
+// accounts are set up; a live adapter only has to implement CourierProvider.
+// Couriers without one can't be booked.
+const COURIER_PROVIDERS: Partial<Record<CourierId, CourierProvider>> =
+  isMockCourierEnabled()
+    ? {
+        pathao: createMockCourier("pathao", "Pathao"),
+        steadfast: createMockCourier("steadfast", "Steadfast"),
+        redx: createMockCourier("redx", "RedX"),
+      }
+    : {};
+
+export const getCourierProvider = (id: CourierId) => COURIER_PROVIDERS[id];
+
+// Returned parcels need a person to decide what happens to the order, so
+// they leave its status alone.
+const ORDER_STATUS_BY_COURIER_STATUS: Record<
+  CourierStatus,
+  OrderStatus | null
+> = {
+  booked: null,
+  "picked-up": "shipped",
+  "in-transit": "shipped",
+  "out-for-delivery": "out-for-delivery",
+  delivered: "delivered",
+  returned: null,
+};
+
+// Couriers can only be booked for orders still in the warehouse
+const BOOKABLE_STATUSES: OrderStatus[] = ["placed", "processing"];
+
+// A booking that hasn't finished by then is assumed to have crashed
+const BOOKING_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Moves the order a courier update is about forward to the matching status,
+ * through any steps the courier skipped reporting. Updates that aren't ahead
+ * of the order's status are ignored.
+ */
+export const applyCourierUpdate = async (
+  courier: CourierId,
+  update: CourierUpdate
+) => {
+  const { result, moved } = await prisma.$transaction(async (tx) => {
+    const order = await tx.order.findFirst({
+      where: { courier, trackingNumber: update.trackingNumber },
+      select: { id: true, orderNumber: true, status: true },
+    });
+
+    if (!order) {
+      throw new ConsignmentNotFoundError(update.trackingNumber);
+    }
+
+    const target = ORDER_STATUS_BY_COURIER_STATUS[update.status];
+    const steps = target
+      ? getDeliverySteps(order.status as OrderStatus, target)
+      : [];
+
+    for (const step of steps) {
+      await transitionOrderStatus(
+        tx,
+        order.id,
+        step,
+        { type: "courier" },
+        update.note
+      );
+    }
+
+    return {
+      result: {
+        orderNumber: order.orderNumber,
+        status: steps.at(-1) ?? (order.status as OrderStatus),
+      },
+      moved: steps.length > 0,
+    };
+  });
+
+  if (moved) {
+    await publishOrderStatus(result.orderNumber);
+  }
+
+  return result;
+};
+
+export const handleCourierWebhook = async (
+  courier: CourierId,
+  body: string,
+  headers: Headers
+) => {
+  const provider = getCourierProvider(courier);
+
+  if (!provider) {
+    throw new CourierWebhookError(`${courier} isn't connected`);
+  }
+
+  return applyCourierUpdate(
+    courier,
+    await provider.parseWebhook(body, headers)
+  );
+};
+
+/**
+ * Books the parcel for an order with `courier` and saves the tracking number.
+ * The rider collects whatever the order still owes. The order is claimed
+ * before the courier is called, so staff booking it twice at once can't
+ * leave a second parcel at the courier that nobody ships.
+ */
+export const bookConsignment = async (
+  orderNumber: string,
+  courier: CourierId
+) => {
+  const order = await prisma.order.findUnique({ where: { orderNumber } });
+
+  if (!order) {
+    return null;
+  }
+
+  const provider = getCourierProvider(courier);
+
+  if (!provider) {
+    throw new ConsignmentBookingError(
+      `${findCourier(courier)?.name ?? courier} isn't connected yet`
+    );
+  }
+
+  if (order.trackingNumber) {
+    throw new ConsignmentBookingError(
+      "This order already has a tracking number"
+    );
+  }
+
+  if (!BOOKABLE_STATUSES.includes(order.status as OrderStatus)) {
+    throw new ConsignmentBookingError(
+      "Only orders that haven't shipped can be booked with a courier"
+    );
+  }
+
+  const startedAt = new Date();
+  const claim = await prisma.order.updateMany({
+    where: {
+      id: order.id,
+      trackingNumber: null,
+      OR: [
+        { bookingStartedAt: null },
+        {
+          bookingStartedAt: {
+            lt: new Date(startedAt.getTime() - BOOKING_TIMEOUT_MS),
+          },
+        },
+      ],
+    },
+    data: { bookingStartedAt: startedAt },
+  });
+
+  if (claim.count === 0) {
+    throw new ConsignmentBookingError(
+      "This order is already being booked with a courier"
+    );
+  }
+
+  try {
+    const consignment = await provider.createConsignment({
+      orderNumber,
+      recipientName: order.shippingName,
+      recipientPhone: order.shippingPhone,
+      address: [order.shippingAddress1, order.shippingAddress2]
+        .filter(Boolean)
+        .join(", "),
+      city: order.shippingCity,
+      postalCode: order.shippingPostal,
+      codAmount: order.amountDue,
+      itemsCount: order.itemsCount,
+      note: order.notes ?? undefined,
+    });
+
+    await prisma.order.update({
+      where: { id: order.id },
+      data: {
+        courier,
+        trackingNumber: consignment.trackingNumber,
+        bookingStartedAt: null,
+      },
+    });
+
+    return consignment;
+  } catch (error) {
+    // Let staff try again straight away
+    await prisma.order.updateMany({
+      where: { id: order.id, bookingStartedAt: startedAt },
+      data: { bookingStartedAt: null },
+    });
+    throw error;
+  }
+};
+
+// Pulls the parcel's status from the courier, for webhooks that went missing
+export const syncConsignment = async (orderNumber: string) => {
+  const order = await prisma.order.findUnique({
+    where: { orderNumber },
+    select: { courier: true, trackingNumber: true },
+  });
+
+  if (!order) {
+    return null;
+  }
+
+  const provider = order.courier
+    ? getCourierProvider(order.courier as CourierId)
+    : undefined;
+
+  if (!provider || !order.trackingNumber) {
+    throw new ConsignmentBookingError(
+      "This order wasn't booked with a courier we're connected to"
+    );
+  }
+
+  const status = await provider.fetchStatus(order.trackingNumber);
+
+  return applyCourierUpdate(provider.id, {
+    trackingNumber: order.trackingNumber,
+    status,
+  });
+};
@@ -0,0 +1,135 @@
+import { createHmac, randomBytes, randomInt, timingSafeEqual } from "crypto";
+import { z } from "zod";
+
+import { CourierWebhookError } from "./errors";
+import {
+  COURIER_STATUSES,
+  type CourierId,
+  type CourierStatus,
+} from "./services";
+import type { ConsignmentInput, CourierProvider } from "./types";
+
+export const MOCK_SIGNATURE_HEADER = "x-mock-courier-signature";
+
+// Never in production, where anyone could mark a parcel delivered. Set
+// MOCK_COURIERS=false to try the store without any courier connected.
+export const isMockCourierEnabled = () =>
+  process.env.NODE_ENV !== "production" &&
+  process.env.MOCK_COURIERS !== "false";
+
+export type MockConsignment = ConsignmentInput & {
+  trackingNumber: string;
+  courier: CourierId;
+  courierName: string;
+  status: CourierStatus;
+  createdAt: number;
+};
+
+// Consignments live in memory, so they survive hot reloads but not a restart
+const globalForMockCourier = globalThis as unknown as {
+  mockCourier:
+    | { secret: Buffer; consignments: Map<string, MockConsignment> }
+    | undefined;
+};
+
+const mockCourier = (globalForMockCourier.mockCourier ??= {
+  secret: randomBytes(32),
+  consignments: new Map(),
+});
+
+const sign = (body: string) =>
+  createHmac("sha256", mockCourier.secret).update(body).digest("hex");
+
+const webhookSchema = z.object({
+  trackingNumber: z.string().min(1),
+  status: z.enum(COURIER_STATUSES),
+  note: z.string().optional(),
+});
+
+export const getMockConsignment = (trackingNumber: string) =>
+  mockCourier.consignments.get(trackingNumber);
+
+/**
+ * Moves a parcel to `status` as picked by the tester on the mock courier
+ * page and returns the signed webhook the courier would send about it.
+ */
+export const advanceMockConsignment = (
+  trackingNumber: string,
+  status: CourierStatus
+) => {
+  const consignment = mockCourier.consignments.get(trackingNumber);
+
+  if (!consignment) {
+    return null;
+  }
+
+  consignment.status = status;
+
+  const body = JSON.stringify({ trackingNumber, status });
+
+  return {
+    courier: consignment.courier,
+    body,
+    signature: sign(body),
+  };
+};
+
+/**
+ * A stand-in for the Pathao, Steadfast and RedX merchant APIs. Booked parcels
+ * can be moved along by hand at /couriers/mock/<tracking number>, which sends
+ * the same signed webhook a real courier would.
+ */
+export const createMockCourier = (
+  id: CourierId,
+  name: string
+): CourierProvider => ({
+  id,
+  name,
+  createConsignment: async (input) => {
+    const trackingNumber = `${id.slice(0, 3).toUpperCase()}${randomInt(
+      10_000_000,
+      100_000_000
+    )}`;
+
+    mockCourier.consignments.set(trackingNumber, {
+      ...input,
+      trackingNumber,
+      courier: id,
+      courierName: name,
+      status: "booked",
+      createdAt: Date.now(),
+    });
+
+    return { trackingNumber, status: "booked" };
+  },
+  fetchStatus: async (trackingNumber) => {
+    const consignment = mockCourier.consignments.get(trackingNumber);
+
+    if (!consignment || consignment.courier !== id) {
+      throw new Error(`${name} has no consignment ${trackingNumber}`);
+    }
+
+    return consignment.status;
+  },
+  parseWebhook: async (body, headers) => {
+    const expected = Buffer.from(sign(body));
+    const signature = Buffer.from(headers.get(MOCK_SIGNATURE_HEADER) ?? "");
+
+    if (
+      signature.length !== expected.length ||
+      !timingSafeEqual(signature, expected)
+    ) {
+      throw new CourierWebhookError();
+    }
+
+    const parsed = webhookSchema.safeParse(JSON.parse(body));
+
+    if (!parsed.success) {
+      throw new CourierWebhookError("The courier webhook had no valid status");
+    }
+
+    return parsed.data;
+  },
+  trackingUrl: (trackingNumber) =>
+    `/couriers/mock/${encodeURIComponent(trackingNumber)}`,
+});
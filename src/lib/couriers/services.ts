@@ -0,0 +1,27 @@
+export const COURIERS = [
+  { id: "pathao", name: "Pathao" },
+  { id: "steadfast", name: "Steadfast" },
+  { id: "redx", name: "RedX" },
+] as const;
+
+export type CourierId = (typeof COURIERS)[number]["id"];
+
+export const COURIER_IDS = COURIERS.map((courier) => courier.id) as [
+  CourierId,
+  ...CourierId[],
+];
+
+export const findCourier = (id: string) =>
+  COURIERS.find((courier) => courier.id === id);
+
+// The parcel states the courier services report, in the order they happen
+export const COURIER_STATUSES = [
+  "booked",
+  "picked-up",
+  "in-transit",
+  "out-for-delivery",
+  "delivered",
+  "returned",
+] as const;
+
+export type CourierStatus = (typeof COURIER_STATUSES)[number];
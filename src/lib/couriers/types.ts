@@ -0,0 +1,42 @@
+import type { CourierId, CourierStatus } from "./services";
+
+export type ConsignmentInput = {
+  orderNumber: string;
+  recipientName: string;
+  recipientPhone: string;
+  address: string;
+  city: string;
+  postalCode: string;
+  // Cash the rider collects on delivery; 0 for prepaid orders
+  codAmount: number;
+  itemsCount: number;
+  note?: string;
+};
+
+export type Consignment = {
+  trackingNumber: string;
+  status: CourierStatus;
+};
+
+export type CourierUpdate = {
+  trackingNumber: string;
+  status: CourierStatus;
+  note?: string;
+};
+
+/**
+ * What fulfillment needs from a courier service. Parcels are booked with
+ * `createConsignment`; after that the courier reports progress to
+ * /api/couriers/<id>/webhook, and `fetchStatus` covers updates that never
+ * arrived.
+ */
+export interface CourierProvider {
+  id: CourierId;
+  name: string;
+  createConsignment(input: ConsignmentInput): Promise<Consignment>;
+  fetchStatus(trackingNumber: string): Promise<CourierStatus>;
+  // Throws CourierWebhookError when the request didn't come from the courier
+  parseWebhook(body: string, headers: Headers): Promise<CourierUpdate>;
+  // Where staff can follow the parcel on the courier's side
+  trackingUrl(trackingNumber: string): string;
+}
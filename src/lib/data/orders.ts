@@ -1,3 +1,8 @@
+import type { DeliveryWindow } from "@/lib/delivery-estimate";
+import type { PaymentMethodId, PaymentStatus } from "@/lib/payments/methods";
+import type { AppliedPromotion } from "@/lib/promotions";
+import type { Discount } from "@/types/product.types";
+
 export type OrderStatus =
   | "placed"
   | "processing"
@@ -14,14 +19,49 @@ export type OrderTimelineStep = {
   isCompleted: boolean;
 };
 
+export type OrderLineItem = {
+  productId?: number;
+  variantId?: number;
+  title: string;
+  srcUrl: string;
+  attributes: string[];
+  unitPrice: number;
+  discount: Discount;
+  quantity: number;
+  lineTotal: number;
+};
+
+export type OrderPayment = {
+  id: string;
+  method: PaymentMethodId;
+  status: PaymentStatus;
+  amount: number;
+  refundedAmount: number;
+  // Present while the shopper still has to approve the payment
+  redirectUrl?: string;
+  failureReason?: string;
+};
+
 export type OrderTracking = {
   id: string;
   placedOn: string;
+  subtotal: number;
+  discountTotal: number;
+  promotions: AppliedPromotion[];
+  promotionDiscount: number;
+  couponCode?: string;
+  couponDiscount: number;
+  deliveryFee: number;
   totalAmount: number;
   itemsCount: number;
   status: OrderStatus;
   paymentMethod: string;
+  // A cash on delivery order with an advance has the advance first
+  payments?: OrderPayment[];
+  amountPaid?: number;
+  amountDue?: number;
   estimatedDelivery?: string;
+  deliveryWindow?: DeliveryWindow;
   notes?: string;
   shippingAddress: {
     name: string;
@@ -30,119 +70,59 @@ export type OrderTracking = {
     addressLine2?: string;
     city: string;
     postalCode: string;
+    divisionId?: string;
+    districtId?: string;
+    thanaId?: string;
   };
+  items: OrderLineItem[];
   statusHistory: OrderTimelineStep[];
 };
 
-export const ORDER_STORAGE_KEY = "tsr-fashion-orders";
+// Pushed to an open tracking page when the order's status changes. Delivery
+// settles cash on delivery payments, so the balance comes along.
+export type OrderStatusUpdate = Pick<
+  OrderTracking,
+  "status" | "statusHistory" | "payments" | "amountPaid" | "amountDue"
+>;
+
+// One row of the back-office order list
+export type StaffOrderSummary = {
+  id: string;
+  placedOn: string;
+  status: OrderStatus;
+  paymentMethod: string;
+  totalAmount: number;
+  amountDue: number;
+  itemsCount: number;
+  customerName: string;
+  phone: string;
+  city: string;
+  trackingNumber?: string;
+};
+
+export type StaffOrderEvent = {
+  id: string;
+  fromStatus?: OrderStatus;
+  toStatus: OrderStatus;
+  actorType: string;
+  actorName?: string;
+  note?: string;
+  createdAt: string;
+};
 
-export const sampleOrders: OrderTracking[] = [
-  {
-    id: "TSR-105284",
-    placedOn: "2024-09-21T10:30:00+06:00",
-    totalAmount: 420,
-    itemsCount: 3,
-    status: "shipped",
-    paymentMethod: "Cash on Delivery",
-    estimatedDelivery: "2024-09-27T00:00:00+06:00",
-    notes: "Leave with the security guard if no one answers.",
-    shippingAddress: {
-      name: "Nadia Rahman",
-      phone: "+8801712345678",
-      addressLine1: "House 12, Road 7",
-      addressLine2: "Dhanmondi",
-      city: "Dhaka",
-      postalCode: "1205",
-    },
-    statusHistory: [
-      {
-        id: "placed",
-        title: "Order Placed",
-        description: "We have received your order and payment method.",
-        date: "2024-09-21T10:30:00+06:00",
-        isCompleted: true,
-      },
-      {
-        id: "processing",
-        title: "Processing",
-        description: "Items are being prepared at the warehouse.",
-        date: "2024-09-22T14:00:00+06:00",
-        isCompleted: true,
-      },
-      {
-        id: "shipped",
-        title: "Shipped",
-        description: "Your package has left the warehouse.",
-        date: "2024-09-24T09:15:00+06:00",
-        isCompleted: true,
-      },
-      {
-        id: "out-for-delivery",
-        title: "Out for Delivery",
-        description: "Courier is on the way to your address.",
-        isCompleted: false,
-      },
-      {
-        id: "delivered",
-        title: "Delivered",
-        description: "Package delivered to your doorstep.",
-        isCompleted: false,
-      },
-    ],
-  },
-  {
-    id: "TSR-208611",
-    placedOn: "2024-08-14T12:05:00+06:00",
-    totalAmount: 285,
-    itemsCount: 2,
-    status: "delivered",
-    paymentMethod: "bKash",
-    estimatedDelivery: "2024-08-18T00:00:00+06:00",
-    notes: "Call before delivery after 5 PM.",
-    shippingAddress: {
-      name: "Arman Hossain",
-      phone: "+8801911223344",
-      addressLine1: "Flat B2, Building 23",
-      addressLine2: "Agrabad Commercial Area",
-      city: "Chattogram",
-      postalCode: "4000",
-    },
-    statusHistory: [
-      {
-        id: "placed",
-        title: "Order Placed",
-        description: "We have received your order and payment method.",
-        date: "2024-08-14T12:05:00+06:00",
-        isCompleted: true,
-      },
-      {
-        id: "processing",
-        title: "Processing",
-        description: "Items are being prepared at the warehouse.",
-        date: "2024-08-15T09:20:00+06:00",
-        isCompleted: true,
-      },
-      {
-        id: "shipped",
-        title: "Shipped",
-        description: "Your package has left the warehouse.",
-        date: "2024-08-16T08:45:00+06:00",
-        isCompleted: true,
-      },
-      {
-        id: "out-for-delivery",
-        title: "Out for Delivery",
-        description: "Courier is on the way to your address.",
-        date: "2024-08-17T10:10:00+06:00",
-        isCompleted: true,
-      },
-      {
-        id: "delivered",
-        title: "Delivered",
-        description: "Package delivered to your doorstep.",
-        date: "2024-08-17T16:40:00+06:00",
-        isCompleted: true,
-      },
-    ],
-  },
-];
+export type StaffOrderNote = {
+  id: string;
+  body: string;
+  authorName?: string;
+  createdAt: string;
+};
+
+// What staff see when they open an order; never sent to customers
+export type StaffOrder = OrderTracking & {
+  customerEmail?: string;
+  courier?: string;
+  trackingNumber?: string;
+  nextStatuses: OrderStatus[];
+  events: StaffOrderEvent[];
+  staffNotes: StaffOrderNote[];
+};
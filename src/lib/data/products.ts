@@ -323,12 +323,4 @@ export const allProducts: Product[] = [
   ...relatedProductData,
 ];
 
-export const productCategories = Array.from(
-  new Set(allProducts.map((product) => product.category))
-);
-
-export const productStyles = Array.from(
-  new Set(allProducts.map((product) => product.style))
-);
-
 export default allProducts;
@@ -0,0 +1,94 @@
+import type { ShippingZone, ShippingZoneId } from "./shipping";
+
+// Orders confirmed after this hour (Dhaka time) leave on the next business day
+export const WAREHOUSE_CUTOFF_HOUR = 15;
+
+// Bangladesh has no daylight saving, so a fixed offset maps instants to the
+// warehouse's calendar.
+const DHAKA_UTC_OFFSET_MS = 6 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FRIDAY = 5;
+
+// Dates are Dhaka calendar days formatted as YYYY-MM-DD
+export type DeliveryWindow = {
+  earliest: string;
+  latest: string;
+};
+
+export type DeliveryEstimate = DeliveryWindow & {
+  zone: ShippingZoneId;
+  zoneName: string;
+  dispatchDate: string;
+};
+
+const toDateKey = (day: Date) => day.toISOString().slice(0, 10);
+
+const addDays = (day: Date, days: number) =>
+  new Date(day.getTime() + days * DAY_MS);
+
+const isBusinessDay = (day: Date, holidays: Set<string>) =>
+  day.getUTCDay() !== FRIDAY && !holidays.has(toDateKey(day));
+
+const nextBusinessDay = (day: Date, holidays: Set<string>) => {
+  let next = addDays(day, 1);
+
+  while (!isBusinessDay(next, holidays)) {
+    next = addDays(next, 1);
+  }
+
+  return next;
+};
+
+const addBusinessDays = (day: Date, days: number, holidays: Set<string>) =>
+  Array.from({ length: days }).reduce<Date>(
+    (current) => nextBusinessDay(current, holidays),
+    day
+  );
+
+/**
+ * Delivery window for an order confirmed at `placedAt`. The parcel leaves the
+ * warehouse the same day when it is a business day and the order beat the
+ * cut-off, otherwise on the next business day. The zone's transit times are
+ * then counted in business days, skipping Fridays and `holidays`.
+ */
+export const estimateDelivery = (
+  zone: ShippingZone,
+  holidays: string[],
+  placedAt = new Date()
+): DeliveryEstimate => {
+  const closed = new Set(holidays);
+  const local = new Date(placedAt.getTime() + DHAKA_UTC_OFFSET_MS);
+  const today = new Date(toDateKey(local));
+  const dispatch =
+    isBusinessDay(today, closed) && local.getUTCHours() < WAREHOUSE_CUTOFF_HOUR
+      ? today
+      : nextBusinessDay(today, closed);
+
+  return {
+    zone: zone.id,
+    zoneName: zone.name,
+    dispatchDate: toDateKey(dispatch),
+    earliest: toDateKey(addBusinessDays(dispatch, zone.minTransitDays, closed)),
+    latest: toDateKey(addBusinessDays(dispatch, zone.maxTransitDays, closed)),
+  };
+};
+
+// Orders store window days as the instant the day starts in Dhaka
+export const startOfDeliveryDay = (date: string) =>
+  new Date(`${date}T00:00:00+06:00`);
+
+export const toDeliveryDay = (instant: Date) =>
+  toDateKey(new Date(instant.getTime() + DHAKA_UTC_OFFSET_MS));
+
+const formatDeliveryDay = (date: string) =>
+  new Intl.DateTimeFormat("en-GB", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    timeZone: "UTC",
+  }).format(new Date(date));
+
+export const formatDeliveryWindow = (window: DeliveryWindow) =>
+  window.earliest === window.latest
+    ? formatDeliveryDay(window.earliest)
+    : `${formatDeliveryDay(window.earliest)} – ${formatDeliveryDay(window.latest)}`;
@@ -0,0 +1,170 @@
+import {
+  createAsyncThunk,
+  createListenerMiddleware,
+  isAnyOf,
+} from "@reduxjs/toolkit";
+import {
+  addToCart,
+  CartItem,
+  CartsState,
+  cartOwnerChanged,
+  cartSignedOut,
+  cartSynced,
+  clearCart,
+  remove,
+  removeCartItem,
+} from "./cartsSlice";
+
+type CartSyncState = { carts: CartsState };
+
+type CartResponse = { cart: { items: CartItem[] } };
+
+const SYNC_DELAY_MS = 400;
+
+const toCartLines = (cart: CartsState["cart"]) =>
+  (cart?.items ?? []).map((item) => ({
+    productId: item.id,
+    variantId: item.variantId,
+    quantity: item.quantity,
+  }));
+
+const requestCart = async (url: string, init?: RequestInit) => {
+  const response = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    throw new Error(`Cart request failed with status ${response.status}`);
+  }
+
+  const data = (await response.json()) as CartResponse;
+  return data.cart.items;
+};
+
+/**
+ * Merges the bag built while signed out into the account cart. If the bag
+ * changed while the request was in flight (e.g. an order was just placed),
+ * the newer local bag wins and is saved over the account cart instead.
+ */
+export const mergeGuestCart = createAsyncThunk<
+  void,
+  string,
+  { state: CartSyncState }
+>("carts/mergeGuestCart", async (userId, { dispatch, getState }) => {
+  const before = getState().carts.cart;
+
+  try {
+    const items = await requestCart("/api/cart/merge", {
+      method: "POST",
+      body: JSON.stringify({ items: toCartLines(before) }),
+    });
+
+    if (getState().carts.cart !== before) {
+      dispatch(cartOwnerChanged(userId));
+      return;
+    }
+
+    dispatch(cartSynced({ ownerId: userId, items }));
+  } catch (error) {
+    console.error("Failed to merge guest cart", error);
+  }
+});
+
+export const loadAccountCart = createAsyncThunk<
+  void,
+  string,
+  { state: CartSyncState }
+>("carts/loadAccountCart", async (userId, { dispatch, getState }) => {
+  const before = getState().carts.cart;
+
+  try {
+    const items = await requestCart("/api/cart");
+
+    if (getState().carts.cart === before) {
+      dispatch(cartSynced({ ownerId: userId, items }));
+    }
+  } catch (error) {
+    console.error("Failed to load account cart", error);
+  }
+});
+
+// Runs once when the app loads: picks up changes made on other devices, and
+// drops the account bag from this device if the session has expired.
+export const syncCartWithSession = createAsyncThunk<
+  void,
+  void,
+  { state: CartSyncState }
+>("carts/syncWithSession", async (_, { dispatch, getState }) => {
+  try {
+    const response = await fetch("/api/auth/me", {
+      method: "GET",
+      credentials: "include",
+    });
+    const { ownerId } = getState().carts;
+
+    if (response.status === 401) {
+      if (ownerId) {
+        dispatch(cartSignedOut());
+      }
+      return;
+    }
+
+    if (!response.ok) {
+      return;
+    }
+
+    const data = (await response.json()) as { user: { id: string } };
+
+    if (data.user.id === ownerId) {
+      await dispatch(loadAccountCart(data.user.id));
+    } else {
+      await dispatch(mergeGuestCart(data.user.id));
+    }
+  } catch (error) {
+    console.error("Failed to sync cart with session", error);
+  }
+});
+
+export const cartSyncListener = createListenerMiddleware();
+
+// Cart actions update the local bag straight away; the account cart is saved
+// once quick successive changes settle. The server may trim lines to the
+// stock that is left, so its answer replaces the local bag.
+cartSyncListener.startListening({
+  matcher: isAnyOf(
+    addToCart,
+    removeCartItem,
+    remove,
+    clearCart,
+    cartOwnerChanged
+  ),
+  effect: async (_action, listenerApi) => {
+    const { ownerId } = (listenerApi.getState() as CartSyncState).carts;
+
+    if (!ownerId) {
+      return;
+    }
+
+    listenerApi.cancelActiveListeners();
+    await listenerApi.delay(SYNC_DELAY_MS);
+
+    const { cart } = (listenerApi.getState() as CartSyncState).carts;
+
+    try {
+      const items = await listenerApi.pause(
+        requestCart("/api/cart", {
+          method: "PUT",
+          body: JSON.stringify({ items: toCartLines(cart) }),
+        })
+      );
+      listenerApi.dispatch(cartSynced({ ownerId, items }));
+    } catch (error) {
+      if (listenerApi.signal.aborted) {
+        return;
+      }
+      console.error("Failed to save cart", error);
+    }
+  },
+});
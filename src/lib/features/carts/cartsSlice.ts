@@ -1,22 +1,13 @@
 import { compareArrays } from "@/lib/utils";
+import { calculateTotals } from "@/lib/pricing";
+import { type PromotionRule, evaluatePromotions } from "@/lib/promotions";
+import { type DeliveryArea, quoteDelivery } from "@/lib/shipping";
+import type { RootState } from "@/lib/store";
+import type { AppliedCoupon } from "@/lib/coupons";
 import { Discount } from "@/types/product.types";
-import { createSlice } from "@reduxjs/toolkit";
+import { createSelector, createSlice } from "@reduxjs/toolkit";
 import type { PayloadAction } from "@reduxjs/toolkit";
 
-const calcAdjustedTotalPrice = (
-  totalPrice: number,
-  data: CartItem,
-  quantity?: number
-): number => {
-  return (
-    (totalPrice + data.discount.percentage > 0
-      ? Math.round(data.price - (data.price * data.discount.percentage) / 100)
-      : data.discount.amount > 0
-      ? Math.round(data.price - data.discount.amount)
-      : data.price) * (quantity ? quantity : data.quantity)
-  );
-};
-
 export type RemoveCartItem = {
   id: number;
   attributes: string[];
@@ -24,8 +15,12 @@ export type RemoveCartItem = {
 
 export type CartItem = {
   id: number;
+  variantId: number;
   name: string;
   srcUrl: string;
+  // Category slug, used to match category promotions
+  category?: string;
+  weightGrams?: number;
   price: number;
   attributes: string[];
   discount: Discount;
@@ -34,22 +29,28 @@ export type CartItem = {
 
 export type Cart = {
   items: CartItem[];
-  totalQuantities: number;
 };
 
 // Define a type for the slice state
-interface CartsState {
+export interface CartsState {
   cart: Cart | null;
-  totalPrice: number;
-  adjustedTotalPrice: number;
+  // Signed-in user whose account cart this bag is mirrored to
+  ownerId: string | null;
+  coupon: AppliedCoupon | null;
+  // Active automatic promotions, evaluated against the bag on the client
+  promotions: PromotionRule[];
+  // Area picked at checkout; the delivery fee is unknown until then
+  deliveryArea: DeliveryArea | null;
   action: "update" | "add" | "delete" | null;
 }
 
 // Define the initial state using that type
 const initialState: CartsState = {
   cart: null,
-  totalPrice: 0,
-  adjustedTotalPrice: 0,
+  ownerId: null,
+  coupon: null,
+  promotions: [],
+  deliveryArea: null,
   action: null,
 };
 
@@ -63,13 +64,7 @@ export const cartsSlice = createSlice({
       if (state.cart === null) {
         state.cart = {
           items: [action.payload],
-          totalQuantities: action.payload.quantity,
         };
-        state.totalPrice =
-          state.totalPrice + action.payload.price * action.payload.quantity;
-        state.adjustedTotalPrice =
-          state.adjustedTotalPrice +
-          calcAdjustedTotalPrice(state.totalPrice, action.payload);
         return;
       }
 
@@ -99,26 +94,14 @@ export const cartsSlice = createSlice({
               quantity: action.payload.quantity + isItemInCart.quantity,
             };
           }),
-          totalQuantities: state.cart.totalQuantities + action.payload.quantity,
         };
-        state.totalPrice =
-          state.totalPrice + action.payload.price * action.payload.quantity;
-        state.adjustedTotalPrice =
-          state.adjustedTotalPrice +
-          calcAdjustedTotalPrice(state.totalPrice, action.payload);
         return;
       }
 
       state.cart = {
         ...state.cart,
         items: [...state.cart.items, action.payload],
-        totalQuantities: state.cart.totalQuantities + action.payload.quantity,
       };
-      state.totalPrice =
-        state.totalPrice + action.payload.price * action.payload.quantity;
-      state.adjustedTotalPrice =
-        state.adjustedTotalPrice +
-        calcAdjustedTotalPrice(state.totalPrice, action.payload);
     },
     removeCartItem: (state, action: PayloadAction<RemoveCartItem>) => {
       if (state.cart === null) return;
@@ -151,13 +134,7 @@ export const cartsSlice = createSlice({
               };
             })
             .filter((item) => item.quantity > 0),
-          totalQuantities: state.cart.totalQuantities - 1,
         };
-
-        state.totalPrice = state.totalPrice - isItemInCart.price * 1;
-        state.adjustedTotalPrice =
-          state.adjustedTotalPrice -
-          calcAdjustedTotalPrice(isItemInCart.price, isItemInCart, 1);
       }
     },
     remove: (
@@ -182,23 +159,101 @@ export const cartsSlice = createSlice({
             ? !compareArrays(pItem.attributes, isItemInCart.attributes)
             : pItem.id !== action.payload.id;
         }),
-        totalQuantities: state.cart.totalQuantities - isItemInCart.quantity,
       };
-      state.totalPrice =
-        state.totalPrice - isItemInCart.price * isItemInCart.quantity;
-      state.adjustedTotalPrice =
-        state.adjustedTotalPrice -
-        calcAdjustedTotalPrice(
-          isItemInCart.price,
-          isItemInCart,
-          isItemInCart.quantity
-        );
     },
-    clearCart: () => initialState,
+    clearCart: (state) => {
+      state.cart = null;
+      state.coupon = null;
+      state.action = null;
+    },
+    cartSynced: (
+      state,
+      action: PayloadAction<{ ownerId: string; items: CartItem[] }>
+    ) => {
+      state.cart =
+        action.payload.items.length > 0 ? { items: action.payload.items } : null;
+      state.ownerId = action.payload.ownerId;
+    },
+    cartOwnerChanged: (state, action: PayloadAction<string>) => {
+      state.ownerId = action.payload;
+    },
+    cartSignedOut: (state) => ({
+      ...initialState,
+      promotions: state.promotions,
+    }),
+    couponApplied: (state, action: PayloadAction<AppliedCoupon>) => {
+      state.coupon = action.payload;
+    },
+    couponRemoved: (state) => {
+      state.coupon = null;
+    },
+    promotionsLoaded: (state, action: PayloadAction<PromotionRule[]>) => {
+      state.promotions = action.payload;
+    },
+    deliveryAreaChanged: (
+      state,
+      action: PayloadAction<DeliveryArea | null>
+    ) => {
+      state.deliveryArea = action.payload;
+    },
   },
 });
 
-export const { addToCart, removeCartItem, remove, clearCart } =
-  cartsSlice.actions;
+export const {
+  addToCart,
+  removeCartItem,
+  remove,
+  clearCart,
+  cartSynced,
+  cartOwnerChanged,
+  cartSignedOut,
+  couponApplied,
+  couponRemoved,
+  promotionsLoaded,
+  deliveryAreaChanged,
+} = cartsSlice.actions;
+
+const emptyCartItems: CartItem[] = [];
+
+export const selectCartItems = (state: RootState) =>
+  state.carts.cart?.items ?? emptyCartItems;
+
+export const selectAppliedCoupon = (state: RootState) => state.carts.coupon;
+
+const emptyPromotions: PromotionRule[] = [];
+
+// Carts persisted before promotions existed have no rules yet
+const selectPromotionRules = (state: RootState) =>
+  state.carts.promotions ?? emptyPromotions;
+
+export const selectCartPromotions = createSelector(
+  [selectCartItems, selectPromotionRules],
+  (items, rules) => evaluatePromotions(rules, items)
+);
+
+const selectDeliveryArea = (state: RootState) =>
+  state.carts.deliveryArea ?? null;
+
+export const selectDeliveryQuote = createSelector(
+  [selectCartItems, selectDeliveryArea],
+  (items, area) => (area ? quoteDelivery(area, items) : null)
+);
+
+// Totals are always derived from the items so they can never drift from
+// what is actually in the cart.
+export const selectCartTotals = createSelector(
+  [
+    selectCartItems,
+    selectCartPromotions,
+    selectDeliveryQuote,
+    selectAppliedCoupon,
+  ],
+  (items, promotions, delivery, coupon) =>
+    calculateTotals(items, {
+      deliveryFee: coupon?.freeShipping ? 0 : (delivery?.fee ?? 0),
+      promotionDiscount: promotions.discount,
+      couponDiscount: coupon?.discount,
+    })
+);
 
 export default cartsSlice.reducer;
@@ -0,0 +1,141 @@
+import {
+  createAsyncThunk,
+  createListenerMiddleware,
+  isAnyOf,
+} from "@reduxjs/toolkit";
+import { toast } from "react-toastify";
+import type { AppliedCoupon } from "@/lib/coupons";
+import {
+  addToCart,
+  CartsState,
+  cartSynced,
+  couponApplied,
+  couponRemoved,
+  remove,
+  removeCartItem,
+} from "./cartsSlice";
+
+type CouponState = { carts: CartsState };
+
+const validateCoupon = async (code: string, cart: CartsState["cart"]) => {
+  const response = await fetch("/api/coupons/validate", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify({
+      code,
+      items: (cart?.items ?? []).map((item) => ({
+        productId: item.id,
+        variantId: item.variantId,
+        quantity: item.quantity,
+      })),
+    }),
+  });
+  const data = (await response.json().catch(() => null)) as
+    | { message?: string; coupon?: AppliedCoupon }
+    | null;
+
+  if (!response.ok || !data?.coupon) {
+    return {
+      coupon: null,
+      message: data?.message ?? "We couldn't apply that code.",
+    };
+  }
+
+  return { coupon: data.coupon, message: null };
+};
+
+export const applyCoupon = createAsyncThunk<
+  AppliedCoupon,
+  string,
+  { state: CouponState; rejectValue: string }
+>("carts/applyCoupon", async (code, { dispatch, getState, rejectWithValue }) => {
+  try {
+    const result = await validateCoupon(code, getState().carts.cart);
+
+    if (!result.coupon) {
+      return rejectWithValue(result.message);
+    }
+
+    dispatch(couponApplied(result.coupon));
+    return result.coupon;
+  } catch (error) {
+    console.error("Failed to apply coupon", error);
+    return rejectWithValue("We couldn't check that code right now.");
+  }
+});
+
+// Applies the shopper's first-order welcome code when nothing else is applied.
+// Failures are silent: the shopper can still enter a code by hand.
+export const applyWelcomeCoupon = createAsyncThunk<
+  void,
+  void,
+  { state: CouponState }
+>("carts/applyWelcomeCoupon", async (_, { dispatch, getState }) => {
+  const { coupon, cart } = getState().carts;
+
+  if (coupon || !cart) {
+    return;
+  }
+
+  try {
+    const response = await fetch("/api/coupons/welcome", {
+      method: "GET",
+      credentials: "include",
+    });
+
+    if (!response.ok) {
+      return;
+    }
+
+    const data = (await response.json()) as {
+      coupon: { code: string } | null;
+    };
+
+    if (data.coupon && !getState().carts.coupon) {
+      await dispatch(applyCoupon(data.coupon.code));
+    }
+  } catch (error) {
+    console.error("Failed to apply welcome coupon", error);
+  }
+});
+
+export const couponListener = createListenerMiddleware();
+
+// A coupon's value depends on what is in the bag, so it is re-checked after
+// every change and dropped once the bag no longer qualifies.
+couponListener.startListening({
+  matcher: isAnyOf(addToCart, removeCartItem, remove, cartSynced),
+  effect: async (_action, listenerApi) => {
+    const { coupon, cart } = (listenerApi.getState() as CouponState).carts;
+
+    if (!coupon || !cart) {
+      return;
+    }
+
+    listenerApi.cancelActiveListeners();
+    await listenerApi.delay(300);
+
+    try {
+      const result = await listenerApi.pause(
+        validateCoupon(
+          coupon.code,
+          (listenerApi.getState() as CouponState).carts.cart
+        )
+      );
+
+      if (result.coupon) {
+        listenerApi.dispatch(couponApplied(result.coupon));
+        return;
+      }
+
+      listenerApi.dispatch(couponRemoved());
+      toast.info(`${coupon.code} was removed: ${result.message}`);
+    } catch (error) {
+      if (listenerApi.signal.aborted) {
+        return;
+      }
+      console.error("Failed to refresh coupon", error);
+    }
+  },
+});
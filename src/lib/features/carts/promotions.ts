@@ -0,0 +1,23 @@
+import { createAsyncThunk } from "@reduxjs/toolkit";
+import type { PromotionRule } from "@/lib/promotions";
+import { promotionsLoaded } from "./cartsSlice";
+
+// Keeps the last rules we saw if the request fails; the server re-checks
+// promotions when the order is placed either way.
+export const loadPromotions = createAsyncThunk(
+  "carts/loadPromotions",
+  async (_, { dispatch }) => {
+    try {
+      const response = await fetch("/api/promotions", { method: "GET" });
+
+      if (!response.ok) {
+        return;
+      }
+
+      const data = (await response.json()) as { promotions: PromotionRule[] };
+      dispatch(promotionsLoaded(data.promotions));
+    } catch (error) {
+      console.error("Failed to load promotions", error);
+    }
+  }
+);
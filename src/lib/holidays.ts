@@ -0,0 +1,44 @@
+import type { Prisma } from "@prisma/client";
+
+import { estimateDelivery, toDeliveryDay } from "./delivery-estimate";
+import {
+  type DeliveryArea,
+  SHIPPING_ZONES,
+  findShippingZone,
+} from "./shipping";
+
+// Long enough to cover the slowest zone across the Eid closures
+const HOLIDAY_LOOKAHEAD_DAYS = 60;
+
+export const getUpcomingHolidays = async (
+  tx: Prisma.TransactionClient,
+  from = new Date()
+) => {
+  // Holiday dates are plain calendar days, which Prisma reads as UTC midnight
+  const start = new Date(toDeliveryDay(from));
+  const end = new Date(
+    start.getTime() + HOLIDAY_LOOKAHEAD_DAYS * 24 * 60 * 60 * 1000
+  );
+  const holidays = await tx.holiday.findMany({
+    where: { date: { gte: start, lt: end } },
+    select: { date: true },
+    orderBy: { date: "asc" },
+  });
+
+  return holidays.map((holiday) => holiday.date.toISOString().slice(0, 10));
+};
+
+/**
+ * Delivery windows for an order confirmed at `now`: one for the zone that
+ * covers `area`, or one per zone when the area isn't known yet.
+ */
+export const getDeliveryEstimates = async (
+  tx: Prisma.TransactionClient,
+  area: DeliveryArea | null,
+  now = new Date()
+) => {
+  const holidays = await getUpcomingHolidays(tx, now);
+  const zones = area ? [findShippingZone(area)] : SHIPPING_ZONES;
+
+  return zones.map((zone) => estimateDelivery(zone, holidays, now));
+};
@@ -0,0 +1,103 @@
+import type { Prisma } from "@prisma/client";
+
+export type StockRequest = {
+  productId: number;
+  variantId: number;
+  quantity: number;
+};
+
+export type StockShortage = {
+  productId: number;
+  variantId: number;
+  requested: number;
+  available: number;
+  message: string;
+};
+
+export class InsufficientStockError extends Error {
+  shortages: StockShortage[];
+
+  constructor(shortages: StockShortage[]) {
+    super("Insufficient stock for one or more order lines");
+    this.name = "InsufficientStockError";
+    this.shortages = shortages;
+  }
+}
+
+// The same variant can appear on several lines (e.g. added twice from
+// different tabs), so stock is checked against the combined quantity.
+export const mergeStockRequests = (lines: StockRequest[]) => {
+  const merged = new Map<number, StockRequest>();
+
+  lines.forEach((line) => {
+    const existing = merged.get(line.variantId);
+    merged.set(line.variantId, {
+      ...line,
+      quantity: (existing?.quantity ?? 0) + line.quantity,
+    });
+  });
+
+  return Array.from(merged.values());
+};
+
+const describeShortage = (available: number) =>
+  available > 0 ? `Only ${available} left` : "Sold out";
+
+/**
+ * Decrements stock for every line inside the caller's transaction. Each
+ * decrement is conditional on enough stock remaining, so concurrent orders
+ * cannot push a variant below zero. Throws `InsufficientStockError` listing
+ * every short line, which rolls back the whole transaction.
+ */
+export const reserveStock = async (
+  tx: Prisma.TransactionClient,
+  lines: StockRequest[]
+) => {
+  const shortages: StockShortage[] = [];
+
+  for (const line of mergeStockRequests(lines)) {
+    const result = await tx.productVariant.updateMany({
+      where: {
+        id: line.variantId,
+        productId: line.productId,
+        stock: { gte: line.quantity },
+      },
+      data: { stock: { decrement: line.quantity } },
+    });
+
+    if (result.count === 1) {
+      continue;
+    }
+
+    const variant = await tx.productVariant.findFirst({
+      where: { id: line.variantId, productId: line.productId },
+      select: { stock: true },
+    });
+    const available = Math.max(variant?.stock ?? 0, 0);
+
+    shortages.push({
+      productId: line.productId,
+      variantId: line.variantId,
+      requested: line.quantity,
+      available,
+      message: describeShortage(available),
+    });
+  }
+
+  if (shortages.length > 0) {
+    throw new InsufficientStockError(shortages);
+  }
+};
+
+// Puts stock taken by `reserveStock` back, e.g. when an order is cancelled
+export const releaseStock = async (
+  tx: Prisma.TransactionClient,
+  lines: StockRequest[]
+) => {
+  for (const line of mergeStockRequests(lines)) {
+    await tx.productVariant.updateMany({
+      where: { id: line.variantId, productId: line.productId },
+      data: { stock: { increment: line.quantity } },
+    });
+  }
+};
@@ -0,0 +1,81 @@
+import { EventEmitter } from "events";
+
+import type { OrderStatus, OrderStatusUpdate } from "./data/orders";
+import { buildOrderTimeline } from "./order-status";
+import { prisma } from "./prisma";
+import { serializePayment } from "./serializers/order";
+
+type OrderStatusListener = (update: OrderStatusUpdate) => void;
+
+// Kept on globalThis so route handlers share one emitter across hot reloads.
+// It only reaches pages connected to this server process.
+const globalForOrderEvents = globalThis as unknown as {
+  orderEvents: EventEmitter | undefined;
+};
+
+const orderEvents = (globalForOrderEvents.orderEvents ??= new EventEmitter());
+
+// One listener per open tracking page, so there's no sensible cap
+orderEvents.setMaxListeners(0);
+
+export const subscribeToOrderStatus = (
+  orderNumber: string,
+  listener: OrderStatusListener
+) => {
+  orderEvents.on(orderNumber, listener);
+
+  return () => {
+    orderEvents.off(orderNumber, listener);
+  };
+};
+
+// What an open tracking page needs to refresh after a status change
+export const getOrderStatusUpdate = async (
+  orderNumber: string
+): Promise<OrderStatusUpdate | null> => {
+  const order = await prisma.order.findUnique({
+    where: { orderNumber },
+    select: {
+      status: true,
+      amountPaid: true,
+      amountDue: true,
+      payments: { orderBy: { createdAt: "asc" } },
+      statusEvents: { orderBy: { createdAt: "asc" } },
+    },
+  });
+
+  if (!order) {
+    return null;
+  }
+
+  const status = order.status as OrderStatus;
+
+  return {
+    status,
+    statusHistory: buildOrderTimeline(status, order.statusEvents),
+    payments: order.payments.map(serializePayment),
+    amountPaid: order.amountPaid,
+    amountDue: order.amountDue,
+  };
+};
+
+/**
+ * Sends the order's current status, timeline and balance to every tracking
+ * page watching it. Call it once the transaction that changed the status has
+ * committed, so pages never see a change that was rolled back.
+ */
+export const publishOrderStatus = async (orderNumber: string) => {
+  if (orderEvents.listenerCount(orderNumber) === 0) {
+    return;
+  }
+
+  try {
+    const update = await getOrderStatusUpdate(orderNumber);
+
+    if (update) {
+      orderEvents.emit(orderNumber, update);
+    }
+  } catch (error) {
+    console.error("Failed to publish order status", error);
+  }
+};
@@ -0,0 +1,182 @@
+import type { Order, User } from "@prisma/client";
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { NextResponse } from "next/server";
+
+import { getCurrentUser } from "./auth";
+import { ORDER_LOOKUP_PHONE_DIGITS } from "./constants";
+import { hasValidCheckDigit } from "./order-numbers";
+import { orderDetailsInclude } from "./orders";
+import { hasPermission } from "./permissions";
+import { prisma } from "./prisma";
+import {
+  type RateLimitRule,
+  checkRateLimit,
+  consumeRateLimit,
+  getClientIp,
+} from "./rate-limit";
+
+// Plenty for someone checking their own parcels, slow for anyone walking
+// through order numbers
+export const ORDER_LOOKUP_LIMIT: RateLimitRule = {
+  name: "order-lookup",
+  limit: 30,
+  windowMs: 10 * 60 * 1000,
+};
+
+// Wrong phone digits for one order from one address. Right answers don't
+// count.
+export const ORDER_PHONE_CHECK_LIMIT: RateLimitRule = {
+  name: "order-phone-check",
+  limit: 5,
+  windowMs: 60 * 60 * 1000,
+};
+
+// Wrong phone digits for one order from anywhere, so spreading guesses over
+// many addresses still can't get through the 10,000 combinations. The
+// customer can always sign in to see their order.
+export const ORDER_PHONE_GUESS_LIMIT: RateLimitRule = {
+  name: "order-phone-guesses",
+  limit: 20,
+  windowMs: 24 * 60 * 60 * 1000,
+};
+
+// Long enough to keep a tracking page open through a few reconnects
+const ORDER_STREAM_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+// A new secret on restart only costs open pages their live updates
+const globalForOrderLookup = globalThis as unknown as {
+  orderStreamSecret: Buffer | undefined;
+};
+
+const streamSecret = (globalForOrderLookup.orderStreamSecret ??=
+  randomBytes(32));
+
+const digitsOnly = (value: string) => value.replace(/\D/g, "");
+
+// The customer who placed the order and staff don't need the phone check
+export const canViewOrder = (
+  order: Pick<Order, "userId">,
+  user: Pick<User, "id" | "role"> | null
+) =>
+  user !== null &&
+  (order.userId === user.id || hasPermission(user.role, "orders:read"));
+
+export const matchesPhoneDigits = (phone: string, entered: string) => {
+  const digits = digitsOnly(entered);
+
+  return (
+    digits.length === ORDER_LOOKUP_PHONE_DIGITS &&
+    digitsOnly(phone).endsWith(digits)
+  );
+};
+
+const signStreamToken = (orderNumber: string, expiresAt: number) =>
+  createHmac("sha256", streamSecret)
+    .update(`${orderNumber}:${expiresAt}`)
+    .digest("hex");
+
+/**
+ * Lets whoever just passed the lookup open the order's live status stream,
+ * so the stream and its reconnects don't count against the lookup limits.
+ */
+export const createOrderStreamToken = (
+  orderNumber: string,
+  now = Date.now()
+) => {
+  const expiresAt = now + ORDER_STREAM_TOKEN_TTL_MS;
+
+  return `${expiresAt}.${signStreamToken(orderNumber, expiresAt)}`;
+};
+
+export const verifyOrderStreamToken = (
+  orderNumber: string,
+  token: string,
+  now = Date.now()
+) => {
+  const [expiresAt, signature = ""] = token.split(".");
+
+  if (!(Number(expiresAt) > now)) {
+    return false;
+  }
+
+  const expected = Buffer.from(signStreamToken(orderNumber, Number(expiresAt)));
+  const actual = Buffer.from(signature);
+
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+const tooManyRequests = (retryAfterSeconds: number) =>
+  NextResponse.json(
+    { message: "Too many order lookups. Please try again later." },
+    {
+      status: 429,
+      headers: { "Retry-After": String(retryAfterSeconds) },
+    }
+  );
+
+/**
+ * Loads an order for a customer-facing request, or the response to send
+ * instead. Signed-in owners and staff get the order straight away; everyone
+ * else also has to send the last digits of the delivery phone as `phone`.
+ */
+export const lookupOrder = async (request: Request, orderNumber: string) => {
+  const ip = getClientIp(request);
+  const lookup = consumeRateLimit(ORDER_LOOKUP_LIMIT, ip);
+
+  if (!lookup.allowed) {
+    return tooManyRequests(lookup.retryAfterSeconds);
+  }
+
+  const phone = new URL(request.url).searchParams.get("phone");
+  const [user, order] = await Promise.all([
+    getCurrentUser(),
+    // A mistyped new-style number can't match any order
+    hasValidCheckDigit(orderNumber)
+      ? prisma.order.findUnique({
+          where: { orderNumber },
+          include: orderDetailsInclude,
+        })
+      : null,
+  ]);
+
+  if (order && canViewOrder(order, user)) {
+    return order;
+  }
+
+  // Guests get the same answers whether or not the order exists, so the
+  // lookup can't be used to find valid order numbers either
+  if (!phone) {
+    return NextResponse.json(
+      {
+        message: `Enter the last ${ORDER_LOOKUP_PHONE_DIGITS} digits of the delivery phone number to view this order.`,
+        phoneRequired: true,
+      },
+      { status: 403 }
+    );
+  }
+
+  const orderKey = orderNumber.toUpperCase();
+  const phoneCheckKey = `${orderKey}:${ip}`;
+  const phoneCheck = [
+    checkRateLimit(ORDER_PHONE_CHECK_LIMIT, phoneCheckKey),
+    checkRateLimit(ORDER_PHONE_GUESS_LIMIT, orderKey),
+  ].find((check) => !check.allowed);
+
+  if (phoneCheck) {
+    return tooManyRequests(phoneCheck.retryAfterSeconds);
+  }
+
+  if (!order || !matchesPhoneDigits(order.shippingPhone, phone)) {
+    consumeRateLimit(ORDER_PHONE_CHECK_LIMIT, phoneCheckKey);
+    consumeRateLimit(ORDER_PHONE_GUESS_LIMIT, orderKey);
+
+    return NextResponse.json(
+      {
+        message: "We couldn't find an order with that number and phone number.",
+      },
+      { status: 404 }
+    );
+  }
+
+  return order;
+};
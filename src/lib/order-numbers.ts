@@ -0,0 +1,46 @@
+import type { Prisma } from "@prisma/client";
+
+export const ORDER_NUMBER_PREFIX = "TSR-";
+
+// Luhn check digit: catches any single mistyped digit and most swapped pairs
+// before a lookup reaches someone else's order
+export const getCheckDigit = (digits: string) => {
+  const sum = digits
+    .split("")
+    .reverse()
+    .reduce((total, char, index) => {
+      const digit = Number(char) * (index % 2 === 0 ? 2 : 1);
+      return total + (digit > 9 ? digit - 9 : digit);
+    }, 0);
+
+  return String((10 - (sum % 10)) % 10);
+};
+
+export const formatOrderNumber = (sequence: bigint | number) => {
+  const digits = String(sequence).padStart(7, "0");
+  return `${ORDER_NUMBER_PREFIX}${digits}${getCheckDigit(digits)}`;
+};
+
+// Six-digit numbers from before the sequence carry no check digit
+export const hasValidCheckDigit = (orderNumber: string) => {
+  const digits = orderNumber.slice(ORDER_NUMBER_PREFIX.length);
+
+  return (
+    !/^[0-9]{8,}$/.test(digits) ||
+    getCheckDigit(digits.slice(0, -1)) === digits.slice(-1)
+  );
+};
+
+/**
+ * Takes the next number from the database sequence. Sequence values are
+ * never handed out twice, even when the transaction using one rolls back,
+ * so concurrent checkouts can't collide. Numbers have eight digits, which
+ * keeps them apart from the six-digit ones browsers used to pick.
+ */
+export const nextOrderNumber = async (tx: Prisma.TransactionClient) => {
+  const [{ value }] = await tx.$queryRaw<{ value: bigint }[]>`
+    SELECT nextval('"public"."OrderNumberSeq"') AS value
+  `;
+
+  return formatOrderNumber(value);
+};
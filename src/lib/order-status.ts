@@ -0,0 +1,131 @@
+import type { OrderStatusEvent } from "@prisma/client";
+
+import type { OrderStatus, OrderTimelineStep } from "./data/orders";
+
+export type OrderActorType = "customer" | "staff" | "courier" | "system";
+
+export type OrderActor = {
+  type: OrderActorType;
+  userId?: string | null;
+};
+
+// "out-for-delivery" reads as "Out For Delivery"
+export const formatStatus = (status: string) =>
+  status
+    .split("-")
+    .join(" ")
+    .replace(/\b\w/g, (char) => char.toUpperCase());
+
+// Orders can only be cancelled before they leave the warehouse
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  placed: ["processing", "cancelled"],
+  processing: ["shipped", "cancelled"],
+  shipped: ["out-for-delivery"],
+  "out-for-delivery": ["delivered"],
+  delivered: [],
+  cancelled: [],
+};
+
+export const ORDER_STATUSES = Object.keys(
+  ORDER_STATUS_TRANSITIONS
+) as OrderStatus[];
+
+const DELIVERY_PATH: OrderStatus[] = [
+  "placed",
+  "processing",
+  "shipped",
+  "out-for-delivery",
+  "delivered",
+];
+
+const TIMELINE_STEPS: Record<
+  OrderStatus,
+  { title: string; description: string }
+> = {
+  placed: {
+    title: "Order Placed",
+    description: "We have received your order details.",
+  },
+  processing: {
+    title: "Processing",
+    description: "We're preparing your items for dispatch.",
+  },
+  shipped: {
+    title: "Shipped",
+    description: "Your package has left the warehouse.",
+  },
+  "out-for-delivery": {
+    title: "Out for Delivery",
+    description: "The courier will contact you before arriving.",
+  },
+  delivered: {
+    title: "Delivered",
+    description: "Enjoy your new styles from TSR Fashion!",
+  },
+  cancelled: {
+    title: "Cancelled",
+    description: "This order was cancelled.",
+  },
+};
+
+export class InvalidStatusTransitionError extends Error {
+  from: string;
+  to: string;
+
+  constructor(from: string, to: string) {
+    super(`An order can't move from ${from} to ${to}`);
+    this.name = "InvalidStatusTransitionError";
+    this.from = from;
+    this.to = to;
+  }
+}
+
+export const canTransition = (from: OrderStatus, to: OrderStatus) =>
+  ORDER_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+
+/**
+ * The delivery steps after `from` up to and including `to`. Empty when `to`
+ * isn't ahead of `from`, so a repeated or late courier update changes nothing.
+ */
+export const getDeliverySteps = (from: OrderStatus, to: OrderStatus) => {
+  const start = DELIVERY_PATH.indexOf(from);
+  const end = DELIVERY_PATH.indexOf(to);
+
+  return start === -1 || end <= start
+    ? []
+    : DELIVERY_PATH.slice(start + 1, end + 1);
+};
+
+/**
+ * The tracking timeline: every step of the delivery path, completed up to
+ * the order's status and dated from the event that reached it. A cancelled
+ * order ends with the cancellation instead of the steps it never reached.
+ */
+export const buildOrderTimeline = (
+  status: OrderStatus,
+  events: Pick<OrderStatusEvent, "toStatus" | "createdAt">[]
+): OrderTimelineStep[] => {
+  const reached = new Map(events.map((event) => [event.toStatus, event]));
+  const toStep = (id: OrderStatus, isCompleted: boolean) => ({
+    id,
+    ...TIMELINE_STEPS[id],
+    date: reached.get(id)?.createdAt.toISOString(),
+    isCompleted,
+  });
+
+  if (status !== "cancelled") {
+    const current = DELIVERY_PATH.indexOf(status);
+
+    return DELIVERY_PATH.map((id, index) => toStep(id, index <= current));
+  }
+
+  const lastReached = Math.max(
+    0,
+    ...DELIVERY_PATH.map((id, index) => (reached.has(id) ? index : 0))
+  );
+
+  return [
+    ...DELIVERY_PATH.slice(0, lastReached + 1).map((id) => toStep(id, true)),
+    toStep("cancelled", true),
+  ];
+};
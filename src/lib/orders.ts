@@ -0,0 +1,385 @@
+import type { Prisma } from "@prisma/client";
+
+import { COD_ADVANCE_RULE, getCodAdvance } from "./cod-advance";
+import type { OrderStatus } from "./data/orders";
+import {
+  type StockRequest,
+  type StockShortage,
+  releaseStock,
+} from "./inventory";
+import { publishOrderStatus } from "./order-events";
+import {
+  type OrderActor,
+  InvalidStatusTransitionError,
+  canTransition,
+} from "./order-status";
+import { collectCashOnDelivery } from "./payments";
+import type { PaymentMethodId } from "./payments/methods";
+import { prisma } from "./prisma";
+import {
+  type OrderTotals,
+  type TotalsAdjustments,
+  calculateTotals,
+  getLineTotal,
+} from "./pricing";
+import { type PromotionLine, evaluatePromotions } from "./promotions";
+import { serializeOrder } from "./serializers/order";
+import { serializePromotion } from "./serializers/promotion";
+import type { DeliveryQuote } from "./shipping";
+
+// Everything `serializeOrder` reads
+export const orderDetailsInclude = {
+  items: { orderBy: { createdAt: "asc" } },
+  payments: { orderBy: { createdAt: "asc" } },
+  statusEvents: { orderBy: { createdAt: "asc" } },
+} satisfies Prisma.OrderInclude;
+
+export const CUSTOMER_ORDERS_PAGE_SIZE = 10;
+
+export class OrderTotalMismatchError extends Error {
+  expected: number;
+  totals: OrderTotals;
+
+  constructor(expected: number, totals: OrderTotals) {
+    super(
+      `Order total ${expected} does not match the calculated total ${totals.totalAmount}`
+    );
+    this.name = "OrderTotalMismatchError";
+    this.expected = expected;
+    this.totals = totals;
+  }
+}
+
+export class CodAdvanceRequiredError extends Error {
+  advance: number;
+
+  constructor(advance: number) {
+    super(`This cash on delivery order needs an advance of ${advance}`);
+    this.name = "CodAdvanceRequiredError";
+    this.advance = advance;
+  }
+}
+
+// Lines for variants that don't exist, don't belong to the product sent with
+// them or were taken off sale. `lines` has the same shape as stock shortages,
+// so checkout can mark them the same way.
+export class UnavailableItemsError extends Error {
+  lines: StockShortage[];
+
+  constructor(lines: StockShortage[]) {
+    super("One or more order lines are no longer sold");
+    this.name = "UnavailableItemsError";
+    this.lines = lines;
+  }
+}
+
+/**
+ * Copies what the customer is buying from the catalog into order line rows,
+ * so later catalog edits never change what an existing order shows.
+ */
+export const snapshotOrderItems = async (
+  tx: Prisma.TransactionClient,
+  lines: StockRequest[]
+): Promise<Prisma.OrderItemCreateWithoutOrderInput[]> => {
+  const variants = await tx.productVariant.findMany({
+    where: { id: { in: lines.map((line) => line.variantId) } },
+    include: { product: true },
+  });
+  const variantsById = new Map(
+    variants.map((variant) => [variant.id, variant])
+  );
+  const unavailable: StockShortage[] = [];
+
+  const items = lines.flatMap((line) => {
+    const variant = variantsById.get(line.variantId);
+
+    if (
+      !variant ||
+      variant.productId !== line.productId ||
+      !variant.product.isActive
+    ) {
+      unavailable.push({
+        productId: line.productId,
+        variantId: line.variantId,
+        requested: line.quantity,
+        available: 0,
+        message: "No longer sold",
+      });
+      return [];
+    }
+
+    const unitPrice = variant.price ?? variant.product.price;
+    const discount = {
+      amount: variant.product.discountAmount,
+      percentage: variant.product.discountPercentage,
+    };
+
+    return [
+      {
+        product: { connect: { id: variant.productId } },
+        variant: { connect: { id: variant.id } },
+        title: variant.product.title,
+        srcUrl: variant.product.srcUrl,
+        attributes: [variant.size, variant.color],
+        unitPrice,
+        discountAmount: discount.amount,
+        discountPercentage: discount.percentage,
+        quantity: line.quantity,
+        lineTotal: getLineTotal({
+          price: unitPrice,
+          discount,
+          quantity: line.quantity,
+        }),
+        weightGrams: variant.product.weightGrams,
+      },
+    ];
+  });
+
+  if (unavailable.length > 0) {
+    throw new UnavailableItemsError(unavailable);
+  }
+
+  return items;
+};
+
+const toPricedLine = (item: Prisma.OrderItemCreateWithoutOrderInput) => ({
+  price: item.unitPrice,
+  discount: {
+    amount: item.discountAmount ?? 0,
+    percentage: item.discountPercentage ?? 0,
+  },
+  quantity: item.quantity,
+});
+
+export const calculateOrderTotals = (
+  items: Prisma.OrderItemCreateWithoutOrderInput[],
+  adjustments: TotalsAdjustments = {}
+): OrderTotals => calculateTotals(items.map(toPricedLine), adjustments);
+
+export const getActivePromotions = async (
+  tx: Prisma.TransactionClient,
+  now = new Date()
+) => {
+  const promotions = await tx.promotion.findMany({
+    where: {
+      isActive: true,
+      AND: [
+        { OR: [{ startsAt: null }, { startsAt: { lte: now } }] },
+        { OR: [{ endsAt: null }, { endsAt: { gte: now } }] },
+      ],
+    },
+    include: { categories: { select: { slug: true } } },
+    orderBy: { priority: "desc" },
+  });
+
+  return promotions.map(serializePromotion);
+};
+
+// Runs the same rules engine the cart uses, against the catalog snapshot of
+// the order lines.
+export const evaluateOrderPromotions = async (
+  tx: Prisma.TransactionClient,
+  items: Prisma.OrderItemCreateWithoutOrderInput[]
+) => {
+  const rules = await getActivePromotions(tx);
+  const productIds = items.flatMap((item) =>
+    item.product?.connect?.id ? [item.product.connect.id] : []
+  );
+  const products = await tx.product.findMany({
+    where: { id: { in: productIds } },
+    select: { id: true, category: { select: { slug: true } } },
+  });
+  const categoryByProduct = new Map(
+    products.map((product) => [product.id, product.category.slug])
+  );
+  const lines: PromotionLine[] = items.flatMap((item) => {
+    const variantId = item.variant?.connect?.id;
+    const productId = item.product?.connect?.id;
+
+    return variantId && productId
+      ? [
+          {
+            ...toPricedLine(item),
+            variantId,
+            category: categoryByProduct.get(productId),
+          },
+        ]
+      : [];
+  });
+
+  return evaluatePromotions(rules, lines);
+};
+
+/**
+ * Splits what the customer owes into payment rows. The whole total goes
+ * through the chosen method, except for cash on delivery orders the advance
+ * rule applies to: those pay the advance through a wallet and the rest in
+ * cash.
+ */
+export const planOrderPayments = (
+  method: PaymentMethodId,
+  totalAmount: number,
+  delivery: DeliveryQuote,
+  advanceMethod?: PaymentMethodId
+): Prisma.PaymentCreateWithoutOrderInput[] => {
+  const advance = method === "cod" ? getCodAdvance(delivery, totalAmount) : 0;
+
+  if (advance === 0) {
+    return [{ method, amount: totalAmount }];
+  }
+
+  if (!advanceMethod || !COD_ADVANCE_RULE.methods.includes(advanceMethod)) {
+    throw new CodAdvanceRequiredError(advance);
+  }
+
+  const payments = [{ method: advanceMethod, amount: advance }];
+
+  return advance < totalAmount
+    ? [...payments, { method, amount: totalAmount - advance }]
+    : payments;
+};
+
+/**
+ * Moves an order to `to` inside the caller's transaction and records who
+ * made the change. The update only applies while the order still has the
+ * status it was read with, so two concurrent changes can't both succeed.
+ */
+export const transitionOrderStatus = async (
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  to: OrderStatus,
+  actor: OrderActor,
+  note?: string
+) => {
+  const order = await tx.order.findUniqueOrThrow({
+    where: { id: orderId },
+    select: { status: true },
+  });
+  const from = order.status as OrderStatus;
+
+  if (!canTransition(from, to)) {
+    throw new InvalidStatusTransitionError(from, to);
+  }
+
+  const { count } = await tx.order.updateMany({
+    where: { id: orderId, status: from },
+    data: { status: to },
+  });
+
+  if (count === 0) {
+    throw new InvalidStatusTransitionError(from, to);
+  }
+
+  if (to === "cancelled") {
+    // Online payments already collected are owed back until an admin
+    // refunds them
+    await tx.payment.updateMany({
+      where: { orderId, status: "paid" },
+      data: { status: "refund-pending" },
+    });
+
+    const items = await tx.orderItem.findMany({ where: { orderId } });
+
+    await releaseStock(
+      tx,
+      items.flatMap((item) =>
+        item.productId && item.variantId
+          ? [
+              {
+                productId: item.productId,
+                variantId: item.variantId,
+                quantity: item.quantity,
+              },
+            ]
+          : []
+      )
+    );
+  }
+
+  if (to === "delivered") {
+    await collectCashOnDelivery(tx, orderId);
+  }
+
+  return tx.orderStatusEvent.create({
+    data: {
+      orderId,
+      fromStatus: from,
+      toStatus: to,
+      actorType: actor.type,
+      actorId: actor.userId ?? null,
+      note: note ?? null,
+    },
+  });
+};
+
+// A signed-in customer's orders, newest first
+export const listCustomerOrders = async (
+  userId: string,
+  { status, page }: { status?: OrderStatus; page: number }
+) => {
+  const where: Prisma.OrderWhereInput = { userId, status };
+  const [orders, total] = await prisma.$transaction([
+    prisma.order.findMany({
+      where,
+      include: orderDetailsInclude,
+      orderBy: { placedOn: "desc" },
+      skip: (page - 1) * CUSTOMER_ORDERS_PAGE_SIZE,
+      take: CUSTOMER_ORDERS_PAGE_SIZE,
+    }),
+    prisma.order.count({ where }),
+  ]);
+
+  return {
+    orders: orders.map(serializeOrder),
+    page,
+    pageCount: Math.max(1, Math.ceil(total / CUSTOMER_ORDERS_PAGE_SIZE)),
+    total,
+  };
+};
+
+/**
+ * Cancels an order whose online payment failed or timed out, so its stock
+ * goes back on sale instead of waiting on a payment that won't come. Orders
+ * that already moved past placed are left for staff. Returns whether the
+ * order was cancelled.
+ */
+export const cancelUnpaidOrder = async (
+  orderNumber: string,
+  reason: string
+) => {
+  const cancelled = await prisma.$transaction(async (tx) => {
+    const order = await tx.order.findUnique({
+      where: { orderNumber },
+      select: { id: true, status: true },
+    });
+
+    if (order?.status !== "placed") {
+      return false;
+    }
+
+    try {
+      await transitionOrderStatus(
+        tx,
+        order.id,
+        "cancelled",
+        { type: "system" },
+        reason
+      );
+    } catch (error) {
+      // Staff moved the order at the same moment
+      if (error instanceof InvalidStatusTransitionError) {
+        return false;
+      }
+
+      throw error;
+    }
+
+    return true;
+  });
+
+  if (cancelled) {
+    await publishOrderStatus(orderNumber);
+  }
+
+  return cancelled;
+};
@@ -0,0 +1,19 @@
+import { PaymentVerificationError } from "./errors";
+import type { PaymentProvider } from "./types";
+
+// Cash is collected by the courier, so there is nothing to redirect to and
+// the payment stays pending until the order is delivered.
+export const cashOnDelivery: PaymentProvider = {
+  method: "cod",
+  name: "Cash on Delivery",
+  createIntent: async ({ orderNumber }) => ({
+    reference: `COD-${orderNumber}`,
+    status: "pending",
+  }),
+  verifyCallback: async () => {
+    throw new PaymentVerificationError("Cash on delivery has no callbacks");
+  },
+  confirm: async () => ({ status: "pending" }),
+  // Cash refunds are handed back by the support team
+  refund: async () => ({ status: "refunded" }),
+};
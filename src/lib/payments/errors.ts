@@ -0,0 +1,20 @@
+export class PaymentVerificationError extends Error {
+  constructor(message = "The payment callback could not be verified") {
+    super(message);
+    this.name = "PaymentVerificationError";
+  }
+}
+
+export class PaymentNotFoundError extends Error {
+  constructor(reference: string) {
+    super(`Payment ${reference} was not found`);
+    this.name = "PaymentNotFoundError";
+  }
+}
+
+export class RefundNotAllowedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RefundNotAllowedError";
+  }
+}
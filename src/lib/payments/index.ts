@@ -0,0 +1,272 @@
+import type { Payment, Prisma } from "@prisma/client";
+
+import { prisma } from "@/lib/prisma";
+import { cashOnDelivery } from "./cod";
+import {
+  PaymentNotFoundError,
+  PaymentVerificationError,
+  RefundNotAllowedError,
+} from "./errors";
+import {
+  PAYMENT_METHOD_IDS,
+  type PaymentMethodId,
+  type PaymentStatus,
+  findPaymentMethod,
+} from "./methods";
+import { createMockProvider, isMockGatewayEnabled } from "./mock-gateway";
+import type { PaymentProvider, PaymentResult } from "./types";
+
+// The online methods run against the mock gateway outside production until
+// live merchant accounts are set up; a live adapter only has to implement
+// PaymentProvider. Methods without one aren't offered at checkout.
+const PAYMENT_PROVIDERS: Partial<Record<PaymentMethodId, PaymentProvider>> = {
+  cod: cashOnDelivery,
+  ...(isMockGatewayEnabled() && {
+    bkash: createMockProvider("bkash", "bKash"),
+    nagad: createMockProvider("nagad", "Nagad"),
+    card: createMockProvider("card", "SSLCommerz"),
+  }),
+};
+
+export const getPaymentProvider = (method: PaymentMethodId) =>
+  PAYMENT_PROVIDERS[method];
+
+export const getAvailablePaymentMethods = () =>
+  PAYMENT_METHOD_IDS.filter((method) => method in PAYMENT_PROVIDERS);
+
+// Money that arrives moves from the order's balance due to its paid amount.
+// The status guard keeps two callbacks for one payment from counting it twice.
+// Money for an order cancelled in the meantime is owed straight back.
+const applyResult = (payment: Payment, result: PaymentResult) =>
+  prisma.$transaction(async (tx) => {
+    const order = await tx.order.findUniqueOrThrow({
+      where: { id: payment.orderId },
+      select: { status: true },
+    });
+    const { count } = await tx.payment.updateMany({
+      where: { id: payment.id, status: payment.status },
+      data: {
+        status:
+          result.status === "paid" && order.status === "cancelled"
+            ? "refund-pending"
+            : result.status,
+        failureReason: result.reason ?? null,
+        paidAt: result.status === "paid" ? new Date() : undefined,
+        // The gateway page can't be reused once the payment has settled
+        redirectUrl: result.status === "pending" ? undefined : null,
+      },
+    });
+
+    if (count > 0 && result.status === "paid") {
+      await tx.order.update({
+        where: { id: payment.orderId },
+        data: {
+          amountPaid: { increment: payment.amount },
+          amountDue: { decrement: payment.amount },
+        },
+      });
+    }
+
+    return tx.payment.findUniqueOrThrow({ where: { id: payment.id } });
+  });
+
+/**
+ * Opens a payment with the gateway for a payment row saved with its order.
+ * A gateway that can't be reached fails the payment instead of the order.
+ */
+export const startPayment = async (
+  paymentId: string,
+  orderNumber: string,
+  callbackUrl: string
+) => {
+  const payment = await prisma.payment.findUniqueOrThrow({
+    where: { id: paymentId },
+  });
+  const provider = getPaymentProvider(payment.method as PaymentMethodId);
+
+  if (!provider) {
+    return applyResult(payment, {
+      status: "failed",
+      reason: `${findPaymentMethod(payment.method)?.title ?? payment.method} isn't available`,
+    });
+  }
+
+  try {
+    const intent = await provider.createIntent({
+      orderNumber,
+      amount: payment.amount,
+      callbackUrl,
+    });
+
+    return prisma.payment.update({
+      where: { id: payment.id },
+      data: {
+        reference: intent.reference,
+        status: intent.status,
+        redirectUrl: intent.redirectUrl ?? null,
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to start a ${provider.name} payment`, error);
+    return applyResult(payment, {
+      status: "failed",
+      reason: `${provider.name} could not be reached`,
+    });
+  }
+};
+
+/**
+ * Verifies a gateway callback and asks the gateway how the payment ended.
+ * Callbacks for payments that already settled are ignored, so a shopper
+ * reloading the return page can't change the outcome.
+ */
+export const handlePaymentCallback = async (
+  method: PaymentMethodId,
+  params: URLSearchParams
+) => {
+  const provider = getPaymentProvider(method);
+
+  if (!provider) {
+    throw new PaymentVerificationError();
+  }
+
+  const reference = await provider.verifyCallback(params);
+  const payment = await prisma.payment.findFirst({
+    where: { reference, method },
+    include: { order: { select: { orderNumber: true } } },
+  });
+
+  if (!payment) {
+    throw new PaymentNotFoundError(reference);
+  }
+
+  if (payment.status !== "pending") {
+    return {
+      orderNumber: payment.order.orderNumber,
+      status: payment.status as PaymentStatus,
+    };
+  }
+
+  const updated = await applyResult(payment, await provider.confirm(reference));
+
+  return {
+    orderNumber: payment.order.orderNumber,
+    status: updated.status as PaymentStatus,
+  };
+};
+
+/**
+ * Refunds `amount` of a collected payment, or whatever is left of it. The
+ * refund is claimed in the database before the gateway is asked, on the
+ * condition that nobody else refunded in between, so two staff pressing
+ * refund at once can't give the money back twice. Returns null when the
+ * order has no such payment.
+ */
+export const refundPayment = async (
+  orderNumber: string,
+  paymentId: string,
+  amount?: number,
+  reason?: string
+) => {
+  const payment = await prisma.payment.findFirst({
+    where: { id: paymentId, order: { orderNumber } },
+  });
+
+  if (!payment) {
+    return null;
+  }
+
+  const provider = getPaymentProvider(payment.method as PaymentMethodId);
+
+  const isCollected =
+    payment.status === "paid" || payment.status === "refund-pending";
+
+  if (!isCollected || !payment.reference || !provider) {
+    throw new RefundNotAllowedError("Only collected payments can be refunded");
+  }
+
+  const reference = payment.reference;
+  const remaining = payment.amount - payment.refundedAmount;
+  const refundAmount = amount ?? remaining;
+
+  if (refundAmount <= 0 || refundAmount > remaining) {
+    throw new RefundNotAllowedError(
+      `Up to ${remaining} of this payment can be refunded`
+    );
+  }
+
+  await prisma.$transaction(async (tx) => {
+    const { count } = await tx.payment.updateMany({
+      where: {
+        id: payment.id,
+        status: payment.status,
+        refundedAmount: payment.refundedAmount,
+      },
+      data: { refundedAmount: { increment: refundAmount } },
+    });
+
+    if (count === 0) {
+      throw new RefundNotAllowedError(
+        "This payment changed while it was being refunded. Reload and try again."
+      );
+    }
+
+    await tx.order.update({
+      where: { id: payment.orderId },
+      data: { amountPaid: { decrement: refundAmount } },
+    });
+  });
+
+  let result: PaymentResult;
+
+  try {
+    result = await provider.refund({
+      reference,
+      amount: refundAmount,
+      reason,
+    });
+  } catch (error) {
+    // The gateway kept the money, so hand the claim back
+    await prisma.$transaction([
+      prisma.payment.update({
+        where: { id: payment.id },
+        data: { refundedAmount: { decrement: refundAmount } },
+      }),
+      prisma.order.update({
+        where: { id: payment.orderId },
+        data: { amountPaid: { increment: refundAmount } },
+      }),
+    ]);
+    throw error;
+  }
+
+  // A partial refund leaves the payment as it was, still owing the rest
+  return prisma.payment.update({
+    where: { id: payment.id },
+    data: { status: result.status === "paid" ? payment.status : result.status },
+  });
+};
+
+// The courier hands the cash over once the parcel is delivered
+export const collectCashOnDelivery = async (
+  tx: Prisma.TransactionClient,
+  orderId: string
+) => {
+  const payments = await tx.payment.findMany({
+    where: { orderId, method: "cod", status: "pending" },
+  });
+
+  for (const payment of payments) {
+    await tx.payment.update({
+      where: { id: payment.id },
+      data: { status: "paid", paidAt: new Date() },
+    });
+    await tx.order.update({
+      where: { id: orderId },
+      data: {
+        amountPaid: { increment: payment.amount },
+        amountDue: { decrement: payment.amount },
+      },
+    });
+  }
+};
@@ -0,0 +1,41 @@
+export const PAYMENT_METHODS = [
+  {
+    id: "cod",
+    title: "Cash on Delivery",
+    description: "Pay when your package arrives at your doorstep.",
+  },
+  {
+    id: "bkash",
+    title: "bKash",
+    description: "Secure digital payment through your bKash wallet.",
+  },
+  {
+    id: "nagad",
+    title: "Nagad",
+    description: "Instant payment using your Nagad mobile wallet.",
+  },
+  {
+    id: "card",
+    title: "Credit / Debit Card",
+    description: "Use any Bangladeshi issued Visa, Mastercard or AMEX.",
+  },
+] as const;
+
+export type PaymentMethodId = (typeof PAYMENT_METHODS)[number]["id"];
+
+export const PAYMENT_METHOD_IDS = PAYMENT_METHODS.map(
+  (method) => method.id
+) as [PaymentMethodId, ...PaymentMethodId[]];
+
+// refund-pending: collected for an order that was cancelled, and not yet
+// given back
+export type PaymentStatus =
+  | "pending"
+  | "paid"
+  | "failed"
+  | "expired"
+  | "refund-pending"
+  | "refunded";
+
+export const findPaymentMethod = (id: string) =>
+  PAYMENT_METHODS.find((method) => method.id === id);
@@ -0,0 +1,162 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+
+import { PaymentVerificationError } from "./errors";
+import type { PaymentMethodId } from "./methods";
+import type { PaymentProvider, PaymentResult } from "./types";
+
+export const MOCK_OUTCOMES = ["success", "failure", "timeout"] as const;
+
+export type MockOutcome = (typeof MOCK_OUTCOMES)[number];
+
+// Never in production, where shoppers could approve their own payments. Set
+// MOCK_PAYMENTS=false to try checkout with cash on delivery only.
+export const isMockGatewayEnabled = () =>
+  process.env.NODE_ENV !== "production" &&
+  process.env.MOCK_PAYMENTS !== "false";
+
+// Sessions the shopper doesn't finish in time expire, like a bKash checkout
+const MOCK_SESSION_TTL_MS = 15 * 60 * 1000;
+
+export type MockSession = {
+  reference: string;
+  gateway: string;
+  orderNumber: string;
+  amount: number;
+  refundedAmount: number;
+  callbackUrl: string;
+  createdAt: number;
+  outcome?: MockOutcome;
+};
+
+// Sessions live in memory, so they survive hot reloads but not a restart
+const globalForMockGateway = globalThis as unknown as {
+  mockGateway:
+    | { secret: Buffer; sessions: Map<string, MockSession> }
+    | undefined;
+};
+
+const mockGateway = (globalForMockGateway.mockGateway ??= {
+  secret: randomBytes(32),
+  sessions: new Map(),
+});
+
+const sign = (reference: string, outcome: string) =>
+  createHmac("sha256", mockGateway.secret)
+    .update(`${reference}:${outcome}`)
+    .digest("hex");
+
+export const getMockSession = (reference: string) =>
+  mockGateway.sessions.get(reference);
+
+/**
+ * Records the outcome the tester picked on the mock gateway page and returns
+ * the signed callback URL the gateway would send the shopper back to.
+ */
+export const completeMockSession = (
+  reference: string,
+  outcome: MockOutcome
+) => {
+  const session = mockGateway.sessions.get(reference);
+
+  if (!session) {
+    return null;
+  }
+
+  session.outcome ??= outcome;
+
+  const callbackUrl = new URL(session.callbackUrl);
+  callbackUrl.searchParams.set("reference", reference);
+  callbackUrl.searchParams.set("outcome", session.outcome);
+  callbackUrl.searchParams.set("signature", sign(reference, session.outcome));
+
+  return callbackUrl;
+};
+
+const toResult = (session: MockSession | undefined): PaymentResult => {
+  if (!session) {
+    return { status: "failed", reason: "The payment session was not found" };
+  }
+
+  if (session.refundedAmount >= session.amount) {
+    return { status: "refunded" };
+  }
+
+  switch (session.outcome) {
+    case "success":
+      return { status: "paid" };
+    case "failure":
+      return { status: "failed", reason: "The payment was declined" };
+    case "timeout":
+      return { status: "expired", reason: "The payment session timed out" };
+    default:
+      return Date.now() - session.createdAt > MOCK_SESSION_TTL_MS
+        ? { status: "expired", reason: "The payment session timed out" }
+        : { status: "pending" };
+  }
+};
+
+/**
+ * A stand-in for the bKash, Nagad and SSLCommerz checkouts. Shoppers are sent
+ * to /payments/mock/<reference>, where the outcome is picked by hand, so the
+ * whole payment flow can be exercised without gateway credentials.
+ */
+export const createMockProvider = (
+  method: PaymentMethodId,
+  gateway: string
+): PaymentProvider => ({
+  method,
+  name: gateway,
+  createIntent: async ({ orderNumber, amount, callbackUrl }) => {
+    const reference = `${method.toUpperCase()}-${randomUUID()}`;
+
+    mockGateway.sessions.set(reference, {
+      reference,
+      gateway,
+      orderNumber,
+      amount,
+      refundedAmount: 0,
+      callbackUrl,
+      createdAt: Date.now(),
+    });
+
+    return {
+      reference,
+      status: "pending",
+      redirectUrl: new URL(
+        `/payments/mock/${reference}`,
+        callbackUrl
+      ).toString(),
+    };
+  },
+  verifyCallback: async (params) => {
+    const reference = params.get("reference") ?? "";
+    const outcome = params.get("outcome") ?? "";
+    const expected = Buffer.from(sign(reference, outcome));
+    const signature = Buffer.from(params.get("signature") ?? "");
+
+    if (
+      signature.length !== expected.length ||
+      !timingSafeEqual(signature, expected)
+    ) {
+      throw new PaymentVerificationError();
+    }
+
+    return reference;
+  },
+  confirm: async (reference) => toResult(mockGateway.sessions.get(reference)),
+  refund: async ({ reference, amount }) => {
+    const session = mockGateway.sessions.get(reference);
+
+    if (!session || session.outcome !== "success") {
+      throw new Error(`Payment ${reference} has not been collected`);
+    }
+
+    if (amount > session.amount - session.refundedAmount) {
+      throw new Error(`Refund of ${amount} exceeds what was paid`);
+    }
+
+    session.refundedAmount += amount;
+
+    return toResult(session);
+  },
+});
@@ -0,0 +1,43 @@
+import type { PaymentMethodId, PaymentStatus } from "./methods";
+
+export type PaymentIntentInput = {
+  orderNumber: string;
+  amount: number;
+  // Where the gateway sends the shopper back once they leave its page
+  callbackUrl: string;
+};
+
+export type PaymentIntent = {
+  reference: string;
+  status: PaymentStatus;
+  // Set when the shopper has to approve the payment on the gateway's page
+  redirectUrl?: string;
+};
+
+export type PaymentResult = {
+  status: PaymentStatus;
+  reason?: string;
+};
+
+export type RefundInput = {
+  reference: string;
+  amount: number;
+  reason?: string;
+};
+
+/**
+ * What checkout needs from a payment gateway. Gateways that collect money up
+ * front hand back a `redirectUrl` from `createIntent`, send the shopper to
+ * `callbackUrl` afterwards and are asked to `confirm` the payment once the
+ * callback has been verified.
+ */
+export interface PaymentProvider {
+  method: PaymentMethodId;
+  name: string;
+  createIntent(input: PaymentIntentInput): Promise<PaymentIntent>;
+  // Returns the reference of the payment the callback is about; throws
+  // PaymentVerificationError when the callback didn't come from the gateway.
+  verifyCallback(params: URLSearchParams): Promise<string>;
+  confirm(reference: string): Promise<PaymentResult>;
+  refund(input: RefundInput): Promise<PaymentResult>;
+}
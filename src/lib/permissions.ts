@@ -0,0 +1,37 @@
+export const ROLES = ["customer", "support", "fulfillment", "admin"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const PERMISSIONS = [
+  "orders:read",
+  "orders:note",
+  "orders:status",
+  "orders:shipment",
+  "payments:refund",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+// Support answers customers about their orders; fulfillment also moves them
+// through the warehouse and books couriers. Only admins give money back.
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  customer: [],
+  support: ["orders:read", "orders:note"],
+  fulfillment: [
+    "orders:read",
+    "orders:note",
+    "orders:status",
+    "orders:shipment",
+  ],
+  admin: PERMISSIONS,
+};
+
+export const isRole = (value: string): value is Role =>
+  (ROLES as readonly string[]).includes(value);
+
+// Unknown roles, like ones removed from the list above, get no permissions
+export const hasPermission = (role: string, permission: Permission) =>
+  isRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+
+export const isStaffRole = (role: string) =>
+  isRole(role) && ROLE_PERMISSIONS[role].length > 0;
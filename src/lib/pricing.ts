@@ -0,0 +1,98 @@
+import type { Discount } from "@/types/product.types";
+
+export type PricedLine = {
+  price: number;
+  discount: Discount;
+  quantity: number;
+};
+
+export type OrderTotals = {
+  subtotal: number;
+  discountTotal: number;
+  promotionDiscount: number;
+  couponDiscount: number;
+  deliveryFee: number;
+  totalAmount: number;
+  itemsCount: number;
+};
+
+export const hasDiscount = (discount: Discount) =>
+  discount.percentage > 0 || discount.amount > 0;
+
+/**
+ * Unit price after the product discount. A percentage discount wins over a
+ * fixed amount, percentages round to the nearest whole unit and the price
+ * never drops below zero.
+ */
+export const getDiscountedPrice = (price: number, discount: Discount) => {
+  if (discount.percentage > 0) {
+    return Math.max(Math.round(price - (price * discount.percentage) / 100), 0);
+  }
+
+  if (discount.amount > 0) {
+    return Math.max(price - discount.amount, 0);
+  }
+
+  return price;
+};
+
+export const formatDiscount = (discount: Discount) =>
+  discount.percentage > 0 ? `-${discount.percentage}%` : `-$${discount.amount}`;
+
+export const getLineSubtotal = (line: PricedLine) => line.price * line.quantity;
+
+export const getLineTotal = (line: PricedLine) =>
+  getDiscountedPrice(line.price, line.discount) * line.quantity;
+
+export type TotalsAdjustments = {
+  deliveryFee?: number;
+  promotionDiscount?: number;
+  couponDiscount?: number;
+};
+
+export const calculateTotals = (
+  lines: PricedLine[],
+  {
+    deliveryFee = 0,
+    promotionDiscount = 0,
+    couponDiscount = 0,
+  }: TotalsAdjustments = {}
+): OrderTotals => {
+  const subtotal = lines.reduce(
+    (total, line) => total + getLineSubtotal(line),
+    0
+  );
+  const discountedSubtotal = lines.reduce(
+    (total, line) => total + getLineTotal(line),
+    0
+  );
+  // Promotions, then coupons, can bring the items down to zero but never
+  // below it
+  const appliedPromotionDiscount = Math.min(
+    promotionDiscount,
+    discountedSubtotal
+  );
+  const appliedCouponDiscount = Math.min(
+    couponDiscount,
+    discountedSubtotal - appliedPromotionDiscount
+  );
+
+  return {
+    subtotal,
+    discountTotal: subtotal - discountedSubtotal,
+    promotionDiscount: appliedPromotionDiscount,
+    couponDiscount: appliedCouponDiscount,
+    deliveryFee,
+    totalAmount:
+      discountedSubtotal -
+      appliedPromotionDiscount -
+      appliedCouponDiscount +
+      deliveryFee,
+    itemsCount: lines.reduce((total, line) => total + line.quantity, 0),
+  };
+};
+
+export const getDiscountRate = (totals: OrderTotals) =>
+  totals.subtotal > 0
+    ? Math.round((totals.discountTotal / totals.subtotal) * 100)
+    : 0;
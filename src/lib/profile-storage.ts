@@ -1,11 +1,18 @@
 import { PROFILE_STORAGE_KEY_PREFIX } from "./constants";
 
+// Delivery details used to be kept only in this browser. They now live in the
+// account's address book, and these helpers only exist to move them there.
+
 export type StoredProfileData = {
   fullName: string;
   email: string;
   phone: string;
   city: string;
   postalCode: string;
+  // Saved before the area picker existed, profiles only have `city`
+  divisionId?: string;
+  districtId?: string;
+  thanaId?: string;
   addressLine1: string;
   apartment?: string;
   roadNo?: string;
@@ -45,29 +52,43 @@ export const getStoredProfile = (userId: string) => {
   }
 };
 
-export const setStoredProfile = (userId: string, value: StoredProfile) => {
+export const clearStoredProfile = (userId: string) => {
   if (typeof window === "undefined") {
     return;
   }
 
   try {
-    window.localStorage.setItem(
-      buildStorageKey(userId),
-      JSON.stringify(value)
-    );
+    window.localStorage.removeItem(buildStorageKey(userId));
   } catch (error) {
-    console.error("Failed to save profile data", error);
+    console.error("Failed to clear profile data", error);
   }
 };
 
-export const clearStoredProfile = (userId: string) => {
-  if (typeof window === "undefined") {
+/**
+ * Moves a profile saved in this browser into the signed-in customer's address
+ * book. The server ignores it when the account already has addresses, and the
+ * local copy is dropped either way once the request succeeds.
+ */
+export const migrateStoredProfile = async (userId: string) => {
+  const stored = getStoredProfile(userId);
+
+  if (!stored) {
     return;
   }
 
   try {
-    window.localStorage.removeItem(buildStorageKey(userId));
+    const response = await fetch("/api/auth/profile/addresses/import", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      credentials: "include",
+      body: JSON.stringify(stored.data),
+    });
+
+    // A profile the server can't read would be retried on every visit
+    if (response.ok || response.status === 400) {
+      clearStoredProfile(userId);
+    }
   } catch (error) {
-    console.error("Failed to clear profile data", error);
+    console.error("Failed to import saved profile", error);
   }
 };
@@ -0,0 +1,192 @@
+import type { Discount } from "@/types/product.types";
+import { getDiscountedPrice } from "./pricing";
+
+export type PromotionType = "buy-x-get-y" | "spend-threshold" | "category-sale";
+
+export type PromotionRule = {
+  id: string;
+  name: string;
+  description?: string;
+  type: PromotionType;
+  buyQuantity: number;
+  getQuantity: number;
+  minSpend: number;
+  percentage: number;
+  // Category slugs the promotion is limited to; empty means every product
+  categories: string[];
+  priority: number;
+};
+
+export type PromotionLine = {
+  variantId: number;
+  category?: string;
+  price: number;
+  discount: Discount;
+  quantity: number;
+};
+
+export type LinePromotion = {
+  variantId: number;
+  promotionId: string;
+  name: string;
+  discount: number;
+};
+
+export type AppliedPromotion = {
+  id: string;
+  name: string;
+  discount: number;
+  variantIds: number[];
+};
+
+export type PromotionResult = {
+  lines: LinePromotion[];
+  applied: AppliedPromotion[];
+  discount: number;
+};
+
+const appliesTo = (rule: PromotionRule, line: PromotionLine) =>
+  rule.categories.length === 0 ||
+  (line.category !== undefined && rule.categories.includes(line.category));
+
+const getUnitPrice = (line: PromotionLine) =>
+  getDiscountedPrice(line.price, line.discount);
+
+// Every complete group of buy + get units makes the cheapest `get` units in
+// it free, so shoppers can't pick the most expensive item as the freebie.
+const evaluateBuyXGetY = (rule: PromotionRule, lines: PromotionLine[]) => {
+  const groupSize = rule.buyQuantity + rule.getQuantity;
+  const units = lines
+    .flatMap((line) =>
+      Array.from({ length: line.quantity }, () => ({
+        variantId: line.variantId,
+        price: getUnitPrice(line),
+      }))
+    )
+    .sort((a, b) => a.price - b.price);
+  const freeUnits =
+    groupSize > 0 && rule.getQuantity > 0
+      ? Math.floor(units.length / groupSize) * rule.getQuantity
+      : 0;
+  const discounts = new Map<number, number>();
+
+  units.slice(0, freeUnits).forEach((unit) => {
+    discounts.set(
+      unit.variantId,
+      (discounts.get(unit.variantId) ?? 0) + unit.price
+    );
+  });
+
+  return discounts;
+};
+
+const evaluateCategorySale = (rule: PromotionRule, lines: PromotionLine[]) =>
+  new Map(
+    lines.map((line) => [
+      line.variantId,
+      Math.round((getUnitPrice(line) * line.quantity * rule.percentage) / 100),
+    ])
+  );
+
+/**
+ * Evaluates the active promotions against a bag. Line promotions (buy X get
+ * Y, category sales) run in priority order and a line only ever gets one of
+ * them. Spend thresholds then apply to what is left of the value of the lines
+ * in their categories, and only the best one counts.
+ */
+export const evaluatePromotions = (
+  rules: PromotionRule[],
+  lines: PromotionLine[]
+): PromotionResult => {
+  const sorted = [...rules].sort((a, b) => b.priority - a.priority);
+  const linePromotions: LinePromotion[] = [];
+  const applied: AppliedPromotion[] = [];
+  const promoted = new Set<number>();
+
+  sorted
+    .filter((rule) => rule.type !== "spend-threshold")
+    .forEach((rule) => {
+      const eligible = lines.filter(
+        (line) => !promoted.has(line.variantId) && appliesTo(rule, line)
+      );
+      const discounts =
+        rule.type === "buy-x-get-y"
+          ? evaluateBuyXGetY(rule, eligible)
+          : evaluateCategorySale(rule, eligible);
+      const discounted = Array.from(discounts.entries()).filter(
+        ([, discount]) => discount > 0
+      );
+
+      if (discounted.length === 0) {
+        return;
+      }
+
+      discounted.forEach(([variantId, discount]) => {
+        promoted.add(variantId);
+        linePromotions.push({
+          variantId,
+          promotionId: rule.id,
+          name: rule.name,
+          discount,
+        });
+      });
+      applied.push({
+        id: rule.id,
+        name: rule.name,
+        discount: discounted.reduce(
+          (total, [, discount]) => total + discount,
+          0
+        ),
+        variantIds: discounted.map(([variantId]) => variantId),
+      });
+    });
+
+  const lineDiscount = linePromotions.reduce(
+    (total, line) => total + line.discount,
+    0
+  );
+  // What is left of the lines a threshold covers after their line promotions
+  const getRemaining = (rule: PromotionRule) =>
+    lines
+      .filter((line) => appliesTo(rule, line))
+      .reduce(
+        (total, line) =>
+          total +
+          getUnitPrice(line) * line.quantity -
+          linePromotions
+            .filter((promotion) => promotion.variantId === line.variantId)
+            .reduce((sum, promotion) => sum + promotion.discount, 0),
+        0
+      );
+
+  const threshold = sorted
+    .filter((rule) => rule.type === "spend-threshold")
+    .map((rule) => {
+      const remaining = getRemaining(rule);
+
+      return {
+        rule,
+        discount:
+          remaining >= rule.minSpend
+            ? Math.round((remaining * rule.percentage) / 100)
+            : 0,
+      };
+    })
+    .filter((candidate) => candidate.discount > 0)
+    .sort((a, b) => b.discount - a.discount)[0];
+
+  if (threshold) {
+    applied.push({
+      id: threshold.rule.id,
+      name: threshold.rule.name,
+      discount: threshold.discount,
+      variantIds: [],
+    });
+  }
+
+  return {
+    lines: linePromotions,
+    applied,
+    discount: lineDiscount + (threshold?.discount ?? 0),
+  };
+};
@@ -0,0 +1,96 @@
+export type RateLimitRule = {
+  // Keeps the counters of different rules apart
+  name: string;
+  limit: number;
+  windowMs: number;
+};
+
+type RateLimitWindow = {
+  count: number;
+  resetAt: number;
+};
+
+// Counters live in memory, so each server instance limits on its own and a
+// restart clears them. That's enough to slow scraping from one address.
+const globalForRateLimit = globalThis as unknown as {
+  rateLimitWindows: Map<string, RateLimitWindow> | undefined;
+};
+
+const windows = (globalForRateLimit.rateLimitWindows ??= new Map());
+
+const MAX_TRACKED_KEYS = 10_000;
+
+const sweepExpired = (now: number) => {
+  windows.forEach((window, id) => {
+    if (window.resetAt <= now) {
+      windows.delete(id);
+    }
+  });
+};
+
+const getWindow = (id: string, rule: RateLimitRule, now: number) => {
+  const current = windows.get(id);
+
+  return current && current.resetAt > now
+    ? current
+    : { count: 0, resetAt: now + rule.windowMs };
+};
+
+/**
+ * Counts a request from `key` against `rule` using fixed windows. Returns
+ * whether it's within the limit and how many seconds remain in the window.
+ */
+export const consumeRateLimit = (
+  rule: RateLimitRule,
+  key: string,
+  now = Date.now()
+) => {
+  const id = `${rule.name}:${key}`;
+  const window = getWindow(id, rule, now);
+
+  window.count += 1;
+  windows.set(id, window);
+
+  if (windows.size > MAX_TRACKED_KEYS) {
+    sweepExpired(now);
+  }
+
+  return {
+    allowed: window.count <= rule.limit,
+    retryAfterSeconds: Math.ceil((window.resetAt - now) / 1000),
+  };
+};
+
+// Whether `key` has any requests left under `rule`, without counting one
+export const checkRateLimit = (
+  rule: RateLimitRule,
+  key: string,
+  now = Date.now()
+) => {
+  const window = getWindow(`${rule.name}:${key}`, rule, now);
+
+  return {
+    allowed: window.count < rule.limit,
+    retryAfterSeconds: Math.ceil((window.resetAt - now) / 1000),
+  };
+};
+
+// Each proxy in front of the app appends the address it got the request from
+// to X-Forwarded-For. Anything to the left of those entries came from the
+// client and can be anything, so only the entry our own proxies wrote counts.
+const getTrustedProxyHops = () => {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? 1);
+
+  return Number.isInteger(hops) && hops > 0 ? hops : 1;
+};
+
+export const getClientIp = (request: Request) => {
+  const addresses =
+    request.headers
+      .get("x-forwarded-for")
+      ?.split(",")
+      .map((address) => address.trim())
+      .filter(Boolean) ?? [];
+
+  return addresses[addresses.length - getTrustedProxyHops()] ?? "unknown";
+};
@@ -0,0 +1,37 @@
+import type { Address } from "@prisma/client";
+
+export type SavedAddress = {
+  id: string;
+  label: string;
+  fullName: string;
+  phone: string;
+  addressLine1: string;
+  apartment?: string;
+  roadNo?: string;
+  city: string;
+  postalCode: string;
+  divisionId?: string;
+  districtId?: string;
+  thanaId?: string;
+  additionalInfo?: string;
+  isDefault: boolean;
+  updatedAt: string;
+};
+
+export const serializeAddress = (address: Address): SavedAddress => ({
+  id: address.id,
+  label: address.label,
+  fullName: address.fullName,
+  phone: address.phone,
+  addressLine1: address.addressLine1,
+  apartment: address.apartment ?? undefined,
+  roadNo: address.roadNo ?? undefined,
+  city: address.city,
+  postalCode: address.postalCode,
+  divisionId: address.divisionId ?? undefined,
+  districtId: address.districtId ?? undefined,
+  thanaId: address.thanaId ?? undefined,
+  additionalInfo: address.additionalInfo ?? undefined,
+  isDefault: address.isDefault,
+  updatedAt: address.updatedAt.toISOString(),
+});
@@ -0,0 +1,68 @@
+import type {
+  Order,
+  OrderItem,
+  OrderNote,
+  OrderStatusEvent,
+  Payment,
+} from "@prisma/client";
+
+import { ORDER_STATUS_TRANSITIONS } from "@/lib/order-status";
+import type {
+  OrderStatus,
+  StaffOrder,
+  StaffOrderSummary,
+} from "@/lib/data/orders";
+import { serializeOrder } from "./order";
+
+type StaffOrderWithDetails = Order & {
+  user: { email: string } | null;
+  items: OrderItem[];
+  payments: Payment[];
+  statusEvents: (OrderStatusEvent & { actor: { fullName: string } | null })[];
+  staffNotes: (OrderNote & { author: { fullName: string } | null })[];
+};
+
+export const serializeStaffOrderSummary = (
+  order: Order
+): StaffOrderSummary => ({
+  id: order.orderNumber,
+  placedOn: order.placedOn.toISOString(),
+  status: order.status as OrderStatus,
+  paymentMethod: order.paymentMethod,
+  totalAmount: order.totalAmount,
+  amountDue: order.amountDue,
+  itemsCount: order.itemsCount,
+  customerName: order.shippingName,
+  phone: order.shippingPhone,
+  city: order.shippingCity,
+  trackingNumber: order.trackingNumber ?? undefined,
+});
+
+export const serializeStaffOrder = (
+  order: StaffOrderWithDetails
+): StaffOrder => {
+  const serialized = serializeOrder(order);
+
+  return {
+    ...serialized,
+    customerEmail: order.user?.email,
+    courier: order.courier ?? undefined,
+    trackingNumber: order.trackingNumber ?? undefined,
+    nextStatuses: ORDER_STATUS_TRANSITIONS[serialized.status] ?? [],
+    events: order.statusEvents.map((event) => ({
+      id: event.id,
+      fromStatus: (event.fromStatus as OrderStatus | null) ?? undefined,
+      toStatus: event.toStatus as OrderStatus,
+      actorType: event.actorType,
+      actorName: event.actor?.fullName,
+      note: event.note ?? undefined,
+      createdAt: event.createdAt.toISOString(),
+    })),
+    staffNotes: order.staffNotes.map((note) => ({
+      id: note.id,
+      body: note.body,
+      authorName: note.author?.fullName,
+      createdAt: note.createdAt.toISOString(),
+    })),
+  };
+};
@@ -0,0 +1,38 @@
+import type {
+  Cart,
+  CartLine,
+  Category,
+  Product,
+  ProductVariant,
+} from "@prisma/client";
+
+import type { CartItem } from "@/lib/features/carts/cartsSlice";
+
+type CartLineWithProduct = CartLine & {
+  product: Product & { category: Category };
+  variant: ProductVariant;
+};
+
+export type CartWithLines = Cart & {
+  lines: CartLineWithProduct[];
+};
+
+export const serializeCartLine = (line: CartLineWithProduct): CartItem => ({
+  id: line.productId,
+  variantId: line.variantId,
+  name: line.product.title,
+  srcUrl: line.product.srcUrl,
+  category: line.product.category.slug,
+  weightGrams: line.product.weightGrams,
+  price: line.variant.price ?? line.product.price,
+  attributes: [line.variant.size, line.variant.color],
+  discount: {
+    amount: line.product.discountAmount,
+    percentage: line.product.discountPercentage,
+  },
+  quantity: line.quantity,
+});
+
+export const serializeCart = (cart: CartWithLines | null) => ({
+  items: cart?.lines.map(serializeCartLine) ?? [],
+});
@@ -1,24 +1,82 @@
-import type { Order, Prisma } from "@prisma/client";
+import type {
+  Order,
+  OrderItem,
+  OrderStatusEvent,
+  Payment,
+} from "@prisma/client";
 
-import type { OrderTimelineStep, OrderTracking } from "@/lib/data/orders";
+import { toDeliveryDay } from "@/lib/delivery-estimate";
+import { buildOrderTimeline } from "@/lib/order-status";
+import type { AppliedPromotion } from "@/lib/promotions";
+import type { PaymentMethodId, PaymentStatus } from "@/lib/payments/methods";
+import type {
+  OrderLineItem,
+  OrderPayment,
+  OrderStatus,
+  OrderTracking,
+} from "@/lib/data/orders";
 
-type OrderWithHistory = Order & {
-  statusHistory: Prisma.JsonValue;
+type OrderWithDetails = Order & {
+  items: OrderItem[];
+  payments: Payment[];
+  statusEvents: OrderStatusEvent[];
 };
 
-export const serializeOrder = (order: OrderWithHistory): OrderTracking => {
-  const history = (Array.isArray(order.statusHistory)
-    ? order.statusHistory
-    : []) as OrderTimelineStep[];
+export const serializeOrderItem = (item: OrderItem): OrderLineItem => ({
+  productId: item.productId ?? undefined,
+  variantId: item.variantId ?? undefined,
+  title: item.title,
+  srcUrl: item.srcUrl,
+  attributes: item.attributes,
+  unitPrice: item.unitPrice,
+  discount: {
+    amount: item.discountAmount,
+    percentage: item.discountPercentage,
+  },
+  quantity: item.quantity,
+  lineTotal: item.lineTotal,
+});
+
+export const serializePayment = (payment: Payment): OrderPayment => ({
+  id: payment.id,
+  method: payment.method as PaymentMethodId,
+  status: payment.status as PaymentStatus,
+  amount: payment.amount,
+  refundedAmount: payment.refundedAmount,
+  redirectUrl: payment.redirectUrl ?? undefined,
+  failureReason: payment.failureReason ?? undefined,
+});
+
+export const serializeOrder = (order: OrderWithDetails): OrderTracking => {
+  const status = order.status as OrderStatus;
 
   return {
     id: order.orderNumber,
     placedOn: order.placedOn.toISOString(),
+    subtotal: order.subtotal,
+    discountTotal: order.discountTotal,
+    promotions: (Array.isArray(order.appliedPromotions)
+      ? order.appliedPromotions
+      : []) as AppliedPromotion[],
+    promotionDiscount: order.promotionDiscount,
+    couponCode: order.couponCode ?? undefined,
+    couponDiscount: order.couponDiscount,
+    deliveryFee: order.deliveryFee,
     totalAmount: order.totalAmount,
     itemsCount: order.itemsCount,
-    status: order.status as OrderTracking["status"],
+    status,
     paymentMethod: order.paymentMethod,
+    payments: order.payments.map(serializePayment),
+    amountPaid: order.amountPaid,
+    amountDue: order.amountDue,
     estimatedDelivery: order.estimatedDelivery?.toISOString(),
+    deliveryWindow:
+      order.earliestDelivery && order.estimatedDelivery
+        ? {
+            earliest: toDeliveryDay(order.earliestDelivery),
+            latest: toDeliveryDay(order.estimatedDelivery),
+          }
+        : undefined,
     notes: order.notes ?? undefined,
     shippingAddress: {
       name: order.shippingName,
@@ -27,10 +85,11 @@ export const serializeOrder = (order: OrderWithHistory): OrderTracking => {
       addressLine2: order.shippingAddress2 ?? undefined,
       city: order.shippingCity,
       postalCode: order.shippingPostal,
+      divisionId: order.shippingDivisionId ?? undefined,
+      districtId: order.shippingDistrictId ?? undefined,
+      thanaId: order.shippingThanaId ?? undefined,
     },
-    statusHistory: history.map((step) => ({
-      ...step,
-      date: step.date,
-    })),
+    items: order.items.map(serializeOrderItem),
+    statusHistory: buildOrderTimeline(status, order.statusEvents),
   };
 };
@@ -0,0 +1,48 @@
+import type {
+  Category,
+  Product as ProductRecord,
+  ProductImage,
+  ProductVariant,
+  Style,
+} from "@prisma/client";
+
+import type { Product } from "@/types/product.types";
+
+export type ProductWithRelations = ProductRecord & {
+  category: Category;
+  style: Style;
+  images: ProductImage[];
+  variants: ProductVariant[];
+};
+
+export const serializeProduct = (product: ProductWithRelations): Product => {
+  const gallery = [...product.images]
+    .sort((a, b) => a.position - b.position)
+    .map((image) => image.url);
+
+  return {
+    id: product.id,
+    title: product.title,
+    srcUrl: product.srcUrl,
+    gallery: gallery.length > 0 ? gallery : undefined,
+    price: product.price,
+    discount: {
+      amount: product.discountAmount,
+      percentage: product.discountPercentage,
+    },
+    rating: product.rating,
+    weightGrams: product.weightGrams,
+    category: product.category.slug,
+    style: product.style.slug,
+    colors: product.colors,
+    sizes: product.sizes,
+    variants: product.variants.map((variant) => ({
+      id: variant.id,
+      sku: variant.sku,
+      size: variant.size,
+      color: variant.color,
+      stock: variant.stock,
+      price: variant.price,
+    })),
+  };
+};
@@ -0,0 +1,22 @@
+import type { Category, Promotion } from "@prisma/client";
+
+import type { PromotionRule, PromotionType } from "@/lib/promotions";
+
+type PromotionWithCategories = Promotion & {
+  categories: Pick<Category, "slug">[];
+};
+
+export const serializePromotion = (
+  promotion: PromotionWithCategories
+): PromotionRule => ({
+  id: promotion.id,
+  name: promotion.name,
+  description: promotion.description ?? undefined,
+  type: promotion.type as PromotionType,
+  buyQuantity: promotion.buyQuantity,
+  getQuantity: promotion.getQuantity,
+  minSpend: promotion.minSpend,
+  percentage: promotion.percentage,
+  categories: promotion.categories.map((category) => category.slug),
+  priority: promotion.priority,
+});
@@ -0,0 +1,132 @@
+export type ShippingZoneId = "inside-dhaka" | "dhaka-suburbs" | "outside-dhaka";
+
+export type ShippingZone = {
+  id: ShippingZoneId;
+  name: string;
+  // A thana match wins over a district match, so a zone can carve thanas
+  // out of a district that belongs to another zone
+  districts?: string[];
+  thanas?: string[];
+  baseFee: number;
+  // The base fee covers this many items and this much weight
+  includedItems: number;
+  includedWeightGrams: number;
+  perExtraItem: number;
+  perExtraKg: number;
+  // Business days from dispatch to the door
+  minTransitDays: number;
+  maxTransitDays: number;
+};
+
+export type DeliveryArea = {
+  districtId: string;
+  thanaId?: string;
+};
+
+export type ShippableLine = {
+  quantity: number;
+  weightGrams?: number;
+};
+
+export type DeliveryQuote = {
+  zone: ShippingZoneId;
+  zoneName: string;
+  fee: number;
+  weightGrams: number;
+};
+
+// Used for products that have no weight on record yet
+export const DEFAULT_ITEM_WEIGHT_GRAMS = 400;
+
+// The last zone catches every area no other zone claims.
+export const SHIPPING_ZONES: ShippingZone[] = [
+  {
+    id: "inside-dhaka",
+    name: "Inside Dhaka",
+    districts: ["dhaka"],
+    baseFee: 60,
+    includedItems: 3,
+    includedWeightGrams: 1000,
+    perExtraItem: 10,
+    perExtraKg: 15,
+    minTransitDays: 1,
+    maxTransitDays: 2,
+  },
+  {
+    id: "dhaka-suburbs",
+    name: "Dhaka suburbs",
+    districts: [
+      "gazipur",
+      "narayanganj",
+      "munshiganj",
+      "manikganj",
+      "narsingdi",
+    ],
+    thanas: [
+      "dhaka-savar",
+      "dhaka-keraniganj",
+      "dhaka-dhamrai",
+      "dhaka-nawabganj",
+      "dhaka-dohar",
+    ],
+    baseFee: 100,
+    includedItems: 3,
+    includedWeightGrams: 1000,
+    perExtraItem: 10,
+    perExtraKg: 20,
+    minTransitDays: 2,
+    maxTransitDays: 3,
+  },
+  {
+    id: "outside-dhaka",
+    name: "Outside Dhaka",
+    baseFee: 130,
+    includedItems: 2,
+    includedWeightGrams: 1000,
+    perExtraItem: 15,
+    perExtraKg: 25,
+    minTransitDays: 3,
+    maxTransitDays: 5,
+  },
+];
+
+export const findShippingZone = (area: DeliveryArea) =>
+  SHIPPING_ZONES.find(
+    (zone) => area.thanaId && zone.thanas?.includes(area.thanaId)
+  ) ??
+  SHIPPING_ZONES.find((zone) => zone.districts?.includes(area.districtId)) ??
+  SHIPPING_ZONES[SHIPPING_ZONES.length - 1];
+
+/**
+ * Delivery fee for a bag sent to `area`. Every item beyond the zone's
+ * included count and every started kilogram beyond its included weight adds
+ * a surcharge on top of the base fee.
+ */
+export const quoteDelivery = (
+  area: DeliveryArea,
+  lines: ShippableLine[]
+): DeliveryQuote => {
+  const zone = findShippingZone(area);
+  const items = lines.reduce((total, line) => total + line.quantity, 0);
+  const weightGrams = lines.reduce(
+    (total, line) =>
+      total + (line.weightGrams ?? DEFAULT_ITEM_WEIGHT_GRAMS) * line.quantity,
+    0
+  );
+  const extraItems = Math.max(items - zone.includedItems, 0);
+  const extraKg = Math.ceil(
+    Math.max(weightGrams - zone.includedWeightGrams, 0) / 1000
+  );
+
+  return {
+    zone: zone.id,
+    zoneName: zone.name,
+    fee:
+      items > 0
+        ? zone.baseFee +
+          extraItems * zone.perExtraItem +
+          extraKg * zone.perExtraKg
+        : 0,
+    weightGrams,
+  };
+};
@@ -1,14 +1,56 @@
 import { combineReducers, configureStore } from "@reduxjs/toolkit";
-import { persistReducer, persistStore } from "redux-persist";
+import {
+  type MigrationManifest,
+  type PersistedState,
+  createMigrate,
+  persistReducer,
+  persistStore,
+} from "redux-persist";
 import storage from "@/components/storage";
 import productsReducer from "./features/products/productsSlice";
-import cartsReducer from "./features/carts/cartsSlice";
+import cartsReducer, { type CartsState } from "./features/carts/cartsSlice";
+import { cartSyncListener } from "./features/carts/cartSync";
+import { couponListener } from "./features/carts/coupon";
+
+const migrations: MigrationManifest = {
+  // Bags saved before sizes and colours became variants have no variantId,
+  // so those lines can't be ordered. They are dropped, along with a coupon
+  // worked out for the old bag.
+  2: (state) => {
+    const persisted = state as
+      | (PersistedState & { carts?: CartsState })
+      | undefined;
+    const carts = persisted?.carts;
+
+    if (!carts?.cart) {
+      return state;
+    }
+
+    const items = carts.cart.items.filter((item) =>
+      Number.isInteger(item.variantId)
+    );
+
+    if (items.length === carts.cart.items.length) {
+      return state;
+    }
+
+    return {
+      ...persisted,
+      carts: {
+        ...carts,
+        cart: items.length > 0 ? { ...carts.cart, items } : null,
+        coupon: null,
+      },
+    } as PersistedState;
+  },
+};
 
 const persistConfig = {
   key: "root",
   storage,
-  version: 1,
+  version: 2,
   whitelist: ["carts"],
+  migrate: createMigrate(migrations),
 };
 
 const rootReducer = combineReducers({
@@ -25,7 +67,7 @@ export const makeStore = () => {
     middleware: (getDefaultMiddleware) =>
       getDefaultMiddleware({
         serializableCheck: false,
-      }),
+      }).prepend(cartSyncListener.middleware, couponListener.middleware),
   });
 
   const persistor = persistStore(store);
@@ -8,3 +8,10 @@ export function cn(...inputs: ClassValue[]) {
 export const compareArrays = <T>(a: T[], b: T[]): boolean => {
   return a.toString() === b.toString();
 };
+
+export const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 0,
+  }).format(value);
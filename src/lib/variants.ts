@@ -0,0 +1,55 @@
+import type { Product, ProductVariant } from "@/types/product.types";
+
+export const buildSku = (productId: number, size: string, color: string) =>
+  [
+    "TSR",
+    productId,
+    size.replace(/[^a-z0-9]/gi, "").toUpperCase(),
+    color.replace(/[^a-z0-9]/gi, "").toUpperCase(),
+  ].join("-");
+
+export const findVariant = (
+  variants: ProductVariant[] | undefined,
+  size: string,
+  color: string
+) =>
+  variants?.find(
+    (variant) =>
+      variant.size === size &&
+      variant.color.toLowerCase() === color.toLowerCase()
+  ) ?? null;
+
+export const isVariantAvailable = (variant: ProductVariant | null) =>
+  !!variant && variant.stock > 0;
+
+export const isColorAvailable = (
+  variants: ProductVariant[] | undefined,
+  color: string
+) =>
+  !!variants?.some(
+    (variant) =>
+      variant.color.toLowerCase() === color.toLowerCase() && variant.stock > 0
+  );
+
+export const isSizeAvailable = (
+  variants: ProductVariant[] | undefined,
+  size: string,
+  color: string
+) => isVariantAvailable(findVariant(variants, size, color));
+
+export const getVariantPrice = (product: Product, variant: ProductVariant) =>
+  variant.price ?? product.price;
+
+// Picks the first in-stock combination, preferring the order the product lists
+// its colours and sizes in.
+export const getDefaultSelection = (product: Product) => {
+  for (const color of product.colors) {
+    for (const size of product.sizes) {
+      if (isSizeAvailable(product.variants, size, color)) {
+        return { color, size };
+      }
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,65 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { SESSION_COOKIE_NAME } from "@/lib/constants";
+import { isStaffRole } from "@/lib/permissions";
+
+// Sessions live in Postgres, which the edge runtime can't reach, so the
+// middleware asks the app who the session cookie belongs to. It always asks
+// the app itself rather than whatever the Host header names, which the
+// client controls. Routes and pages still check the specific permission
+// they need.
+const getInternalOrigin = () =>
+  process.env.INTERNAL_APP_URL ??
+  `http://127.0.0.1:${process.env.PORT ?? 3000}`;
+
+const getSessionRole = async (request: NextRequest) => {
+  if (!request.cookies.has(SESSION_COOKIE_NAME)) {
+    return null;
+  }
+
+  const response = await fetch(new URL("/api/auth/me", getInternalOrigin()), {
+    headers: { cookie: request.headers.get("cookie") ?? "" },
+    cache: "no-store",
+  }).catch(() => null);
+
+  if (!response?.ok) {
+    return null;
+  }
+
+  const data = (await response.json().catch(() => null)) as
+    | { user?: { role?: string } }
+    | null;
+
+  return data?.user?.role ?? null;
+};
+
+const deny = (request: NextRequest, status: 401 | 403) => {
+  if (request.nextUrl.pathname.startsWith("/api/")) {
+    return NextResponse.json(
+      { message: status === 401 ? "Unauthenticated" : "Forbidden" },
+      { status }
+    );
+  }
+
+  return NextResponse.redirect(
+    new URL(status === 401 ? "/login" : "/", request.url)
+  );
+};
+
+export async function middleware(request: NextRequest) {
+  const role = await getSessionRole(request);
+
+  if (!role) {
+    return deny(request, 401);
+  }
+
+  if (!isStaffRole(role)) {
+    return deny(request, 403);
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ["/admin/:path*", "/api/admin/:path*"],
+};
@@ -1,3 +1,8 @@
+export type FilterOption = {
+  label: string;
+  value: string;
+};
+
 export type ShopFiltersState = {
   category: string | null;
   styles: string[];
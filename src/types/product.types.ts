@@ -3,6 +3,15 @@ export type Discount = {
   percentage: number;
 };
 
+export type ProductVariant = {
+  id: number;
+  sku: string;
+  size: string;
+  color: string;
+  stock: number;
+  price: number | null;
+};
+
 export type Product = {
   id: number;
   title: string;
@@ -11,8 +20,11 @@ export type Product = {
   price: number;
   discount: Discount;
   rating: number;
+  // Packed shipping weight in grams
+  weightGrams?: number;
   category: string;
   style: string;
   colors: string[];
   sizes: string[];
+  variants?: ProductVariant[];
 };